@@ -0,0 +1,89 @@
+// Headless decoder benchmark: renders synthetic frames of generated QR codes (varying
+// count, scale, rotation, skew, blur, noise, contrast and inversion) and EAN-13
+// barcodes, runs the frame decoder on each and reports recall, false positives and
+// time per frame as JSON.
+//
+//   node scripts/benchmark.cjs [--out run.json] [--compare baseline.json]
+//                              [--repeat 2] [--seed 1] [--filter count]
+//                              [--formats QR_CODE,CODE_128]
+//                              [--recall-tolerance 0.02] [--time-tolerance 0.25]
+//
+// The JSON goes to --out, or to stdout; the table goes to stderr. With --compare the
+// run is checked against a baseline and the exit code is 1 when any scenario regressed,
+// so CI can fail the build.
+
+const esbuild = require('esbuild');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const readOption = (name) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 ? process.argv[index + 1] : undefined;
+};
+
+const readNumber = (name, fallback) => {
+  const value = readOption(name);
+  return value === undefined ? fallback : Number(value);
+};
+
+// The decoder is TypeScript; bundle it for Node on the fly
+const bundle = path.join(os.tmpdir(), `multi-qr-benchmark-${process.pid}.cjs`);
+esbuild.buildSync({
+  entryPoints: [path.join(__dirname, '../src/benchmark/runBenchmark.ts')],
+  bundle: true,
+  platform: 'node',
+  format: 'cjs',
+  outfile: bundle,
+  logLevel: 'warning',
+});
+
+let benchmark;
+try {
+  benchmark = require(bundle);
+} finally {
+  fs.rmSync(bundle, { force: true });
+}
+
+const baselinePath = readOption('compare');
+const baseline = baselinePath ? JSON.parse(fs.readFileSync(baselinePath, 'utf8')) : undefined;
+
+const run = benchmark.runBenchmark(
+  {
+    repeat: readNumber('repeat', 2),
+    seed: readNumber('seed', 1),
+    filter: readOption('filter'),
+    formats: readOption('formats')?.split(','),
+  },
+  (scenario) => process.stderr.write(`  ${scenario.name}: ${(scenario.recall * 100).toFixed(1)}%\n`)
+);
+
+process.stderr.write(`\n${benchmark.formatRun(run, baseline)}\n`);
+
+const json = JSON.stringify(run, null, 2);
+const outPath = readOption('out');
+if (outPath) {
+  fs.writeFileSync(outPath, `${json}\n`);
+  process.stderr.write(`\nWrote ${outPath}\n`);
+} else {
+  process.stdout.write(`${json}\n`);
+}
+
+if (baseline) {
+  const regressions = benchmark.compareRuns(baseline, run, {
+    ...benchmark.DEFAULT_TOLERANCES,
+    recall: readNumber('recall-tolerance', benchmark.DEFAULT_TOLERANCES.recall),
+    time: readNumber('time-tolerance', benchmark.DEFAULT_TOLERANCES.time),
+  });
+  if (regressions.length > 0) {
+    process.stderr.write(`\n${regressions.length} regression(s) against ${baselinePath}:\n`);
+    regressions.forEach((regression) => {
+      process.stderr.write(
+        `  ${regression.scenario}: ${regression.metric} ${regression.baseline} -> ${regression.current}\n`
+      );
+    });
+    process.exitCode = 1;
+  } else {
+    process.stderr.write(`\nNo regressions against ${baselinePath}\n`);
+  }
+}
@@ -0,0 +1,65 @@
+// Local stand-in for the ingestion endpoint, for trying out the scan outbox.
+//
+//   node scripts/mock-ingest-server.cjs [--port 8787] [--fail-first 3] [--status 503]
+//
+// --port 0 picks a free port; the first line printed has the URL either way.
+// Point the app's Sync settings at http://localhost:8787/ingest. Every request body is
+// logged; GET /received lists what has been accepted so far. --fail-first answers the
+// first N posts with --status (default 503) to exercise the retry and failed states.
+
+const http = require('http');
+
+const readOption = (name, fallback) => {
+  const index = process.argv.indexOf(`--${name}`);
+  return index >= 0 && process.argv[index + 1] ? Number(process.argv[index + 1]) : fallback;
+};
+
+const port = readOption('port', 8787);
+let failuresLeft = readOption('fail-first', 0);
+const failureStatus = readOption('status', 503);
+const received = [];
+
+const corsHeaders = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, PUT, OPTIONS',
+  'Access-Control-Allow-Headers': '*',
+};
+
+const server = http.createServer((req, res) => {
+  if (req.method === 'OPTIONS') {
+    res.writeHead(204, corsHeaders);
+    res.end();
+    return;
+  }
+
+  if (req.method === 'GET' && req.url === '/received') {
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify(received, null, 2));
+    return;
+  }
+
+  let body = '';
+  req.on('data', (chunk) => {
+    body += chunk;
+  });
+  req.on('end', () => {
+    const time = new Date().toISOString();
+    if (failuresLeft > 0) {
+      failuresLeft--;
+      console.log(`${time} ${req.method} ${req.url} -> ${failureStatus} (${failuresLeft} failures left)`);
+      res.writeHead(failureStatus, corsHeaders);
+      res.end();
+      return;
+    }
+
+    console.log(`${time} ${req.method} ${req.url} authorization=${req.headers.authorization || '-'}`);
+    console.log(body);
+    received.push({ time, method: req.method, url: req.url, headers: req.headers, body });
+    res.writeHead(200, { ...corsHeaders, 'Content-Type': 'application/json' });
+    res.end(JSON.stringify({ ok: true, received: received.length }));
+  });
+});
+
+server.listen(port, () => {
+  console.log(`Mock ingestion endpoint listening on http://localhost:${server.address().port}/ingest`);
+});
@@ -0,0 +1,41 @@
+// Runs the checks in tests/*.test.ts with Node's built-in test runner. They import the
+// app's TypeScript directly, so each file is bundled for Node first, like the benchmark.
+//
+//   node scripts/run-tests.cjs [name-filter]
+
+const esbuild = require('esbuild');
+const { spawnSync } = require('child_process');
+const fs = require('fs');
+const os = require('os');
+const path = require('path');
+
+const testsDir = path.join(__dirname, '../tests');
+const filter = process.argv[2];
+const entries = fs
+  .readdirSync(testsDir)
+  .filter((file) => file.endsWith('.test.ts') && (!filter || file.includes(filter)))
+  .map((file) => path.join(testsDir, file));
+
+if (entries.length === 0) {
+  console.error('No test files matched.');
+  process.exit(1);
+}
+
+const outdir = fs.mkdtempSync(path.join(os.tmpdir(), 'multi-qr-tests-'));
+let status = 1;
+try {
+  esbuild.buildSync({
+    entryPoints: entries,
+    bundle: true,
+    platform: 'node',
+    format: 'cjs',
+    outdir,
+    outExtension: { '.js': '.cjs' },
+    logLevel: 'warning',
+  });
+  const bundles = fs.readdirSync(outdir).map((file) => path.join(outdir, file));
+  status = spawnSync(process.execPath, ['--test', ...bundles], { stdio: 'inherit' }).status ?? 1;
+} finally {
+  fs.rmSync(outdir, { recursive: true, force: true });
+}
+process.exit(status);
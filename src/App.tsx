@@ -1,4 +1,4 @@
-import { useState, useEffect, useRef } from 'react';
+import { useState, useEffect, useMemo, useRef } from 'react';
 
 // PWA install prompt types
 interface BeforeInstallPromptEvent extends Event {
@@ -21,14 +21,113 @@ import {
 import TrueMultiCodeScanner from './components/TrueMultiCodeScanner';
 import UltraFastResultsDisplay from './components/UltraFastResultsDisplay';
 import UltraFastDemoSetup from './components/UltraFastDemoSetup';
-import type { ScanResult } from './types';
+import ScannerSettings from './components/ScannerSettings';
+import ImageBatchScanner from './components/ImageBatchScanner';
+import SessionHistory from './components/SessionHistory';
+import ReconciliationPanel from './components/ReconciliationPanel';
+import SyncSettings from './components/SyncSettings';
+import LinkSafetySettings from './components/LinkSafetySettings';
+import QrGenerator from './components/QrGenerator';
+import LabelSheetPrinter from './components/LabelSheetPrinter';
+import StructuredAppendProgress from './components/StructuredAppendProgress';
+import { loadScannerConfig } from './utils/scannerConfig';
+import { mergeUniqueResults } from './utils/resultMerge';
+import { applyDuplicatePolicy, buildHistoryIndex } from './utils/duplicatePolicy';
+import type { HistoryEntry } from './utils/duplicatePolicy';
+import { loadLinkPolicy } from './utils/linkInspector';
+import {
+  assembleSet,
+  collectParts,
+  loadStructuredAppendSets,
+  rememberAssembled,
+} from './utils/structuredAppend';
+import {
+  clearSyncedOutbox,
+  createScanEntry,
+  createSessionEntry,
+  enqueueOutbox,
+  listOutbox,
+  loadSyncConfig,
+  requestOutboxSync,
+  retryFailedOutbox,
+  subscribeOutbox,
+  validateSyncConfig,
+} from './utils/outbox';
+import {
+  createSession,
+  deleteSession,
+  listSessions,
+  migrateLegacyResults,
+  saveSession,
+} from './utils/sessionStore';
+import type {
+  DuplicatePolicy,
+  ExpectedList,
+  LinkPolicy,
+  OutboxEntry,
+  ProcessingStats,
+  ScanResult,
+  ScanSession,
+  ScannerConfig,
+  StructuredAppendSet,
+  SyncConfig,
+} from './types';
+
+// Coalesce bursts of results into one IndexedDB write
+const SESSION_SAVE_DELAY_MS = 300;
+
+const EXPECTED_LIST_KEY = 'multiQRExpectedList';
+const STRUCTURED_APPEND_KEY = 'multiQRStructuredAppend';
+
+const loadExpectedList = (): ExpectedList | null => {
+  try {
+    const stored = localStorage.getItem(EXPECTED_LIST_KEY);
+    return stored ? (JSON.parse(stored) as ExpectedList) : null;
+  } catch {
+    return null;
+  }
+};
+
+const queueForSync = (entries: OutboxEntry[]) => {
+  enqueueOutbox(entries)
+    .then(() => requestOutboxSync())
+    .catch((error) => console.error('Failed to queue scans for sync:', error));
+};
 
 function App() {
   const [scanResults, setScanResults] = useState<ScanResult[]>([]);
   const [isOnline, setIsOnline] = useState(navigator.onLine);
   const [showInstallPrompt, setShowInstallPrompt] = useState(false);
   const [deferredPrompt, setDeferredPrompt] = useState<BeforeInstallPromptEvent | null>(null);
-  const uniqueCodesSet = useRef<Set<string>>(new Set());
+  const [scannerConfig, setScannerConfig] = useState<ScannerConfig>(() =>
+    loadScannerConfig(localStorage.getItem('multiQRScannerConfig'))
+  );
+  // Session whose results are on screen: the running one, or one reopened from history
+  const [currentSession, setCurrentSession] = useState<ScanSession | null>(null);
+  const [isSessionRunning, setIsSessionRunning] = useState(false);
+  const [sessions, setSessions] = useState<ScanSession[]>([]);
+  // Manifest the scan is checked against, kept across reloads until cleared
+  const [expectedList, setExpectedList] = useState<ExpectedList | null>(loadExpectedList);
+  const [syncConfig, setSyncConfig] = useState<SyncConfig>(() =>
+    loadSyncConfig(localStorage.getItem('multiQRSyncConfig'))
+  );
+  const [outboxEntries, setOutboxEntries] = useState<OutboxEntry[]>([]);
+  const [linkPolicy, setLinkPolicy] = useState<LinkPolicy>(() =>
+    loadLinkPolicy(localStorage.getItem('multiQRLinkPolicy'))
+  );
+  // Parts of multi-symbol QR messages still being collected, kept across sessions and reloads
+  const [partSets, setPartSets] = useState<StructuredAppendSet[]>(() =>
+    loadStructuredAppendSets(localStorage.getItem(STRUCTURED_APPEND_KEY))
+  );
+  const partSetsRef = useRef(partSets);
+  // Messages reassembled since the app opened: their symbols stay in view, and re-reads are ignored
+  const assembledPartSetsRef = useRef<StructuredAppendSet[]>([]);
+  // Duplicate policy of the running session, and the saved codes its 'history' scope checks
+  const sessionPolicyRef = useRef<DuplicatePolicy>(scannerConfig.duplicatePolicy);
+  const historyIndexRef = useRef<Map<string, HistoryEntry>>(new Map());
+  // Results already handed to the outbox, and whether the last render had a session running
+  const queuedResultIds = useRef<Set<string>>(new Set());
+  const wasSessionRunning = useRef(false);
 
   useEffect(() => {
     // Handle online/offline status
@@ -38,22 +137,19 @@ function App() {
     window.addEventListener('online', handleOnline);
     window.addEventListener('offline', handleOffline);
 
-    // Load saved results from localStorage
-    const savedResults = localStorage.getItem('multiQRScanResults');
-    if (savedResults) {
-      try {
-        const parsed = JSON.parse(savedResults) as Array<Omit<ScanResult, 'timestamp'> & { timestamp: string }>;
-        const results: ScanResult[] = parsed.map((result) => ({
-          ...result,
-          timestamp: new Date(result.timestamp),
-        }));
-        setScanResults(results);
-        // Add existing codes to unique set
-        results.forEach(result => uniqueCodesSet.current.add(result.text));
-      } catch (error) {
-        console.error('Failed to load saved results:', error);
-      }
-    }
+    // Load session history (moving any pre-IndexedDB results into it first)
+    migrateLegacyResults()
+      .catch((error) => console.error('Failed to migrate saved results:', error))
+      .then(() => listSessions())
+      .then((savedSessions) => {
+        setSessions(savedSessions);
+        const latest = savedSessions[0];
+        if (latest) {
+          setCurrentSession(latest);
+          setScanResults(latest.results);
+        }
+      })
+      .catch((error) => console.error('Failed to load scan sessions:', error));
 
     // Handle PWA install prompt
     const handleBeforeInstallPrompt = (e: Event) => {
@@ -72,68 +168,212 @@ function App() {
   }, []);
 
   useEffect(() => {
-    // Save results to localStorage whenever they change
-    localStorage.setItem('multiQRScanResults', JSON.stringify(scanResults));
-  }, [scanResults]);
+    localStorage.setItem('multiQRScannerConfig', JSON.stringify(scannerConfig));
+  }, [scannerConfig]);
 
-  const handleScanResults = (results: ScanResult[]) => {
-    console.log('Received results:', results.length, 'codes');
-    
-    // Force immediate state update for mobile compatibility
-    setScanResults(prev => {
-      // Filter out duplicates within this session only
-      const newUniqueResults = results.filter(result => {
-        // Check if this code was already added in this session
-        const isDuplicate = prev.some(existing => existing.text === result.text);
-        if (isDuplicate) {
-          console.log('Session duplicate filtered out:', result.text.substring(0, 30) + '...');
-          return false;
-        } else {
-          console.log('New unique code added:', result.text.substring(0, 30) + '...');
-          return true;
-        }
-      });
+  useEffect(() => {
+    localStorage.setItem('multiQRSyncConfig', JSON.stringify(syncConfig));
+  }, [syncConfig]);
 
-      if (newUniqueResults.length > 0) {
-        const updatedResults = [...newUniqueResults, ...prev];
-        // Keep only last 100 results
-        const finalResults = updatedResults.slice(0, 100);
-        
-        // Force localStorage update for mobile
-        setTimeout(() => {
-          localStorage.setItem('multiQRScanResults', JSON.stringify(finalResults));
-        }, 0);
-        
-        return finalResults;
-      }
-      
-      return prev;
+  useEffect(() => {
+    localStorage.setItem('multiQRLinkPolicy', JSON.stringify(linkPolicy));
+  }, [linkPolicy]);
+
+  useEffect(() => {
+    if (partSets.length > 0) {
+      localStorage.setItem(STRUCTURED_APPEND_KEY, JSON.stringify(partSets));
+    } else {
+      localStorage.removeItem(STRUCTURED_APPEND_KEY);
+    }
+  }, [partSets]);
+
+  useEffect(() => {
+    // Keep the per-row sync status current, whichever tab or the service worker sent it
+    const refresh = () => {
+      listOutbox()
+        .then(setOutboxEntries)
+        .catch((error) => console.error('Failed to load the sync outbox:', error));
+    };
+    const syncOnReconnect = () => {
+      requestOutboxSync().catch((error) => console.error('Outbox sync failed:', error));
+    };
+
+    refresh();
+    syncOnReconnect();
+    const unsubscribe = subscribeOutbox(refresh);
+    window.addEventListener('online', syncOnReconnect);
+    return () => {
+      unsubscribe();
+      window.removeEventListener('online', syncOnReconnect);
+    };
+  }, []);
+
+  useEffect(() => {
+    // 'scan' mode: queue each new code of a running session as it arrives
+    if (!isSessionRunning || !syncConfig.enabled || syncConfig.mode !== 'scan') return;
+    if (validateSyncConfig(syncConfig)) return;
+
+    const fresh = scanResults.filter(result => !queuedResultIds.current.has(result.id));
+    if (fresh.length === 0) return;
+    fresh.forEach(result => queuedResultIds.current.add(result.id));
+    queueForSync([...fresh].reverse().map(result => createScanEntry(result, currentSession, syncConfig)));
+  }, [isSessionRunning, scanResults, currentSession, syncConfig]);
+
+  useEffect(() => {
+    // 'session' mode: queue the whole session once it ends (its last results arrive with the end)
+    const ended = wasSessionRunning.current && !isSessionRunning;
+    wasSessionRunning.current = isSessionRunning;
+    if (!ended || !currentSession || scanResults.length === 0) return;
+    if (!syncConfig.enabled || syncConfig.mode !== 'session' || validateSyncConfig(syncConfig)) return;
+
+    queueForSync([createSessionEntry(currentSession, [...scanResults].reverse(), syncConfig)]);
+  }, [isSessionRunning, currentSession, scanResults, syncConfig]);
+
+  // Newest entry per result; entries are listed newest first
+  const syncEntries = useMemo(() => {
+    const byResultId = new Map<string, OutboxEntry>();
+    outboxEntries.forEach(entry => {
+      entry.resultIds.forEach(id => {
+        if (!byResultId.has(id)) byResultId.set(id, entry);
+      });
     });
+    return byResultId;
+  }, [outboxEntries]);
+
+  useEffect(() => {
+    if (expectedList) {
+      localStorage.setItem(EXPECTED_LIST_KEY, JSON.stringify(expectedList));
+    } else {
+      localStorage.removeItem(EXPECTED_LIST_KEY);
+    }
+  }, [expectedList]);
+
+  useEffect(() => {
+    // Persist the on-screen session whenever it or its results change
+    if (!currentSession) return;
+
+    const session: ScanSession = { ...currentSession, results: scanResults };
+    const timer = setTimeout(() => {
+      saveSession(session).catch((error) => console.error('Failed to save session:', error));
+    }, SESSION_SAVE_DELAY_MS);
+
+    setSessions(prev =>
+      prev.some(existing => existing.id === session.id)
+        ? prev.map(existing => (existing.id === session.id ? session : existing))
+        : [session, ...prev]
+    );
+
+    return () => clearTimeout(timer);
+  }, [currentSession, scanResults]);
+
+  const handleSessionStart = (config: ScannerConfig, name?: string) => {
+    sessionPolicyRef.current = config.duplicatePolicy;
+    historyIndexRef.current =
+      config.duplicatePolicy.scope === 'history' ? buildHistoryIndex(sessions) : new Map();
+    setCurrentSession({ ...createSession(config), name });
+    setIsSessionRunning(true);
+    setScanResults([]);
   };
 
-  const handleSingleResult = (result: ScanResult) => {
-    // Check if this result is already in our unique set
-    if (uniqueCodesSet.current.has(result.text)) {
-      console.log('Single result duplicate filtered out:', result.text.substring(0, 30) + '...');
+  const handleSessionEnd = (stats: ProcessingStats) => {
+    setIsSessionRunning(false);
+    setCurrentSession(prev => (prev ? { ...prev, endTime: new Date(), stats } : prev));
+  };
+
+  const openSession = (session: ScanSession) => {
+    setCurrentSession(session);
+    setScanResults(session.results);
+  };
+
+  const renameSession = (session: ScanSession, name: string) => {
+    const renamed = { ...session, name: name.trim() || undefined };
+    if (currentSession?.id === session.id) {
+      // The persist effect picks this up
+      setCurrentSession(prev => (prev ? { ...prev, name: renamed.name } : prev));
       return;
     }
+    setSessions(prev => prev.map(existing => (existing.id === session.id ? renamed : existing)));
+    saveSession(renamed).catch((error) => console.error('Failed to rename session:', error));
+  };
+
+  // Bulk delete from the results list; rows browsed from other sessions are removed there too
+  const deleteResults = (ids: Set<string>) => {
+    setScanResults(prev => prev.filter(result => !ids.has(result.id)));
+    sessions
+      .filter(session => session.id !== currentSession?.id && session.results.some(result => ids.has(result.id)))
+      .forEach(session => {
+        const updated = { ...session, results: session.results.filter(result => !ids.has(result.id)) };
+        setSessions(prev => prev.map(existing => (existing.id === session.id ? updated : existing)));
+        saveSession(updated).catch((error) => console.error('Failed to update session:', error));
+      });
+  };
+
+  const removeSession = (session: ScanSession) => {
+    setSessions(prev => prev.filter(existing => existing.id !== session.id));
+    if (currentSession?.id === session.id) {
+      setCurrentSession(null);
+      setScanResults([]);
+    }
+    deleteSession(session.id).catch((error) => console.error('Failed to delete session:', error));
+  };
+
+  const updatePartSets = (sets: StructuredAppendSet[]) => {
+    partSetsRef.current = sets;
+    setPartSets(sets);
+  };
 
-    // Add to unique set and results
-    uniqueCodesSet.current.add(result.text);
-    console.log('Single result new code added:', result.text.substring(0, 30) + '...');
+  const handleScanResults = (incoming: ScanResult[]) => {
+    console.log('Received results:', incoming.length, 'codes');
     
-    setScanResults(prev => {
-      const newResults = [result, ...prev];
-      // Keep only last 100 results
-      const finalResults = newResults.slice(0, 100);
-      
-      // Force localStorage update for mobile
-      setTimeout(() => {
-        localStorage.setItem('multiQRScanResults', JSON.stringify(finalResults));
-      }, 0);
-      
-      return finalResults;
-    });
+    // Read through refs: the batch scanner calls back from a loop started before the session existed
+    const policy = sessionPolicyRef.current;
+    const history = historyIndexRef.current;
+
+    // Parts of multi-symbol codes are held back and listed once their message is complete
+    const { sets, completed, others, assembled } = collectParts(
+      partSetsRef.current,
+      incoming,
+      assembledPartSetsRef.current
+    );
+    if (others.length < incoming.length) {
+      assembledPartSetsRef.current = assembled;
+      updatePartSets(sets);
+    }
+    const results = [...completed, ...others];
+
+    // Force immediate state update for mobile compatibility
+    setScanResults(prev => applyDuplicatePolicy(prev, results, policy, history).results);
+  };
+
+  const acceptPartSet = (set: StructuredAppendSet) => {
+    updatePartSets(partSetsRef.current.filter(existing => existing.key !== set.key));
+    assembledPartSetsRef.current = rememberAssembled(assembledPartSetsRef.current, set);
+    handleScanResults([assembleSet(set)]);
+  };
+
+  const discardPartSet = (set: StructuredAppendSet) => {
+    updatePartSets(partSetsRef.current.filter(existing => existing.key !== set.key));
+  };
+
+  // Merge a re-imported export into the list, skipping codes already listed (re-reading a
+  // file is not a re-scan, so the duplicate policy doesn't apply).
+  // With nothing on screen the import becomes a session of its own, so it is saved too.
+  const importResults = (imported: ScanResult[], fileName: string) => {
+    const { added, skipped } = mergeUniqueResults(scanResults, imported);
+
+    if (added.length > 0) {
+      if (!currentSession) {
+        setCurrentSession({
+          ...createSession(scannerConfig),
+          name: `Import: ${fileName}`,
+          endTime: new Date(),
+        });
+      }
+      const newestFirst = [...added].sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+      setScanResults(prev => [...newestFirst, ...prev]);
+    }
+
+    return { added: added.length, skipped: skipped.length };
   };
 
   // Results handling is now managed by UltraFastResultsDisplay component
@@ -153,10 +393,13 @@ function App() {
     setShowInstallPrompt(false);
   };
 
+  // A finished session just leaves the view (it stays in history);
+  // a running one starts its list over.
   const clearResults = () => {
+    if (!isSessionRunning) {
+      setCurrentSession(null);
+    }
     setScanResults([]);
-    uniqueCodesSet.current.clear();
-    localStorage.removeItem('multiQRScanResults');
   };
 
 
@@ -234,10 +477,65 @@ function App() {
               {/* True Multi-Code Scanner Component */}
               <TrueMultiCodeScanner
                 onResults={handleScanResults}
-                onSingleResult={handleSingleResult}
-                maxCodes={10}
+                onSessionStart={handleSessionStart}
+                onSessionEnd={handleSessionEnd}
+                config={scannerConfig}
+                onFormatsChange={formats => setScannerConfig(prev => ({ ...prev, formats }))}
+                stopWhenMatched={expectedList?.autoStop ? expectedList.items : undefined}
+              />
+
+              <StructuredAppendProgress
+                sets={partSets}
+                onAccept={acceptPartSet}
+                onDiscard={discardPartSet}
+              />
+
+              <ReconciliationPanel
+                expectedList={expectedList}
+                onChange={setExpectedList}
+                results={scanResults}
+                isSessionRunning={isSessionRunning}
+              />
+
+              <ImageBatchScanner
+                config={scannerConfig}
+                onResults={handleScanResults}
+                onSessionStart={handleSessionStart}
+                onSessionEnd={handleSessionEnd}
+                disabled={isSessionRunning}
+              />
+
+              <ScannerSettings
+                config={scannerConfig}
+                onChange={setScannerConfig}
+              />
+
+              <LinkSafetySettings
+                policy={linkPolicy}
+                onChange={setLinkPolicy}
+              />
+
+              <SyncSettings
+                config={syncConfig}
+                onChange={setSyncConfig}
+                entries={outboxEntries}
+                onSyncNow={() => {
+                  requestOutboxSync({ ignoreBackoff: true }).catch((error) => console.error('Outbox sync failed:', error));
+                }}
+                onRetryFailed={() => {
+                  retryFailedOutbox()
+                    .then(() => requestOutboxSync())
+                    .catch((error) => console.error('Failed to retry sync:', error));
+                }}
+                onClearSynced={() => {
+                  clearSyncedOutbox().catch((error) => console.error('Failed to clear synced entries:', error));
+                }}
               />
               
+              <QrGenerator />
+
+              <LabelSheetPrinter />
+
               {/* Demo Setup Component */}
               <div className="mt-6">
                 <UltraFastDemoSetup />
@@ -293,13 +591,28 @@ function App() {
               initial={{ x: 20, opacity: 0 }}
               animate={{ x: 0, opacity: 1 }}
               transition={{ delay: 0.2 }}
-              className="h-full"
             >
               <UltraFastResultsDisplay 
                 results={scanResults}
-                maxDisplay={50}
                 onClear={clearResults}
+                currentSession={currentSession}
+                sessions={sessions}
+                onImport={importResults}
+                syncEntries={syncEntries}
+                onDelete={deleteResults}
+                linkPolicy={linkPolicy}
               />
+
+              <div className="mt-6">
+                <SessionHistory
+                  sessions={sessions}
+                  activeSessionId={currentSession?.id ?? null}
+                  runningSessionId={isSessionRunning ? currentSession?.id ?? null : null}
+                  onOpen={openSession}
+                  onRename={renameSession}
+                  onDelete={removeSession}
+                />
+              </div>
             </motion.div>
           </div>
         </div>
@@ -0,0 +1,196 @@
+import { decodeFrameWithStats } from "../utils/frameDecoder";
+import { SUPPORTED_FORMATS } from "../utils/formats";
+import { BASE_SCENE, renderScene } from "./syntheticFrames";
+import type { SceneParams } from "./syntheticFrames";
+import type { BarcodeFormatName } from "../types";
+
+// Decoder accuracy and speed on synthetic frames. Each scenario changes one property of
+// the base scene, so a regression points at the condition that got worse.
+
+export interface Scenario {
+  name: string;
+  params: SceneParams;
+}
+
+export interface ScenarioResult {
+  name: string;
+  params: SceneParams;
+  frames: number;
+  expected: number;
+  found: number; // Expected payloads that were decoded
+  falsePositives: number; // Decoded payloads that were not in the frame
+  recall: number; // found / expected
+  meanMs: number;
+  p95Ms: number;
+}
+
+export interface BenchmarkRun {
+  version: 1;
+  createdAt: string;
+  options: { repeat: number; seed: number; formats: BarcodeFormatName[] };
+  summary: Omit<ScenarioResult, "name" | "params">;
+  scenarios: ScenarioResult[];
+}
+
+export interface BenchmarkOptions {
+  repeat?: number; // Frames per scenario, each with its own seed
+  seed?: number;
+  formats?: BarcodeFormatName[];
+  filter?: string; // Only scenarios whose name contains this
+}
+
+const vary = (name: string, changes: Partial<SceneParams>): Scenario => ({
+  name,
+  params: { ...BASE_SCENE, ...changes },
+});
+
+export const SCENARIOS: Scenario[] = [
+  vary("count-1", { count: 1 }),
+  vary("count-5", { count: 5 }),
+  vary("count-10", {}),
+  vary("count-25", { count: 25 }),
+  vary("count-50", { count: 50 }),
+  vary("scale-2px", { moduleSize: 2 }),
+  vary("scale-3px", { moduleSize: 3 }),
+  vary("scale-6px", { moduleSize: 6 }),
+  vary("rotation-15", { rotation: 15 }),
+  vary("rotation-45", { rotation: 45 }),
+  vary("skew-0.05", { skew: 0.05 }),
+  vary("skew-0.1", { skew: 0.1 }),
+  vary("blur-1", { blur: 1 }),
+  vary("blur-2", { blur: 2 }),
+  vary("noise-0.1", { noise: 0.1 }),
+  vary("noise-0.25", { noise: 0.25 }),
+  vary("contrast-0.3", { contrast: 0.3 }),
+  vary("contrast-0.15", { contrast: 0.15 }),
+  vary("inverted", { invert: true }),
+  vary("ean13-5", { format: "EAN_13", count: 5, moduleSize: 2 }),
+  vary("ean13-rotated", { format: "EAN_13", count: 5, moduleSize: 2, rotation: 15 }),
+];
+
+const percentile = (values: number[], fraction: number): number => {
+  if (values.length === 0) return 0;
+  const sorted = [...values].sort((a, b) => a - b);
+  return sorted[Math.min(sorted.length - 1, Math.ceil(fraction * sorted.length) - 1)];
+};
+
+const round = (value: number, digits = 2) => Number(value.toFixed(digits));
+
+const summarise = (frames: { expected: number; found: number; falsePositives: number; ms: number }[]) => {
+  const expected = frames.reduce((sum, frame) => sum + frame.expected, 0);
+  const found = frames.reduce((sum, frame) => sum + frame.found, 0);
+  const times = frames.map((frame) => frame.ms);
+  return {
+    frames: frames.length,
+    expected,
+    found,
+    falsePositives: frames.reduce((sum, frame) => sum + frame.falsePositives, 0),
+    recall: expected === 0 ? 1 : round(found / expected, 4),
+    meanMs: round(times.reduce((sum, ms) => sum + ms, 0) / Math.max(1, times.length)),
+    p95Ms: round(percentile(times, 0.95)),
+  };
+};
+
+export const runBenchmark = (
+  options: BenchmarkOptions = {},
+  onScenario?: (result: ScenarioResult) => void
+): BenchmarkRun => {
+  const repeat = options.repeat ?? 2;
+  const seed = options.seed ?? 1;
+  const formats = options.formats ?? SUPPORTED_FORMATS;
+  const scenarios = SCENARIOS.filter((scenario) => !options.filter || scenario.name.includes(options.filter));
+  const allFrames: Parameters<typeof summarise>[0] = [];
+
+  const results = scenarios.map((scenario) => {
+    // Seeded by the scenario's place in the full list, so filtered runs render the same frames
+    const scenarioSeed = seed * 1000 + SCENARIOS.indexOf(scenario) * 10;
+    const frames = Array.from({ length: repeat }, (_, run) => {
+      const frame = renderScene(scenario.params, scenarioSeed + run);
+      const imageData = { width: frame.width, height: frame.height, data: frame.data } as ImageData;
+      const { results: decoded, decodeTime } = decodeFrameWithStats(imageData, { formats });
+
+      const expected = new Set(frame.payloads);
+      const texts = new Set(decoded.map((result) => result.text));
+      const found = [...texts].filter((text) => expected.has(text)).length;
+      return { expected: expected.size, found, falsePositives: texts.size - found, ms: decodeTime };
+    });
+    allFrames.push(...frames);
+
+    const result = { name: scenario.name, params: scenario.params, ...summarise(frames) };
+    onScenario?.(result);
+    return result;
+  });
+
+  return {
+    version: 1,
+    createdAt: new Date().toISOString(),
+    options: { repeat, seed, formats },
+    summary: summarise(allFrames),
+    scenarios: results,
+  };
+};
+
+export interface CompareTolerances {
+  recall: number; // Allowed drop in recall, as a fraction (0.02 = two points)
+  time: number; // Allowed slowdown, as a fraction of the baseline mean
+  minTimeMs: number; // Slowdowns smaller than this are timing noise
+}
+
+export const DEFAULT_TOLERANCES: CompareTolerances = { recall: 0.02, time: 0.25, minTimeMs: 5 };
+
+export interface Regression {
+  scenario: string;
+  metric: "recall" | "falsePositives" | "meanMs";
+  baseline: number;
+  current: number;
+}
+
+// Scenarios that got worse than the baseline allows. Scenarios missing from either run
+// are skipped, so runs with different filters can still be compared.
+export const compareRuns = (
+  baseline: BenchmarkRun,
+  current: BenchmarkRun,
+  tolerances: CompareTolerances = DEFAULT_TOLERANCES
+): Regression[] => {
+  const before = new Map(baseline.scenarios.map((scenario) => [scenario.name, scenario]));
+  return current.scenarios.flatMap((scenario): Regression[] => {
+    const old = before.get(scenario.name);
+    if (!old) return [];
+    const regressions: Regression[] = [];
+    if (scenario.recall < old.recall - tolerances.recall) {
+      regressions.push({ scenario: scenario.name, metric: "recall", baseline: old.recall, current: scenario.recall });
+    }
+    if (scenario.falsePositives > old.falsePositives) {
+      regressions.push({
+        scenario: scenario.name,
+        metric: "falsePositives",
+        baseline: old.falsePositives,
+        current: scenario.falsePositives,
+      });
+    }
+    const slowdown = scenario.meanMs - old.meanMs;
+    if (slowdown > tolerances.minTimeMs && slowdown > old.meanMs * tolerances.time) {
+      regressions.push({ scenario: scenario.name, metric: "meanMs", baseline: old.meanMs, current: scenario.meanMs });
+    }
+    return regressions;
+  });
+};
+
+// Plain-text table for the console
+export const formatRun = (run: BenchmarkRun, baseline?: BenchmarkRun): string => {
+  const before = new Map(baseline?.scenarios.map((scenario) => [scenario.name, scenario]) ?? []);
+  const delta = (current: number, old: number | undefined, digits: number) =>
+    old === undefined ? "" : ` (${current - old >= 0 ? "+" : ""}${(current - old).toFixed(digits)})`;
+
+  const lines = [...run.scenarios, { name: "TOTAL", ...run.summary }].map((scenario) => {
+    const old = scenario.name === "TOTAL" ? baseline?.summary : before.get(scenario.name);
+    return [
+      scenario.name.padEnd(16),
+      `recall ${(scenario.recall * 100).toFixed(1)}%${delta(scenario.recall * 100, old && old.recall * 100, 1)}`.padEnd(26),
+      `fp ${scenario.falsePositives}${delta(scenario.falsePositives, old?.falsePositives, 0)}`.padEnd(12),
+      `${scenario.meanMs.toFixed(1)} ms/frame${delta(scenario.meanMs, old?.meanMs, 1)}`.padEnd(26),
+      `p95 ${scenario.p95Ms.toFixed(1)} ms`,
+    ].join(" ");
+  });
+  return lines.join("\n");
+};
@@ -0,0 +1,231 @@
+import qrcode from "qrcode-generator";
+import type { BarcodeFormatName } from "../types";
+
+// Synthetic camera frames for the decoder benchmark: generated QR codes or EAN-13
+// barcodes laid out on a grid and degraded in controlled ways. Everything is seeded, so a scenario renders the
+// same pixels on every run and results can be compared between runs.
+
+export type SceneFormat = Extract<BarcodeFormatName, "QR_CODE" | "EAN_13">;
+
+export interface SceneParams {
+  format: SceneFormat;
+  count: number; // Codes in the frame
+  moduleSize: number; // Pixels per module (a QR cell or the narrowest bar) before any transform
+  rotation: number; // Degrees; codes alternate direction
+  skew: number; // 0..0.5, how far the far edge shrinks (perspective)
+  blur: number; // Box blur radius in pixels
+  noise: number; // Noise amplitude as a fraction of full scale
+  contrast: number; // 1 = black on white; lower values move both towards mid-grey
+  invert: boolean; // Light modules on a dark background
+}
+
+export interface SyntheticFrame {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray; // RGBA, like ImageData
+  payloads: string[]; // What a perfect decoder would find
+}
+
+export const BASE_SCENE: SceneParams = {
+  format: "QR_CODE",
+  count: 10,
+  moduleSize: 4,
+  rotation: 0,
+  skew: 0,
+  blur: 0,
+  noise: 0,
+  contrast: 1,
+  invert: false,
+};
+
+// Modules of white around every code; a barcode needs more than a QR code to find its ends
+const QUIET_ZONE: Record<SceneFormat, number> = { QR_CODE: 4, EAN_13: 11 };
+const BAR_HEIGHT = 40; // Barcode height in modules
+const CELL_SPACING = 1.5; // Grid cell size relative to the code, leaving room to rotate
+
+// mulberry32: small, fast and good enough for test noise
+export const createRandom = (seed: number) => {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+};
+
+const toQrModules = (payload: string): boolean[][] => {
+  const code = qrcode(0, "M");
+  code.addData(payload);
+  code.make();
+  const size = code.getModuleCount();
+  return Array.from({ length: size }, (_, row) =>
+    Array.from({ length: size }, (_, col) => code.isDark(row, col))
+  );
+};
+
+// EAN-13 digits as bars (1 = dark): the L set; R is its complement and G is R reversed.
+// The first digit isn't drawn, it picks which of the left-hand digits use G.
+const EAN_L = ["0001101", "0011001", "0010011", "0111101", "0100011", "0110001", "0101111", "0111011", "0110111", "0001011"];
+const EAN_PARITY = ["LLLLLL", "LLGLGG", "LLGGLG", "LLGGGL", "LGLLGG", "LGGLLG", "LGGGLL", "LGLGLG", "LGLGGL", "LGGLGL"];
+
+const eanCheckDigit = (digits: string): number => {
+  const sum = [...digits].reduce((total, digit, i) => total + Number(digit) * (i % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+const toEanModules = (payload: string): boolean[][] => {
+  const digits = [...payload].map(Number);
+  const right = (digit: number) => [...EAN_L[digit]].map((bit) => (bit === "1" ? "0" : "1")).join("");
+  const left = digits
+    .slice(1, 7)
+    .map((digit, i) => (EAN_PARITY[digits[0]][i] === "L" ? EAN_L[digit] : [...right(digit)].reverse().join("")));
+  const bars = ["101", ...left, "01010", ...digits.slice(7).map(right), "101"].join("");
+  const row = [...bars].map((bit) => bit === "1");
+  return Array.from({ length: BAR_HEIGHT }, () => row);
+};
+
+// Payloads are unique per code and seed; barcodes use the in-store (2xx) number range
+const toPayload = (format: SceneFormat, seed: number, index: number): string => {
+  if (format === "QR_CODE") return `BENCH-${seed}-${index + 1}`;
+  const digits = `2${String(seed % 1e6).padStart(6, "0")}${String(index + 1).padStart(5, "0")}`;
+  return `${digits}${eanCheckDigit(digits)}`;
+};
+
+type Matrix3 = [number, number, number, number, number, number, number, number, number];
+
+// Projective map from the unit square onto a quadrilateral (Heckbert's closed form)
+const squareToQuad = (q: { x: number; y: number }[]): Matrix3 => {
+  const [p0, p1, p2, p3] = q;
+  const sx = p0.x - p1.x + p2.x - p3.x;
+  const sy = p0.y - p1.y + p2.y - p3.y;
+  if (Math.abs(sx) < 1e-9 && Math.abs(sy) < 1e-9) {
+    return [p1.x - p0.x, p2.x - p1.x, p0.x, p1.y - p0.y, p2.y - p1.y, p0.y, 0, 0, 1];
+  }
+  const dx1 = p1.x - p2.x;
+  const dx2 = p3.x - p2.x;
+  const dy1 = p1.y - p2.y;
+  const dy2 = p3.y - p2.y;
+  const det = dx1 * dy2 - dx2 * dy1;
+  const g = (sx * dy2 - dx2 * sy) / det;
+  const h = (dx1 * sy - sx * dy1) / det;
+  return [
+    p1.x - p0.x + g * p1.x, p3.x - p0.x + h * p3.x, p0.x,
+    p1.y - p0.y + g * p1.y, p3.y - p0.y + h * p3.y, p0.y,
+    g, h, 1,
+  ];
+};
+
+const invert3 = (m: Matrix3): Matrix3 => {
+  const [a, b, c, d, e, f, g, h, i] = m;
+  const A = e * i - f * h;
+  const B = -(d * i - f * g);
+  const C = d * h - e * g;
+  const det = a * A + b * B + c * C;
+  return [
+    A / det, -(b * i - c * h) / det, (b * f - c * e) / det,
+    B / det, (a * i - c * g) / det, -(a * f - c * d) / det,
+    C / det, -(a * h - b * g) / det, (a * e - b * d) / det,
+  ];
+};
+
+// Separable box blur on a single-channel image, in place
+const boxBlur = (gray: Float32Array, width: number, height: number, radius: number) => {
+  const r = Math.round(radius);
+  if (r < 1) return;
+  const line = new Float32Array(Math.max(width, height));
+  const pass = (length: number, lines: number, at: (lineIndex: number, i: number) => number) => {
+    for (let l = 0; l < lines; l++) {
+      let sum = 0;
+      for (let i = -r; i <= r; i++) sum += gray[at(l, Math.min(length - 1, Math.max(0, i)))];
+      for (let i = 0; i < length; i++) {
+        line[i] = sum / (2 * r + 1);
+        sum += gray[at(l, Math.min(length - 1, i + r + 1))] - gray[at(l, Math.max(0, i - r))];
+      }
+      for (let i = 0; i < length; i++) gray[at(l, i)] = line[i];
+    }
+  };
+  pass(width, height, (row, x) => row * width + x);
+  pass(height, width, (col, y) => y * width + col);
+};
+
+export const renderScene = (params: SceneParams, seed: number): SyntheticFrame => {
+  const random = createRandom(seed);
+  const payloads = Array.from({ length: params.count }, (_, i) => toPayload(params.format, seed, i));
+  const codes = payloads.map(params.format === "QR_CODE" ? toQrModules : toEanModules);
+  const quietZone = QUIET_ZONE[params.format];
+
+  const modules = Math.max(...codes.map((matrix) => Math.max(matrix.length, matrix[0].length))) + quietZone * 2;
+  const codeSide = modules * params.moduleSize;
+  const cell = Math.ceil(codeSide * CELL_SPACING);
+  const columns = Math.ceil(Math.sqrt(params.count));
+  const rows = Math.ceil(params.count / columns);
+  const width = columns * cell;
+  const height = rows * cell;
+
+  // 1 = light, 0 = dark
+  const gray = new Float32Array(width * height).fill(1);
+
+  codes.forEach((matrix, index) => {
+    const rowCount = matrix.length + quietZone * 2;
+    const columnCount = matrix[0].length + quietZone * 2;
+    const cx = (index % columns) * cell + cell / 2;
+    const cy = Math.floor(index / columns) * cell + cell / 2;
+    const angle = ((index % 2 === 0 ? 1 : -1) * params.rotation * Math.PI) / 180;
+
+    // Square corners (TL, TR, BR, BL) with the top edge pulled in for perspective
+    const halfWidth = (columnCount * params.moduleSize) / 2;
+    const halfHeight = (rowCount * params.moduleSize) / 2;
+    const top = halfWidth * (1 - params.skew);
+    const corners = [
+      { x: -top, y: -halfHeight },
+      { x: top, y: -halfHeight },
+      { x: halfWidth, y: halfHeight },
+      { x: -halfWidth, y: halfHeight },
+    ].map(({ x, y }) => ({
+      x: cx + x * Math.cos(angle) - y * Math.sin(angle),
+      y: cy + x * Math.sin(angle) + y * Math.cos(angle),
+    }));
+    const [a, b, c, d, e, f, g, h, i] = invert3(squareToQuad(corners));
+
+    const left = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.x))));
+    const right = Math.min(width - 1, Math.ceil(Math.max(...corners.map((p) => p.x))));
+    const upper = Math.max(0, Math.floor(Math.min(...corners.map((p) => p.y))));
+    const lower = Math.min(height - 1, Math.ceil(Math.max(...corners.map((p) => p.y))));
+
+    for (let y = upper; y <= lower; y++) {
+      for (let x = left; x <= right; x++) {
+        // Sample at the pixel centre
+        const px = x + 0.5;
+        const py = y + 0.5;
+        const w = g * px + h * py + i;
+        const u = (a * px + b * py + c) / w;
+        const v = (d * px + e * py + f) / w;
+        if (u < 0 || u >= 1 || v < 0 || v >= 1) continue;
+        const col = Math.floor(u * columnCount) - quietZone;
+        const row = Math.floor(v * rowCount) - quietZone;
+        const dark = row >= 0 && col >= 0 && row < matrix.length && col < matrix[0].length && matrix[row][col];
+        gray[y * width + x] = dark ? 0 : 1;
+      }
+    }
+  });
+
+  boxBlur(gray, width, height, params.blur);
+
+  const data = new Uint8ClampedArray(width * height * 4);
+  const low = 127.5 * (1 - params.contrast);
+  const range = 255 * params.contrast;
+  for (let p = 0; p < gray.length; p++) {
+    const level = params.invert ? 1 - gray[p] : gray[p];
+    // Sum of two uniforms: a cheap bell-shaped noise
+    const noise = params.noise > 0 ? (random() + random() - 1) * params.noise * 255 : 0;
+    const value = low + level * range + noise;
+    data[p * 4] = value;
+    data[p * 4 + 1] = value;
+    data[p * 4 + 2] = value;
+    data[p * 4 + 3] = 255;
+  }
+
+  return { width, height, data, payloads };
+};
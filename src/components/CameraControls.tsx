@@ -0,0 +1,91 @@
+import type { CameraCapabilities, CameraPreferences } from "../types";
+
+interface CameraControlsProps {
+  cameras: MediaDeviceInfo[];
+  preferences: CameraPreferences;
+  capabilities: CameraCapabilities | null; // null while the camera is off
+  onSelectCamera: (deviceId: string | undefined) => void;
+  onToggleFacing: () => void;
+  onToggleTorch: () => void;
+  onZoom: (zoom: number) => void;
+}
+
+// Lens picker and front/back switch are always available; torch and zoom only
+// appear once the running track says it supports them
+const CameraControls: React.FC<CameraControlsProps> = ({
+  cameras,
+  preferences,
+  capabilities,
+  onSelectCamera,
+  onToggleFacing,
+  onToggleTorch,
+  onZoom,
+}) => {
+  const zoom = capabilities?.zoom;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex gap-2">
+        <select
+          value={preferences.deviceId ?? ""}
+          onChange={(e) => onSelectCamera(e.target.value || undefined)}
+          className="flex-1 min-w-0 text-xs px-2 py-1 border border-gray-300 rounded bg-white"
+          title="Camera lens"
+        >
+          <option value="">
+            {preferences.facing === "environment" ? "Back camera (auto)" : "Front camera (auto)"}
+          </option>
+          {cameras.map((camera, index) => (
+            <option key={camera.deviceId || index} value={camera.deviceId}>
+              {camera.label || `Camera ${index + 1}`}
+            </option>
+          ))}
+        </select>
+        <button
+          onClick={onToggleFacing}
+          className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
+          title="Switch between front and back camera"
+        >
+          🔄 {preferences.facing === "environment" ? "Back" : "Front"}
+        </button>
+        {capabilities?.torch && (
+          <button
+            onClick={onToggleTorch}
+            className={`text-xs px-2 py-1 rounded transition-colors ${
+              preferences.torch
+                ? "bg-yellow-400 text-gray-900"
+                : "bg-gray-200 hover:bg-gray-300"
+            }`}
+            title="Torch"
+          >
+            🔦
+          </button>
+        )}
+      </div>
+
+      {zoom && (
+        <label className="flex items-center gap-2 text-xs text-gray-700">
+          <span>Zoom</span>
+          <input
+            type="range"
+            min={zoom.min}
+            max={zoom.max}
+            step={zoom.step}
+            value={preferences.zoom ?? zoom.min}
+            onChange={(e) => onZoom(Number(e.target.value))}
+            className="flex-1"
+          />
+          <span className="font-mono w-10 text-right">
+            {(preferences.zoom ?? zoom.min).toFixed(1)}×
+          </span>
+        </label>
+      )}
+
+      {capabilities?.focus && (
+        <p className="text-xs text-gray-500">Tap the preview to focus</p>
+      )}
+    </div>
+  );
+};
+
+export default CameraControls;
@@ -0,0 +1,68 @@
+import type { DetectionState, OverlayDetection } from "../types";
+
+interface DetectionOverlayProps {
+  detections: OverlayDetection[];
+  frameWidth: number;
+  frameHeight: number;
+}
+
+const STATE_COLORS: Record<DetectionState, string> = {
+  new: "#22c55e", // green - accepted this frame
+  scanned: "#3b82f6", // blue - already in this session
+  rejected: "#ef4444", // red - decoded but not accepted
+};
+
+// Outlines detections on top of the <video>.
+// The SVG uses the video frame as its coordinate space and "slice" scaling,
+// which is exactly what object-cover does to the video underneath.
+const DetectionOverlay: React.FC<DetectionOverlayProps> = ({
+  detections,
+  frameWidth,
+  frameHeight,
+}) => {
+  if (!frameWidth || !frameHeight) return null;
+
+  const strokeWidth = Math.max(frameWidth, frameHeight) / 250;
+
+  return (
+    <svg
+      className="absolute inset-0 w-full h-full pointer-events-none"
+      viewBox={`0 0 ${frameWidth} ${frameHeight}`}
+      preserveAspectRatio="xMidYMid slice"
+    >
+      {detections.map((detection) => {
+        const { boundingBox, state } = detection;
+        const color = STATE_COLORS[state];
+        const corners = boundingBox.corners;
+
+        return (
+          <g key={detection.text}>
+            {corners && corners.length >= 3 ? (
+              <polygon
+                points={corners.map((p) => `${p.x},${p.y}`).join(" ")}
+                fill={color}
+                fillOpacity={0.15}
+                stroke={color}
+                strokeWidth={strokeWidth}
+                strokeLinejoin="round"
+              />
+            ) : (
+              <rect
+                x={boundingBox.x}
+                y={boundingBox.y}
+                width={boundingBox.width}
+                height={boundingBox.height}
+                fill={color}
+                fillOpacity={0.15}
+                stroke={color}
+                strokeWidth={strokeWidth}
+              />
+            )}
+          </g>
+        );
+      })}
+    </svg>
+  );
+};
+
+export default DetectionOverlay;
@@ -0,0 +1,243 @@
+import { useEffect, useMemo, useRef, useState } from 'react';
+import TrueMultiCodeScanner from './TrueMultiCodeScanner';
+import { EMBED_VERSION, isEnvelope, wrapMessage } from '../embed/protocol';
+import type {
+  EmbedErrorCode,
+  EmbedOptions,
+  EmbedParams,
+  EmbedResult,
+  HostMessage,
+  ScannerMessage,
+} from '../embed/protocol';
+import { SUPPORTED_FORMATS } from '../utils/formats';
+import { DEFAULT_SCANNER_CONFIG } from '../utils/scannerConfig';
+import type { ScanResult } from '../types';
+
+// Other origins allowed to embed the scanner; "*" lets any page do it. Unset, only the
+// app's own pages can (the embed demo is one), so a build doesn't start out open to all.
+const ALLOWED_ORIGINS = (import.meta.env.VITE_EMBED_ALLOWED_ORIGINS ?? '')
+  .split(',')
+  .map((origin) => origin.trim())
+  .filter(Boolean);
+
+const isAllowedHost = (origin: string) =>
+  origin === window.location.origin || ALLOWED_ORIGINS.includes('*') || ALLOWED_ORIGINS.includes(origin);
+
+const SCAN_MODES = ['continuous', 'single-shot', 'burst'];
+
+type EmbedStatus = 'waiting' | 'scanning' | 'done' | 'cancelled' | 'error';
+
+interface EmbeddedScannerProps {
+  params: EmbedParams;
+}
+
+const toEmbedResult = (result: ScanResult): EmbedResult => ({
+  text: result.text,
+  format: result.format,
+  timestamp: result.timestamp.toISOString(),
+  confidence: result.confidence,
+  gs1: result.gs1,
+});
+
+// Options come from another site, so check them before they reach the scanner
+const validateOptions = (options: EmbedOptions): string | null => {
+  if (typeof options !== 'object' || options === null) return 'Options must be an object.';
+  if (
+    options.formats !== undefined &&
+    (!Array.isArray(options.formats) ||
+      options.formats.length === 0 ||
+      options.formats.some((format) => !SUPPORTED_FORMATS.includes(format)))
+  ) {
+    return `formats must be a non-empty list of: ${SUPPORTED_FORMATS.join(', ')}.`;
+  }
+  if (options.maxCodes !== undefined && (!Number.isInteger(options.maxCodes) || options.maxCodes < 1)) {
+    return 'maxCodes must be a positive whole number.';
+  }
+  if (
+    options.expected !== undefined &&
+    (!Array.isArray(options.expected) || options.expected.some((code) => typeof code !== 'string'))
+  ) {
+    return 'expected must be a list of strings.';
+  }
+  if (options.scanMode !== undefined && !SCAN_MODES.includes(options.scanMode)) {
+    return `scanMode must be one of: ${SCAN_MODES.join(', ')}.`;
+  }
+  return null;
+};
+
+// The scanner as another web app sees it: opened in an iframe or popup, configured and
+// answered over postMessage (src/embed/protocol.ts), with nothing of the full app around it
+const EmbeddedScanner: React.FC<EmbeddedScannerProps> = ({ params }) => {
+  const { mode, hostOrigin, channel } = params;
+  const [status, setStatus] = useState<EmbedStatus>('waiting');
+  const [options, setOptions] = useState<EmbedOptions | null>(null);
+  const [problem, setProblem] = useState<string | null>(null);
+  const [sentCount, setSentCount] = useState(0);
+  // Every code sent to the host, in the order read, and whether the scan has ended
+  const sentRef = useRef<Map<string, EmbedResult>>(new Map());
+  const endedRef = useRef(false);
+
+  const host = useMemo(
+    () => (mode === 'iframe' ? (window.parent !== window ? window.parent : null) : window.opener as Window | null),
+    [mode]
+  );
+
+  // Refused before a single message is exchanged
+  const refusal = !hostOrigin || !channel
+    ? 'This page was opened with an incomplete embed link.'
+    : !host
+      ? `Open the scanner from the app that uses it (expected to run in ${mode === 'iframe' ? 'an iframe' : 'a popup'}).`
+      : !isAllowedHost(hostOrigin)
+        ? `${hostOrigin} is not allowed to embed this scanner.`
+        : null;
+
+  const postRef = useRef((message: ScannerMessage) => {
+    host?.postMessage(wrapMessage(channel, message), hostOrigin);
+  });
+
+  const end = (next: EmbedStatus, message: ScannerMessage) => {
+    if (endedRef.current) return;
+    endedRef.current = true;
+    postRef.current(message);
+    setStatus(next);
+  };
+
+  const fail = (code: EmbedErrorCode, message: string) => {
+    setProblem(message);
+    end('error', { type: 'error', code, message });
+  };
+
+  const endRef = useRef(end);
+  const failRef = useRef(fail);
+  useEffect(() => {
+    endRef.current = end;
+    failRef.current = fail;
+  });
+
+  useEffect(() => {
+    if (refusal) {
+      if (ALLOWED_ORIGINS.length === 0 && hostOrigin && !isAllowedHost(hostOrigin)) {
+        console.warn(`Embedding refused: set VITE_EMBED_ALLOWED_ORIGINS to let ${hostOrigin} use the scanner.`);
+      }
+      // Tell the host why, if it is a host we can address at all
+      if (host && hostOrigin && channel) {
+        postRef.current({ type: 'error', code: 'origin', message: refusal });
+      }
+      return;
+    }
+
+    const onMessage = (event: MessageEvent) => {
+      if (event.origin !== hostOrigin || event.source !== host) return;
+      if (!isEnvelope(event.data, channel)) return;
+      const message = event.data as unknown as HostMessage;
+
+      if (message.type === 'configure') {
+        if (endedRef.current) return;
+        const invalid = validateOptions(message.options);
+        if (invalid) {
+          failRef.current('options', invalid);
+          return;
+        }
+        setOptions(message.options);
+        setStatus('scanning');
+      } else if (message.type === 'cancel') {
+        endRef.current('cancelled', { type: 'cancelled' });
+      }
+    };
+
+    // A popup closed by the user never gets to press Cancel
+    const onPageHide = () => endRef.current('cancelled', { type: 'cancelled' });
+
+    window.addEventListener('message', onMessage);
+    window.addEventListener('pagehide', onPageHide);
+    postRef.current({ type: 'ready', version: EMBED_VERSION });
+    return () => {
+      window.removeEventListener('message', onMessage);
+      window.removeEventListener('pagehide', onPageHide);
+    };
+  }, [refusal, host, hostOrigin, channel]);
+
+  // Send each code once, the first time it is read
+  const handleResults = (results: ScanResult[]) => {
+    if (endedRef.current) return;
+    const fresh = results
+      .filter((result) => !sentRef.current.has(result.text))
+      .map(toEmbedResult);
+    if (fresh.length === 0) return;
+    fresh.forEach((result) => sentRef.current.set(result.text, result));
+    setSentCount(sentRef.current.size);
+    postRef.current({ type: 'result', results: fresh });
+  };
+
+  const handleSessionEnd = () => {
+    end('done', { type: 'done', results: Array.from(sentRef.current.values()) });
+  };
+
+  const config = useMemo(
+    () => ({ ...DEFAULT_SCANNER_CONFIG, scanMode: options?.scanMode ?? DEFAULT_SCANNER_CONFIG.scanMode }),
+    [options]
+  );
+  const expected = useMemo(() => options?.expected?.map((code) => ({ code })), [options]);
+
+  const message =
+    refusal ??
+    (status === 'waiting'
+      ? 'Waiting for the app that opened the scanner...'
+      : status === 'done'
+        ? `Done: ${sentCount} code${sentCount === 1 ? '' : 's'} sent. You can close this ${mode === 'popup' ? 'window' : 'scanner'}.`
+        : status === 'cancelled'
+          ? 'Scan cancelled.'
+          : status === 'error'
+            ? problem
+            : null);
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-blue-50 via-white to-purple-50 py-4">
+      {options?.title && (
+        <h1 className="text-center text-lg font-semibold text-gray-900 mb-2">{options.title}</h1>
+      )}
+
+      {!refusal && status === 'scanning' && options && (
+        <>
+          <TrueMultiCodeScanner
+            onResults={handleResults}
+            onSessionEnd={handleSessionEnd}
+            config={config}
+            maxCodes={options.maxCodes}
+            defaultFormats={options.formats}
+            stopWhenMatched={expected}
+            onError={(cameraError) => fail('camera', cameraError)}
+            autoStart
+          />
+          <div className="max-w-md mx-auto px-4 flex gap-2">
+            <span className="flex-1 text-sm text-gray-600 self-center">
+              {sentCount} code{sentCount === 1 ? '' : 's'} sent to {hostOrigin}
+            </span>
+            <button
+              onClick={() => end('cancelled', { type: 'cancelled' })}
+              className="text-sm px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors"
+            >
+              Cancel
+            </button>
+          </div>
+        </>
+      )}
+
+      {message && (
+        <div className="max-w-md mx-auto p-4">
+          <div
+            className={`px-4 py-3 rounded border ${
+              refusal || status === 'error'
+                ? 'bg-red-100 border-red-400 text-red-700'
+                : 'bg-blue-100 border-blue-400 text-blue-700'
+            }`}
+          >
+            {message}
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default EmbeddedScanner;
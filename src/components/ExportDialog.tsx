@@ -0,0 +1,188 @@
+import { useState, useEffect, useMemo } from 'react';
+import { downloadFile, toFileName } from '../utils/download';
+import {
+  DEFAULT_EXPORT_COLUMNS,
+  EXPORT_COLUMNS,
+  EXPORT_FORMATS,
+  exportResults,
+} from '../utils/exporter';
+import type { ExportFormat } from '../utils/exporter';
+import { getSessionName } from '../utils/sessionStore';
+import type { ScanResult, ScanSession } from '../types';
+
+interface ExportDialogProps {
+  results: ScanResult[]; // Everything on screen, not just the rows displayed
+  selected?: ScanResult[]; // Rows picked in the list, offered as their own scope
+  currentSession: ScanSession | null;
+  sessions: ScanSession[];
+  onClose: () => void;
+}
+
+interface ExportPreferences {
+  format: ExportFormat;
+  columns: string[];
+}
+
+const EXPORT_PREFERENCES_KEY = 'multiQRExportPreferences';
+
+const loadPreferences = (): ExportPreferences => {
+  const fallback: ExportPreferences = { format: 'csv', columns: DEFAULT_EXPORT_COLUMNS };
+  try {
+    const stored = localStorage.getItem(EXPORT_PREFERENCES_KEY);
+    return stored ? { ...fallback, ...(JSON.parse(stored) as Partial<ExportPreferences>) } : fallback;
+  } catch {
+    return fallback;
+  }
+};
+
+// 'current' = the results on screen, 'selected' = the rows picked in the list;
+// otherwise the id of a saved session
+type ExportScope = 'current' | 'selected' | string;
+
+const ExportDialog: React.FC<ExportDialogProps> = ({ results, selected = [], currentSession, sessions, onClose }) => {
+  const [preferences, setPreferences] = useState<ExportPreferences>(loadPreferences);
+  const [scope, setScope] = useState<ExportScope>(selected.length > 0 ? 'selected' : 'current');
+
+  useEffect(() => {
+    localStorage.setItem(EXPORT_PREFERENCES_KEY, JSON.stringify(preferences));
+  }, [preferences]);
+
+  // The on-screen session may be newer than its saved copy, so prefer the live results.
+  // A selection only carries session metadata when it all comes from the session on screen.
+  const selectionIsCurrent = useMemo(() => {
+    const onScreen = new Set(results.map(r => r.id));
+    return selected.every(r => onScreen.has(r.id));
+  }, [results, selected]);
+  const exportSession =
+    scope === 'current' || (scope === 'selected' && selectionIsCurrent)
+      ? currentSession
+      : sessions.find(s => s.id === scope) ?? null;
+  const exportRows =
+    scope === 'current' ? results : scope === 'selected' ? selected : exportSession?.results ?? [];
+
+  const toggleColumn = (key: string) => {
+    setPreferences(prev => ({
+      ...prev,
+      // Keep the canonical column order whatever order they were ticked in
+      columns: prev.columns.includes(key)
+        ? prev.columns.filter(column => column !== key)
+        : EXPORT_COLUMNS.map(column => column.key).filter(column => column === key || prev.columns.includes(column)),
+    }));
+  };
+
+  const handleExport = () => {
+    const format = EXPORT_FORMATS.find(f => f.value === preferences.format) ?? EXPORT_FORMATS[0];
+    const content = exportResults(exportRows, {
+      format: format.value,
+      columns: preferences.columns,
+      session: exportSession,
+    });
+    const baseName = exportSession ? toFileName(getSessionName(exportSession), 'scan-results') : 'scan-results';
+    const stamp = new Date().toISOString().replace(/[:.]/g, '-');
+    downloadFile(content, `${baseName}-${stamp}.${format.extension}`, format.mimeType);
+    onClose();
+  };
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">💾 Export Results</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          <div>
+            <label className="block font-medium text-gray-700 mb-2">What to export</label>
+            <select
+              value={scope}
+              onChange={e => setScope(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 rounded bg-white"
+            >
+              {selected.length > 0 && <option value="selected">Selected results ({selected.length})</option>}
+              <option value="current">Results on screen ({results.length})</option>
+              {sessions
+                .filter(session => session.id !== currentSession?.id)
+                .map(session => (
+                  <option key={session.id} value={session.id}>
+                    Session: {getSessionName(session)} ({session.results.length})
+                  </option>
+                ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block font-medium text-gray-700 mb-2">Format</label>
+            <div className="grid grid-cols-4 gap-2">
+              {EXPORT_FORMATS.map(format => (
+                <button
+                  key={format.value}
+                  onClick={() => setPreferences(prev => ({ ...prev, format: format.value }))}
+                  className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                    preferences.format === format.value
+                      ? 'bg-green-600 text-white'
+                      : 'bg-green-100 text-green-700 hover:bg-green-200'
+                  }`}
+                >
+                  {format.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <div className="flex items-center justify-between mb-2">
+              <label className="font-medium text-gray-700">Columns</label>
+              <div className="flex gap-2 text-xs">
+                <button
+                  onClick={() => setPreferences(prev => ({ ...prev, columns: EXPORT_COLUMNS.map(c => c.key) }))}
+                  className="text-blue-600 hover:underline"
+                >
+                  All
+                </button>
+                <button
+                  onClick={() => setPreferences(prev => ({ ...prev, columns: DEFAULT_EXPORT_COLUMNS }))}
+                  className="text-blue-600 hover:underline"
+                >
+                  Default
+                </button>
+              </div>
+            </div>
+            <div className="grid grid-cols-2 gap-1">
+              {EXPORT_COLUMNS.map(column => (
+                <label key={column.key} className="flex items-center gap-2 text-xs text-gray-700">
+                  <input
+                    type="checkbox"
+                    checked={preferences.columns.includes(column.key)}
+                    onChange={() => toggleColumn(column.key)}
+                  />
+                  {column.label}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={preferences.columns.length === 0 || exportRows.length === 0}
+            className="px-4 py-2 text-sm bg-green-600 hover:bg-green-700 text-white rounded-lg transition-colors disabled:opacity-50"
+          >
+            Export {exportRows.length} rows
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ExportDialog;
@@ -0,0 +1,63 @@
+import { describeGs1Value } from '../utils/gs1Parser';
+import type { Gs1Data } from '../types';
+
+interface Gs1FieldsProps {
+  gs1: Gs1Data;
+}
+
+// AIs that already have their own column
+const COLUMN_AIS = new Set(['01', '10', '17', '21', '30', '37']);
+
+// The inventory fields of a GS1 code as labelled columns, with the rest of its AIs below
+const Gs1Fields: React.FC<Gs1FieldsProps> = ({ gs1 }) => {
+  const columns: { label: string; value: React.ReactNode }[] = [];
+
+  if (gs1.gtin) {
+    columns.push({
+      label: 'GTIN',
+      value: (
+        <span className={gs1.gtinValid ? 'text-gray-900' : 'text-red-600'}>
+          {gs1.gtin} {gs1.gtinValid ? '✓' : '✗ bad check digit'}
+        </span>
+      ),
+    });
+  }
+  if (gs1.batch) columns.push({ label: 'Batch', value: gs1.batch });
+  if (gs1.expiry) columns.push({ label: 'Expiry', value: gs1.expiry });
+  if (gs1.serial) columns.push({ label: 'Serial', value: gs1.serial });
+  if (gs1.count !== undefined) columns.push({ label: 'Count', value: gs1.count });
+  if (gs1.netWeightKg !== undefined) {
+    columns.push({ label: 'Net weight', value: `${Number(gs1.netWeightKg.toFixed(3))} kg` });
+  }
+
+  const otherElements = gs1.elements.filter(
+    element => !COLUMN_AIS.has(element.ai) && !/^3[12]0\d$/.test(element.ai)
+  );
+
+  return (
+    <div className="mt-2 p-2 bg-white border border-gray-200 rounded text-xs">
+      <div className="font-semibold text-gray-700 mb-1">
+        🏷️ GS1 {gs1.digitalLink ? 'Digital Link' : 'data'}
+      </div>
+      <div className="grid grid-cols-2 sm:grid-cols-3 gap-x-3 gap-y-1">
+        {columns.map(column => (
+          <div key={column.label} className="min-w-0">
+            <div className="text-gray-500">{column.label}</div>
+            <div className="font-mono break-all">{column.value}</div>
+          </div>
+        ))}
+      </div>
+      {otherElements.length > 0 && (
+        <div className="mt-1 text-gray-600">
+          {otherElements.map(element => (
+            <div key={element.ai}>
+              ({element.ai}) {element.label}: <span className="font-mono">{describeGs1Value(element)}</span>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default Gs1Fields;
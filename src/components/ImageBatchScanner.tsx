@@ -0,0 +1,205 @@
+import { useState, useRef, useEffect, useCallback } from 'react';
+import { DecoderClient } from '../utils/decoderClient';
+import { scanImageFile } from '../utils/imageScanner';
+import { ProcessingStatsTracker } from '../utils/processingStats';
+import { getDecodeOptions } from '../utils/scannerConfig';
+import type { ProcessingStats, ScanResult, ScannerConfig } from '../types';
+
+interface ImageBatchScannerProps {
+  config: ScannerConfig;
+  onResults: (results: ScanResult[]) => void;
+  onSessionStart?: (config: ScannerConfig, name: string) => void;
+  onSessionEnd?: (stats: ProcessingStats) => void;
+  disabled?: boolean; // e.g. while the camera session is running
+}
+
+interface FileJob {
+  id: string;
+  name: string;
+  status: 'queued' | 'decoding' | 'done' | 'error';
+  progress: number; // 0..1
+  codesFound: number;
+  error?: string;
+}
+
+const ImageBatchScanner: React.FC<ImageBatchScannerProps> = ({
+  config,
+  onResults,
+  onSessionStart,
+  onSessionEnd,
+  disabled = false,
+}) => {
+  const [jobs, setJobs] = useState<FileJob[]>([]);
+  const [isProcessing, setIsProcessing] = useState(false);
+  const [isDragging, setIsDragging] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  const decoderRef = useRef<DecoderClient | null>(null);
+
+  const updateJob = (id: string, changes: Partial<FileJob>) => {
+    setJobs(prev => prev.map(job => (job.id === id ? { ...job, ...changes } : job)));
+  };
+
+  const scanFiles = useCallback(async (files: File[]) => {
+    const images = files.filter(file => file.type.startsWith('image/'));
+    if (images.length === 0 || isProcessing || disabled) return;
+
+    // One file is an 'image' scan, several make a 'batch'
+    const source: ScanResult['source'] = images.length > 1 ? 'batch' : 'image';
+    const queued: FileJob[] = images.map((file, index) => ({
+      id: `${Date.now()}-${index}`,
+      name: file.name || `pasted-image-${index + 1}.png`,
+      status: 'queued',
+      progress: 0,
+      codesFound: 0,
+    }));
+
+    setJobs(queued);
+    setIsProcessing(true);
+    onSessionStart?.(
+      config,
+      images.length > 1 ? `Batch: ${images.length} images` : `Image: ${queued[0].name}`
+    );
+
+    if (!decoderRef.current) {
+      decoderRef.current = new DecoderClient();
+    }
+    const tracker = new ProcessingStatsTracker();
+    // Same formats and per-frame limit as the camera
+    const options = getDecodeOptions(config);
+
+    for (let i = 0; i < images.length; i++) {
+      const job = queued[i];
+      updateJob(job.id, { status: 'decoding' });
+
+      try {
+        const results = await scanImageFile(images[i], job.name, source, decoderRef.current, options, {
+          onProgress: (done, total) => updateJob(job.id, { progress: done / total }),
+          onFrame: frame => tracker.recordFrame(frame, 0),
+        });
+        const accepted = results.filter(
+          result => (result.confidence ?? 1) >= config.confidenceThreshold
+        );
+        tracker.recordCodes(accepted.length);
+
+        updateJob(job.id, { status: 'done', progress: 1, codesFound: accepted.length });
+        if (accepted.length > 0) {
+          onResults(accepted);
+        }
+      } catch (error) {
+        console.error(`Failed to scan ${job.name}:`, error);
+        updateJob(job.id, {
+          status: 'error',
+          error: error instanceof Error ? error.message : 'Could not read this image',
+        });
+      }
+    }
+
+    setIsProcessing(false);
+    onSessionEnd?.(tracker.snapshot(true));
+  }, [config, disabled, isProcessing, onResults, onSessionStart, onSessionEnd]);
+
+  // Paste images from the clipboard anywhere on the page
+  useEffect(() => {
+    const handlePaste = (e: ClipboardEvent) => {
+      const files = Array.from(e.clipboardData?.files ?? []);
+      if (files.some(file => file.type.startsWith('image/'))) {
+        e.preventDefault();
+        scanFiles(files);
+      }
+    };
+    window.addEventListener('paste', handlePaste);
+    return () => window.removeEventListener('paste', handlePaste);
+  }, [scanFiles]);
+
+  useEffect(() => {
+    return () => {
+      decoderRef.current?.terminate();
+      decoderRef.current = null;
+    };
+  }, []);
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault();
+    setIsDragging(false);
+    scanFiles(Array.from(e.dataTransfer.files));
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          🖼️ Scan Images
+        </h3>
+        <p className="text-sm text-gray-600">
+          Decode codes from photos: drop files, pick them, or paste from the clipboard
+        </p>
+      </div>
+
+      <div
+        onDragOver={e => {
+          e.preventDefault();
+          setIsDragging(true);
+        }}
+        onDragLeave={() => setIsDragging(false)}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+        className={`border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          isDragging ? 'border-blue-500 bg-blue-50' : 'border-gray-300 hover:bg-gray-50'
+        } ${isProcessing || disabled ? 'opacity-50 pointer-events-none' : ''}`}
+      >
+        <div className="text-3xl mb-2">📥</div>
+        <p className="text-sm text-gray-700 font-medium">
+          {isProcessing ? 'Scanning…' : 'Drop images here or click to choose'}
+        </p>
+        <p className="text-xs text-gray-500 mt-1">Ctrl/⌘+V pastes a screenshot</p>
+        <input
+          ref={inputRef}
+          type="file"
+          accept="image/*"
+          multiple
+          className="hidden"
+          onChange={e => {
+            scanFiles(Array.from(e.target.files ?? []));
+            e.target.value = '';
+          }}
+        />
+      </div>
+
+      {jobs.length > 0 && (
+        <ul className="mt-4 space-y-2">
+          {jobs.map(job => (
+            <li key={job.id} className="text-xs">
+              <div className="flex justify-between gap-2">
+                <span className="truncate text-gray-800">{job.name}</span>
+                <span
+                  className={
+                    job.status === 'error'
+                      ? 'text-red-600'
+                      : job.status === 'done'
+                        ? 'text-green-600'
+                        : 'text-gray-500'
+                  }
+                >
+                  {job.status === 'done' && `${job.codesFound} codes`}
+                  {job.status === 'error' && (job.error ?? 'Failed')}
+                  {job.status === 'decoding' && `${Math.round(job.progress * 100)}%`}
+                  {job.status === 'queued' && 'Queued'}
+                </span>
+              </div>
+              <div className="w-full bg-gray-200 rounded-full h-1 mt-1">
+                <div
+                  className={`h-1 rounded-full transition-all duration-300 ${
+                    job.status === 'error' ? 'bg-red-500' : 'bg-blue-500'
+                  }`}
+                  style={{ width: `${job.progress * 100}%` }}
+                />
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ImageBatchScanner;
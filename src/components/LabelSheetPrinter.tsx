@@ -0,0 +1,293 @@
+import { useState, useMemo, useRef } from 'react';
+import { downloadFile, toFileName } from '../utils/download';
+import {
+  LABEL_TEMPLATES,
+  MAX_LABELS,
+  buildLabelSheet,
+  expandNumberRange,
+  labelsPerSheet,
+  parseLabelCsv,
+  validateTemplate,
+} from '../utils/labelSheet';
+import type { LabelItem, LabelTemplate } from '../utils/labelSheet';
+import { DEFAULT_QR_STYLE, ERROR_CORRECTION_LEVELS } from '../utils/qrGenerator';
+import type { ErrorCorrectionLevel } from '../utils/qrGenerator';
+
+type LabelSource = 'csv' | 'range';
+
+// Template fields the user can adjust, all in millimetres except the counts
+const TEMPLATE_FIELDS: { key: keyof LabelTemplate; label: string; step: number }[] = [
+  { key: 'columns', label: 'Columns', step: 1 },
+  { key: 'rows', label: 'Rows', step: 1 },
+  { key: 'labelWidth', label: 'Label width', step: 0.1 },
+  { key: 'labelHeight', label: 'Label height', step: 0.1 },
+  { key: 'marginTop', label: 'Top margin', step: 0.1 },
+  { key: 'marginLeft', label: 'Left margin', step: 0.1 },
+  { key: 'gapX', label: 'Column gap', step: 0.1 },
+  { key: 'gapY', label: 'Row gap', step: 0.1 },
+  { key: 'pageWidth', label: 'Page width', step: 0.1 },
+  { key: 'pageHeight', label: 'Page height', step: 0.1 },
+];
+
+// Builds printable label sheets from a CSV of payloads or a numbered range
+const LabelSheetPrinter: React.FC = () => {
+  const [source, setSource] = useState<LabelSource>('csv');
+  const [csvText, setCsvText] = useState('');
+  const [rangeSpec, setRangeSpec] = useState('BIN-0001..BIN-0100');
+  const [template, setTemplate] = useState<LabelTemplate>(LABEL_TEMPLATES[0]);
+  const [showCaptions, setShowCaptions] = useState(true);
+  const [skipLabels, setSkipLabels] = useState(0);
+  const [errorCorrectionLevel, setErrorCorrectionLevel] = useState<ErrorCorrectionLevel>('M');
+  const [previewHtml, setPreviewHtml] = useState<string | null>(null);
+  const [isBuilding, setIsBuilding] = useState(false);
+  const [buildError, setBuildError] = useState<string | null>(null);
+  const previewRef = useRef<HTMLIFrameElement>(null);
+
+  const { items, error: sourceError } = useMemo((): { items: LabelItem[]; error: string | null } => {
+    try {
+      if (source === 'range') return { items: rangeSpec.trim() ? expandNumberRange(rangeSpec) : [], error: null };
+      const parsed = parseLabelCsv(csvText);
+      return parsed.length > MAX_LABELS
+        ? { items: [], error: `At most ${MAX_LABELS} labels at a time` }
+        : { items: parsed, error: null };
+    } catch (err) {
+      return { items: [], error: err instanceof Error ? err.message : 'Could not read the labels' };
+    }
+  }, [source, csvText, rangeSpec]);
+
+  const templateError = validateTemplate(template);
+  const sheets = Math.ceil((items.length + skipLabels) / labelsPerSheet(template));
+
+  const updateTemplate = (key: keyof LabelTemplate, value: number) => {
+    // Any edit turns a preset into a custom layout
+    setTemplate(prev => ({ ...prev, id: 'custom', name: 'Custom', [key]: value }));
+    setPreviewHtml(null);
+  };
+
+  const buildPreview = async () => {
+    setIsBuilding(true);
+    setBuildError(null);
+    try {
+      const html = await buildLabelSheet(items, template, {
+        style: { ...DEFAULT_QR_STYLE, errorCorrectionLevel },
+        showCaptions,
+        skipLabels,
+      });
+      setPreviewHtml(html);
+    } catch (err) {
+      setBuildError(err instanceof Error ? err.message : 'Could not build the labels');
+    } finally {
+      setIsBuilding(false);
+    }
+  };
+
+  const baseName = toFileName(`labels-${items[0]?.payload ?? ''}`, 'labels');
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          🖨️ Label Sheets
+        </h3>
+        <p className="text-xs text-gray-500">
+          Print asset and bin labels on standard sheets; codes are generated on this device
+        </p>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <div className="grid grid-cols-2 gap-2">
+          {(['csv', 'range'] as const).map(value => (
+            <button
+              key={value}
+              onClick={() => {
+                setSource(value);
+                setPreviewHtml(null);
+              }}
+              className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                source === value ? 'bg-blue-600 text-white' : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+              }`}
+            >
+              {value === 'csv' ? 'From CSV' : 'Numbered range'}
+            </button>
+          ))}
+        </div>
+
+        {source === 'csv' ? (
+          <div>
+            <textarea
+              value={csvText}
+              onChange={e => {
+                setCsvText(e.target.value);
+                setPreviewHtml(null);
+              }}
+              rows={4}
+              placeholder={'payload,caption\nhttps://example.com/asset/17,Laptop 17'}
+              className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+            />
+            <label className="inline-block mt-1 text-xs text-blue-600 hover:underline cursor-pointer">
+              Load CSV file…
+              <input
+                type="file"
+                accept=".csv,.tsv,.txt,text/csv,text/tab-separated-values,text/plain"
+                className="hidden"
+                onChange={async e => {
+                  const file = e.target.files?.[0];
+                  e.target.value = '';
+                  if (file) {
+                    setCsvText(await file.text());
+                    setPreviewHtml(null);
+                  }
+                }}
+              />
+            </label>
+          </div>
+        ) : (
+          <input
+            type="text"
+            value={rangeSpec}
+            onChange={e => {
+              setRangeSpec(e.target.value);
+              setPreviewHtml(null);
+            }}
+            placeholder="BIN-0001..BIN-0500"
+            className="w-full px-2 py-1 font-mono border border-gray-300 rounded"
+          />
+        )}
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-1">Template</label>
+          <select
+            value={template.id}
+            onChange={e => {
+              const preset = LABEL_TEMPLATES.find(t => t.id === e.target.value);
+              if (preset) setTemplate(preset);
+              setPreviewHtml(null);
+            }}
+            className="w-full px-2 py-1 border border-gray-300 rounded bg-white"
+          >
+            {LABEL_TEMPLATES.map(t => (
+              <option key={t.id} value={t.id}>{t.name}</option>
+            ))}
+            {template.id === 'custom' && <option value="custom">Custom</option>}
+          </select>
+          <details className="mt-2">
+            <summary className="text-xs text-blue-600 cursor-pointer">Adjust layout (mm)</summary>
+            <div className="grid grid-cols-2 gap-2 mt-2">
+              {TEMPLATE_FIELDS.map(field => (
+                <label key={field.key} className="flex items-center justify-between gap-2 text-xs text-gray-700">
+                  {field.label}
+                  <input
+                    type="number"
+                    min="0"
+                    step={field.step}
+                    value={template[field.key]}
+                    onChange={e => updateTemplate(field.key, parseFloat(e.target.value) || 0)}
+                    className="w-20 px-2 py-1 border border-gray-300 rounded"
+                  />
+                </label>
+              ))}
+            </div>
+          </details>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={showCaptions}
+              onChange={e => {
+                setShowCaptions(e.target.checked);
+                setPreviewHtml(null);
+              }}
+            />
+            Print captions
+          </label>
+          <label className="flex items-center justify-between gap-2 text-gray-700">
+            Skip labels
+            <input
+              type="number"
+              min="0"
+              max={labelsPerSheet(template) - 1}
+              value={skipLabels}
+              onChange={e => {
+                setSkipLabels(Math.max(0, parseInt(e.target.value) || 0));
+                setPreviewHtml(null);
+              }}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+              title="Labels already used on the first sheet"
+            />
+          </label>
+        </div>
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Error correction</label>
+          <div className="grid grid-cols-4 gap-2">
+            {ERROR_CORRECTION_LEVELS.map(level => (
+              <button
+                key={level.value}
+                onClick={() => {
+                  setErrorCorrectionLevel(level.value);
+                  setPreviewHtml(null);
+                }}
+                className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  errorCorrectionLevel === level.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                }`}
+              >
+                {level.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {(sourceError || templateError || buildError) && (
+          <p className="text-xs text-red-600">{sourceError ?? templateError ?? buildError}</p>
+        )}
+        {items.length > 0 && !templateError && (
+          <p className="text-xs text-gray-600">
+            {items.length} labels on {sheets} {sheets === 1 ? 'sheet' : 'sheets'}
+          </p>
+        )}
+
+        <button
+          onClick={buildPreview}
+          disabled={isBuilding || items.length === 0 || templateError !== null}
+          className="w-full px-4 py-2 bg-blue-600 text-white hover:bg-blue-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+        >
+          {isBuilding ? 'Generating codes…' : 'Preview labels'}
+        </button>
+
+        {previewHtml && (
+          <div className="space-y-2">
+            <iframe
+              ref={previewRef}
+              srcDoc={previewHtml}
+              title="Label sheet preview"
+              className="w-full h-[500px] border border-gray-200 rounded-lg"
+            />
+            <div className="flex gap-2">
+              <button
+                onClick={() => previewRef.current?.contentWindow?.print()}
+                className="flex-1 px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
+              >
+                Print
+              </button>
+              <button
+                onClick={() => downloadFile(previewHtml, `${baseName}.html`, 'text/html')}
+                className="flex-1 px-4 py-2 bg-gray-200 hover:bg-gray-300 rounded-lg text-sm font-medium transition-colors"
+              >
+                Download HTML
+              </button>
+            </div>
+            <p className="text-xs text-gray-500">
+              Print at 100% scale (no “fit to page”) so the codes line up with the labels
+            </p>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default LabelSheetPrinter;
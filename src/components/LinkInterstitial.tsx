@@ -0,0 +1,96 @@
+import type { LinkInspection } from '../utils/linkInspector';
+
+interface LinkInterstitialProps {
+  inspection: LinkInspection;
+  onOpen: (href: string) => void;
+  onClose: () => void;
+}
+
+const VERDICT_HEADINGS: Record<LinkInspection['verdict'], string> = {
+  blocked: '⛔ Link blocked',
+  allowed: '✅ Trusted link',
+  review: '🔗 Check this link',
+};
+
+// Shown before a scanned link is opened: where it actually goes, and anything that looks off
+const LinkInterstitial: React.FC<LinkInterstitialProps> = ({ inspection, onOpen, onClose }) => {
+  const { href, host, unicodeHost, registrableDomain, warnings, verdict } = inspection;
+  const hasDanger = warnings.some(warning => warning.level === 'danger');
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black bg-opacity-50 p-4" onClick={onClose}>
+      <div
+        className="bg-white rounded-xl shadow-2xl w-full max-w-lg max-h-[90vh] overflow-y-auto"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="p-4 border-b border-gray-200 flex items-center justify-between">
+          <h3 className="text-lg font-semibold text-gray-900">{VERDICT_HEADINGS[verdict]}</h3>
+          <button onClick={onClose} className="text-gray-500 hover:text-gray-700 text-xl leading-none">
+            ×
+          </button>
+        </div>
+
+        <div className="p-4 space-y-4 text-sm">
+          {host && (
+            <div>
+              <div className="text-xs text-gray-500 mb-1">Site</div>
+              <div className="text-2xl font-semibold text-gray-900 break-all">{registrableDomain}</div>
+              {unicodeHost !== registrableDomain && (
+                <div className="text-xs text-gray-600 break-all">Host: {unicodeHost}</div>
+              )}
+              {unicodeHost !== host && (
+                <div className="text-xs text-gray-600 break-all font-mono">Registered as: {host}</div>
+              )}
+            </div>
+          )}
+
+          <div>
+            <div className="text-xs text-gray-500 mb-1">Full link</div>
+            <div className="text-xs font-mono bg-gray-50 border border-gray-200 rounded p-2 break-all whitespace-pre-wrap">
+              {inspection.url}
+            </div>
+          </div>
+
+          {warnings.length > 0 && (
+            <ul className="space-y-1">
+              {warnings.map(warning => (
+                <li
+                  key={warning.message}
+                  className={`text-xs px-2 py-1 rounded ${
+                    warning.level === 'danger' ? 'bg-red-100 text-red-800' : 'bg-yellow-100 text-yellow-800'
+                  }`}
+                >
+                  {warning.level === 'danger' ? '⚠️' : 'ℹ️'} {warning.message}
+                </li>
+              ))}
+            </ul>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-gray-200 flex justify-end gap-2">
+          <button
+            onClick={() => navigator.clipboard.writeText(inspection.url)}
+            className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors"
+          >
+            Copy link
+          </button>
+          <button onClick={onClose} className="px-4 py-2 text-sm bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors">
+            Cancel
+          </button>
+          {href && (
+            <button
+              onClick={() => onOpen(href)}
+              className={`px-4 py-2 text-sm text-white rounded-lg transition-colors ${
+                hasDanger ? 'bg-red-600 hover:bg-red-700' : 'bg-blue-600 hover:bg-blue-700'
+              }`}
+            >
+              {hasDanger ? 'Open anyway' : 'Open'}
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default LinkInterstitial;
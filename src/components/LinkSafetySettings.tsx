@@ -0,0 +1,97 @@
+import { useState } from 'react';
+import { normalizeDomainEntry } from '../utils/linkInspector';
+import type { LinkPolicy } from '../types';
+
+interface LinkSafetySettingsProps {
+  policy: LinkPolicy;
+  onChange: (policy: LinkPolicy) => void;
+}
+
+const toLines = (list: string[]) => list.join('\n');
+const fromLines = (text: string) => text.split('\n').map(line => line.trim()).filter(Boolean);
+
+// Allow/deny lists edited as text, one domain per line
+const DomainListField: React.FC<{
+  label: string;
+  hint: string;
+  list: string[];
+  onChange: (list: string[]) => void;
+}> = ({ label, hint, list, onChange }) => {
+  // Keep the raw text so blank lines survive while typing
+  const [draft, setDraft] = useState(() => toLines(list));
+  const invalid = fromLines(draft).filter(entry => normalizeDomainEntry(entry) === null);
+
+  return (
+    <label className="block">
+      <span className="block font-medium text-gray-700 mb-1">{label}</span>
+      <textarea
+        value={draft}
+        onChange={e => {
+          setDraft(e.target.value);
+          onChange(fromLines(e.target.value));
+        }}
+        rows={3}
+        placeholder="example.com"
+        className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+      />
+      <span className="block text-xs text-gray-500 mt-1">{hint}</span>
+      {invalid.length > 0 && (
+        <span className="block text-xs text-red-600 mt-1">Not a domain: {invalid.join(', ')}</span>
+      )}
+    </label>
+  );
+};
+
+// Which scanned links open straight away, which are checked first and which never open
+const LinkSafetySettings: React.FC<LinkSafetySettingsProps> = ({ policy, onChange }) => {
+  const update = <K extends keyof LinkPolicy>(key: K, value: LinkPolicy[K]) => {
+    onChange({ ...policy, [key]: value });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          🛡️ Link Safety
+        </h3>
+        <p className="text-xs text-gray-500">
+          Scanned links are checked before they open; script and data links never do
+        </p>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <DomainListField
+          label="Allowed domains"
+          hint="One per line; subdomains are included"
+          list={policy.allowList}
+          onChange={list => update('allowList', list)}
+        />
+        <DomainListField
+          label="Blocked domains"
+          hint="Links to these are never opened"
+          list={policy.denyList}
+          onChange={list => update('denyList', list)}
+        />
+
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={policy.autoOpenAllowed}
+            onChange={e => update('autoOpenAllowed', e.target.checked)}
+          />
+          Open allowed links without asking
+        </label>
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={policy.blockUnlisted}
+            onChange={e => update('blockUnlisted', e.target.checked)}
+          />
+          Block every domain not on the allow list
+        </label>
+      </div>
+    </div>
+  );
+};
+
+export default LinkSafetySettings;
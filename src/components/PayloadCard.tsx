@@ -0,0 +1,204 @@
+import { useState } from 'react';
+import { downloadFile, toFileName } from '../utils/download';
+import type { ParsedPayload } from '../types';
+
+interface PayloadCardProps {
+  payload: ParsedPayload;
+}
+
+const PAYLOAD_LABELS: Record<ParsedPayload['type'], string> = {
+  url: '🔗 Link',
+  wifi: '📶 Wi-Fi',
+  contact: '👤 Contact',
+  geo: '📍 Location',
+  email: '✉️ Email',
+  phone: '📞 Phone',
+  sms: '💬 SMS',
+  event: '📅 Event',
+  text: '📝 Text',
+};
+
+const actionClass =
+  'text-xs px-2 py-1 bg-blue-200 hover:bg-blue-300 text-blue-800 rounded transition-colors';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <div className="flex gap-2">
+    <span className="text-gray-500 w-16 shrink-0">{label}</span>
+    <span className="text-gray-900 break-all min-w-0">{children}</span>
+  </div>
+);
+
+const formatEventTime = (date: Date, allDay: boolean): string =>
+  allDay ? date.toLocaleDateString() : date.toLocaleString();
+
+// Typed view of a recognised payload (Wi-Fi, contact, location, ...) with its actions.
+// Plain text and links have no card; the results list shows them as they are.
+const PayloadCard: React.FC<PayloadCardProps> = ({ payload }) => {
+  const [showPassword, setShowPassword] = useState(false);
+
+  const body = (() => {
+    switch (payload.type) {
+      case 'wifi':
+        return (
+          <>
+            <Field label="Network">
+              {payload.ssid}
+              {payload.hidden && <span className="text-gray-500"> (hidden)</span>}
+            </Field>
+            <Field label="Security">{payload.security === 'nopass' ? 'Open' : payload.security}</Field>
+            {payload.password && (
+              <Field label="Password">
+                <span className="font-mono">{showPassword ? payload.password : '••••••••'}</span>
+              </Field>
+            )}
+            {payload.password && (
+              <div className="flex gap-1 mt-1">
+                <button onClick={() => setShowPassword(prev => !prev)} className={actionClass}>
+                  {showPassword ? 'Hide' : 'Show'}
+                </button>
+                <button
+                  onClick={() => navigator.clipboard.writeText(payload.password ?? '')}
+                  className={actionClass}
+                >
+                  Copy password
+                </button>
+              </div>
+            )}
+          </>
+        );
+
+      case 'contact':
+        return (
+          <>
+            {payload.name && <Field label="Name">{payload.name}</Field>}
+            {payload.organization && <Field label="Company">{payload.organization}</Field>}
+            {payload.phones.map(phone => (
+              <Field key={phone} label="Phone">
+                <a href={`tel:${phone}`} className="text-blue-700 underline">{phone}</a>
+              </Field>
+            ))}
+            {payload.emails.map(email => (
+              <Field key={email} label="Email">
+                <a href={`mailto:${email}`} className="text-blue-700 underline">{email}</a>
+              </Field>
+            ))}
+            {payload.address && <Field label="Address">{payload.address}</Field>}
+            <div className="flex gap-1 mt-1">
+              <button
+                onClick={() =>
+                  downloadFile(payload.vcard, `${toFileName(payload.name, 'contact')}.vcf`, 'text/vcard')
+                }
+                className={actionClass}
+              >
+                Save contact
+              </button>
+            </div>
+          </>
+        );
+
+      case 'geo':
+        return (
+          <>
+            <Field label="Coords">
+              {payload.latitude.toFixed(6)}, {payload.longitude.toFixed(6)}
+              {payload.altitude !== undefined && ` • ${payload.altitude} m`}
+            </Field>
+            {payload.query && <Field label="Place">{payload.query}</Field>}
+            <div className="flex gap-1 mt-1">
+              <a
+                href={`https://www.openstreetmap.org/?mlat=${payload.latitude}&mlon=${payload.longitude}#map=16/${payload.latitude}/${payload.longitude}`}
+                target="_blank"
+                rel="noopener noreferrer"
+                className={actionClass}
+              >
+                Open map
+              </a>
+            </div>
+          </>
+        );
+
+      case 'email': {
+        const query = [
+          payload.subject && `subject=${encodeURIComponent(payload.subject)}`,
+          payload.body && `body=${encodeURIComponent(payload.body)}`,
+        ].filter(Boolean).join('&');
+        return (
+          <>
+            <Field label="To">{payload.to}</Field>
+            {payload.subject && <Field label="Subject">{payload.subject}</Field>}
+            {payload.body && <Field label="Body">{payload.body}</Field>}
+            <div className="flex gap-1 mt-1">
+              <a href={`mailto:${payload.to}${query ? `?${query}` : ''}`} className={actionClass}>
+                Write email
+              </a>
+            </div>
+          </>
+        );
+      }
+
+      case 'phone':
+        return (
+          <>
+            <Field label="Number">{payload.number}</Field>
+            <div className="flex gap-1 mt-1">
+              <a href={`tel:${payload.number}`} className={actionClass}>Call</a>
+            </div>
+          </>
+        );
+
+      case 'sms':
+        return (
+          <>
+            <Field label="To">{payload.number}</Field>
+            {payload.message && <Field label="Message">{payload.message}</Field>}
+            <div className="flex gap-1 mt-1">
+              <a
+                href={`sms:${payload.number}${payload.message ? `?body=${encodeURIComponent(payload.message)}` : ''}`}
+                className={actionClass}
+              >
+                Send SMS
+              </a>
+            </div>
+          </>
+        );
+
+      case 'event':
+        return (
+          <>
+            {payload.summary && <Field label="Title">{payload.summary}</Field>}
+            {payload.start && (
+              <Field label="When">
+                {formatEventTime(payload.start, payload.allDay)}
+                {payload.end && ` – ${formatEventTime(payload.end, payload.allDay)}`}
+              </Field>
+            )}
+            {payload.location && <Field label="Where">{payload.location}</Field>}
+            <div className="flex gap-1 mt-1">
+              <button
+                onClick={() =>
+                  downloadFile(payload.ics, `${toFileName(payload.summary, 'event')}.ics`, 'text/calendar')
+                }
+                className={actionClass}
+              >
+                Add to calendar
+              </button>
+            </div>
+          </>
+        );
+
+      default:
+        return null;
+    }
+  })();
+
+  if (!body) return null;
+
+  return (
+    <div className="mt-2 p-2 bg-white border border-gray-200 rounded text-xs space-y-0.5">
+      <div className="font-semibold text-gray-700 mb-1">{PAYLOAD_LABELS[payload.type]}</div>
+      {body}
+    </div>
+  );
+};
+
+export default PayloadCard;
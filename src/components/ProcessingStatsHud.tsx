@@ -0,0 +1,26 @@
+import type { ProcessingStats } from "../types";
+
+interface ProcessingStatsHudProps {
+  stats: ProcessingStats;
+}
+
+// Compact live metrics drawn over the video
+const ProcessingStatsHud: React.FC<ProcessingStatsHudProps> = ({ stats }) => {
+  return (
+    <div className="absolute top-2 right-2 bg-black bg-opacity-75 text-white px-2 py-1 rounded text-[10px] font-mono leading-tight pointer-events-none">
+      <div>{stats.fps.toFixed(1)} fps</div>
+      <div>{stats.averageProcessingTime.toFixed(1)} ms/frame</div>
+      <div>
+        {stats.framesProcessed} frames • {stats.droppedFrames ?? 0} dropped
+      </div>
+      <div>{stats.codesDetected} codes</div>
+      {Object.entries(stats.strategyTimes ?? {}).map(([strategy, time]) => (
+        <div key={strategy} className="text-gray-300">
+          {strategy}: {time.toFixed(1)} ms
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default ProcessingStatsHud;
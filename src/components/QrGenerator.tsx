@@ -0,0 +1,193 @@
+import { useState, useEffect, useRef } from 'react';
+import { downloadFile, toFileName } from '../utils/download';
+import {
+  DEFAULT_QR_STYLE,
+  ERROR_CORRECTION_LEVELS,
+  createQrCode,
+  renderQrCode,
+  toStylingOptions,
+} from '../utils/qrGenerator';
+import type { QrStyle } from '../utils/qrGenerator';
+
+const readAsDataUrl = (file: File) =>
+  new Promise<string>((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(reader.result as string);
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+
+// Makes a QR code on the device, previewed as you type, for download as PNG or SVG
+const QrGenerator: React.FC = () => {
+  const [data, setData] = useState('https://example.com');
+  const [style, setStyle] = useState<QrStyle>(DEFAULT_QR_STYLE);
+  const [error, setError] = useState<string | null>(null);
+  const [preview] = useState(() => createQrCode(data, style));
+  const previewRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    preview.append(previewRef.current ?? undefined);
+  }, [preview]);
+
+  useEffect(() => {
+    if (data) preview.update(toStylingOptions(data, style, 'svg'));
+  }, [preview, data, style]);
+
+  const update = <K extends keyof QrStyle>(key: K, value: QrStyle[K]) => {
+    setStyle(prev => ({ ...prev, [key]: value }));
+  };
+
+  const loadLogo = async (file: File) => {
+    try {
+      update('logo', await readAsDataUrl(file));
+      // A logo hides modules; the highest level keeps the code readable
+      update('errorCorrectionLevel', 'H');
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not read the image');
+    }
+  };
+
+  const download = async (extension: 'png' | 'svg') => {
+    setError(null);
+    try {
+      const blob = await renderQrCode(data, style, extension);
+      downloadFile(blob, `${toFileName(data, 'qr-code')}.${extension}`, blob.type);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Could not create the QR code');
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          🏷️ QR Generator
+        </h3>
+        <p className="text-xs text-gray-500">
+          Codes are drawn on this device, so this works offline
+        </p>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <textarea
+          value={data}
+          onChange={e => setData(e.target.value)}
+          rows={2}
+          placeholder="Text or link to encode"
+          className="w-full px-2 py-1 border border-gray-300 rounded font-mono text-xs"
+        />
+
+        <div
+          ref={previewRef}
+          className={`flex justify-center bg-gray-50 rounded-lg p-2 [&>svg]:max-w-full [&>svg]:h-auto ${
+            data ? '' : 'hidden'
+          }`}
+        />
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Error correction</label>
+          <div className="grid grid-cols-4 gap-2">
+            {ERROR_CORRECTION_LEVELS.map(level => (
+              <button
+                key={level.value}
+                onClick={() => update('errorCorrectionLevel', level.value)}
+                className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  style.errorCorrectionLevel === level.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                }`}
+              >
+                {level.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Size: {style.size}px</span>
+            <input
+              type="range"
+              min="100"
+              max="1000"
+              step="50"
+              value={style.size}
+              onChange={e => update('size', parseInt(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <label className="block">
+            <span className="block font-medium text-gray-700 mb-1">Margin: {style.margin}px</span>
+            <input
+              type="range"
+              min="0"
+              max="100"
+              step="2"
+              value={style.margin}
+              onChange={e => update('margin', parseInt(e.target.value))}
+              className="w-full"
+            />
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="color"
+              value={style.foreground}
+              onChange={e => update('foreground', e.target.value)}
+            />
+            Foreground
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="color"
+              value={style.background}
+              onChange={e => update('background', e.target.value)}
+            />
+            Background
+          </label>
+        </div>
+
+        <div className="flex items-center gap-2 text-xs">
+          <label className="px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-lg cursor-pointer transition-colors">
+            {style.logo ? 'Change logo' : 'Add logo'}
+            <input
+              type="file"
+              accept="image/*"
+              className="hidden"
+              onChange={e => {
+                const file = e.target.files?.[0];
+                if (file) loadLogo(file);
+                e.target.value = '';
+              }}
+            />
+          </label>
+          {style.logo && (
+            <button onClick={() => update('logo', null)} className="text-blue-600 hover:underline">
+              Remove logo
+            </button>
+          )}
+        </div>
+
+        {error && <p className="text-xs text-red-600">{error}</p>}
+
+        <div className="flex gap-2">
+          <button
+            onClick={() => download('png')}
+            disabled={!data}
+            className="flex-1 px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Download PNG
+          </button>
+          <button
+            onClick={() => download('svg')}
+            disabled={!data}
+            className="flex-1 px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
+          >
+            Download SVG
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default QrGenerator;
@@ -0,0 +1,189 @@
+import { useState, useMemo, useRef } from 'react';
+import { downloadFile, toFileName } from '../utils/download';
+import { formatReconciliationCsv, parseExpectedList, reconcile } from '../utils/reconciliation';
+import type { ExpectedList, ScanResult } from '../types';
+
+interface ReconciliationPanelProps {
+  expectedList: ExpectedList | null;
+  onChange: (list: ExpectedList | null) => void;
+  results: ScanResult[];
+  isSessionRunning: boolean;
+}
+
+// Scan against a manifest: load the expected codes, watch them tick off, then get a report
+const ReconciliationPanel: React.FC<ReconciliationPanelProps> = ({
+  expectedList,
+  onChange,
+  results,
+  isSessionRunning,
+}) => {
+  const [draft, setDraft] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const reconciliation = useMemo(
+    () => (expectedList ? reconcile(expectedList.items, results) : null),
+    [expectedList, results]
+  );
+
+  const loadList = (text: string, name: string) => {
+    try {
+      const items = parseExpectedList(text);
+      if (items.length === 0) {
+        setError('No codes found in that list.');
+        return;
+      }
+      onChange({ name, items, autoStop: expectedList?.autoStop ?? true });
+      setDraft('');
+      setError(null);
+    } catch (e) {
+      setError(e instanceof Error ? e.message : 'Could not read that list.');
+    }
+  };
+
+  const downloadReport = () => {
+    if (!expectedList || !reconciliation) return;
+    downloadFile(
+      formatReconciliationCsv(reconciliation),
+      `${toFileName(expectedList.name, 'expected-list')}-reconciliation.csv`,
+      'text/csv'
+    );
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          📋 Expected List
+        </h3>
+        <p className="text-sm text-gray-600">
+          Check a delivery or stock take against the codes you expect to find
+        </p>
+      </div>
+
+      {!expectedList || !reconciliation ? (
+        <div className="space-y-2">
+          <textarea
+            value={draft}
+            onChange={e => setDraft(e.target.value)}
+            rows={4}
+            placeholder={'One code per line (optionally "code,label"),\na CSV with a "code" column, or a JSON array'}
+            className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+          />
+          {error && <p className="text-xs text-red-600">{error}</p>}
+          <div className="flex gap-2">
+            <button
+              onClick={() => loadList(draft, 'Pasted list')}
+              disabled={!draft.trim()}
+              className="flex-1 text-sm px-3 py-2 bg-blue-600 hover:bg-blue-700 text-white rounded-lg transition-colors disabled:opacity-50"
+            >
+              Use pasted list
+            </button>
+            <button
+              onClick={() => fileInputRef.current?.click()}
+              className="flex-1 text-sm px-3 py-2 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg transition-colors"
+            >
+              Load CSV/JSON…
+            </button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.tsv,.txt,.json,text/csv,text/plain,application/json"
+              className="hidden"
+              onChange={async e => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) loadList(await file.text(), file.name);
+              }}
+            />
+          </div>
+        </div>
+      ) : (
+        <div className="space-y-3">
+          <div className="flex items-center justify-between text-sm">
+            <span className="font-medium text-gray-800 truncate">{expectedList.name}</span>
+            <span className="text-xs text-gray-500">
+              {isSessionRunning ? 'Live' : results.length > 0 ? 'Final report' : 'Ready'}
+            </span>
+          </div>
+
+          <div className="grid grid-cols-3 gap-2 text-center">
+            <div className="bg-green-50 rounded-lg p-2">
+              <div className="text-xl font-bold text-green-700">{reconciliation.matched.length}</div>
+              <div className="text-xs text-green-800">Matched</div>
+            </div>
+            <div className="bg-yellow-50 rounded-lg p-2">
+              <div className="text-xl font-bold text-yellow-700">{reconciliation.missing.length}</div>
+              <div className="text-xs text-yellow-800">Missing</div>
+            </div>
+            <div className="bg-red-50 rounded-lg p-2">
+              <div className="text-xl font-bold text-red-700">{reconciliation.unexpected.length}</div>
+              <div className="text-xs text-red-800">Unexpected</div>
+            </div>
+          </div>
+
+          <div className="w-full bg-gray-200 rounded-full h-2">
+            <div
+              className="bg-green-500 h-2 rounded-full transition-all duration-300"
+              style={{ width: `${(reconciliation.matched.length / expectedList.items.length) * 100}%` }}
+            />
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-gray-700">
+            <input
+              type="checkbox"
+              checked={expectedList.autoStop}
+              onChange={e => onChange({ ...expectedList, autoStop: e.target.checked })}
+            />
+            Stop the scanner once every code is found
+          </label>
+
+          {/* Checklist */}
+          <ul className="max-h-48 overflow-y-auto border border-gray-200 rounded-lg divide-y divide-gray-100 text-xs">
+            {expectedList.items.map(item => {
+              const found = reconciliation.matched.some(match => match.item.code === item.code);
+              return (
+                <li key={item.code} className={`flex items-center gap-2 px-2 py-1 ${found ? 'bg-green-50' : ''}`}>
+                  <span className={found ? 'text-green-600' : 'text-gray-400'}>{found ? '✓' : '○'}</span>
+                  <span className="font-mono break-all flex-1">{item.code}</span>
+                  {item.label && <span className="text-gray-500 truncate max-w-[40%]">{item.label}</span>}
+                </li>
+              );
+            })}
+          </ul>
+
+          {reconciliation.unexpected.length > 0 && (
+            <details className="text-xs">
+              <summary className="cursor-pointer text-red-700">
+                {reconciliation.unexpected.length} scanned code(s) not on the list
+              </summary>
+              <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto font-mono">
+                {reconciliation.unexpected.map(result => (
+                  <li key={result.id} className="break-all">{result.text}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+
+          <div className="flex gap-2">
+            <button
+              onClick={downloadReport}
+              className="flex-1 text-sm px-3 py-2 bg-green-100 hover:bg-green-200 text-green-700 rounded-lg transition-colors"
+            >
+              💾 Download report
+            </button>
+            <button
+              onClick={() => onChange(null)}
+              disabled={isSessionRunning}
+              className="text-sm px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors disabled:opacity-50"
+            >
+              Clear list
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReconciliationPanel;
@@ -0,0 +1,128 @@
+import { formatLabel } from '../utils/formats';
+import { DEFAULT_RESULT_FILTER, isFilterActive } from '../utils/resultFilter';
+import type { ResultFilter, ResultSort } from '../utils/resultFilter';
+import { getSessionName } from '../utils/sessionStore';
+import type { ScanResult, ScanSession } from '../types';
+
+// 'current' = the results on screen, 'all' = those plus every saved session, else a session id
+export type SessionView = 'current' | 'all' | string;
+
+interface ResultFiltersProps {
+  filter: ResultFilter;
+  onChange: (filter: ResultFilter) => void;
+  formats: string[]; // Formats present in the rows being filtered
+  sessionView: SessionView;
+  onSessionViewChange: (view: SessionView) => void;
+  sessions: ScanSession[]; // Saved sessions other than the one on screen
+}
+
+const SORTS: { value: ResultSort; label: string }[] = [
+  { value: 'newest', label: 'Newest first' },
+  { value: 'oldest', label: 'Oldest first' },
+  { value: 'value-asc', label: 'Value A→Z' },
+  { value: 'value-desc', label: 'Value Z→A' },
+];
+
+const SOURCES: { value: ScanResult['source']; label: string }[] = [
+  { value: 'camera', label: 'Camera' },
+  { value: 'image', label: 'Image' },
+  { value: 'batch', label: 'Batch' },
+];
+
+const ResultFilters: React.FC<ResultFiltersProps> = ({
+  filter,
+  onChange,
+  formats,
+  sessionView,
+  onSessionViewChange,
+  sessions,
+}) => {
+  const update = <K extends keyof ResultFilter>(key: K, value: ResultFilter[K]) => {
+    onChange({ ...filter, [key]: value });
+  };
+
+  return (
+    <div className="px-4 py-2 border-b border-gray-200 space-y-2 text-xs">
+      <div className="flex gap-2">
+        <input
+          type="search"
+          value={filter.query}
+          onChange={e => update('query', e.target.value)}
+          placeholder="Search codes, Wi-Fi names, contacts…"
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+        />
+        <select
+          value={filter.sort}
+          onChange={e => update('sort', e.target.value as ResultSort)}
+          className="px-2 py-1 border border-gray-300 rounded bg-white"
+        >
+          {SORTS.map(sort => (
+            <option key={sort.value} value={sort.value}>{sort.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="grid grid-cols-3 gap-2">
+        <select
+          value={sessionView}
+          onChange={e => onSessionViewChange(e.target.value)}
+          className="px-2 py-1 border border-gray-300 rounded bg-white"
+        >
+          <option value="current">This session</option>
+          <option value="all">All sessions</option>
+          {sessions.map(session => (
+            <option key={session.id} value={session.id}>{getSessionName(session)}</option>
+          ))}
+        </select>
+        <select
+          value={filter.format ?? ''}
+          onChange={e => update('format', e.target.value || null)}
+          className="px-2 py-1 border border-gray-300 rounded bg-white"
+        >
+          <option value="">All formats</option>
+          {formats.map(format => (
+            <option key={format} value={format}>{formatLabel(format)}</option>
+          ))}
+        </select>
+        <select
+          value={filter.source ?? ''}
+          onChange={e => update('source', (e.target.value || null) as ResultFilter['source'])}
+          className="px-2 py-1 border border-gray-300 rounded bg-white"
+        >
+          <option value="">All sources</option>
+          {SOURCES.map(source => (
+            <option key={source.value} value={source.value}>{source.label}</option>
+          ))}
+        </select>
+      </div>
+
+      <div className="flex items-center gap-2">
+        <input
+          type="datetime-local"
+          value={filter.from}
+          onChange={e => update('from', e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+          aria-label="Scanned from"
+        />
+        <span className="text-gray-500">to</span>
+        <input
+          type="datetime-local"
+          value={filter.to}
+          onChange={e => update('to', e.target.value)}
+          className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded"
+          aria-label="Scanned until"
+        />
+        {isFilterActive(filter) && (
+          <button
+            onClick={() => onChange({ ...DEFAULT_RESULT_FILTER, sort: filter.sort })}
+            className="text-blue-600 hover:underline whitespace-nowrap"
+          >
+            Reset
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default ResultFilters;
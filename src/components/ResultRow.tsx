@@ -0,0 +1,155 @@
+import { memo } from 'react';
+import { getLastSeen, getOccurrences } from '../utils/duplicatePolicy';
+import { formatLabel } from '../utils/formats';
+import { formatGs1, isGs1ElementString } from '../utils/gs1Parser';
+import { parsePayload } from '../utils/payloadParser';
+import Gs1Fields from './Gs1Fields';
+import PayloadCard from './PayloadCard';
+import type { OutboxEntry, OutboxStatus, ScanResult } from '../types';
+
+interface ResultRowProps {
+  result: ScanResult;
+  index: number; // Position in the list as displayed
+  isLatest: boolean;
+  selected: boolean;
+  onToggleSelect: (id: string) => void;
+  onOpenLink: (url: string) => void; // Links are inspected before they open
+  syncEntry?: OutboxEntry;
+}
+
+const SYNC_BADGES: Record<OutboxStatus, { label: string; className: string }> = {
+  pending: { label: '⏳ Pending', className: 'bg-yellow-100 text-yellow-800' },
+  synced: { label: '☁️ Synced', className: 'bg-green-100 text-green-800' },
+  failed: { label: '⚠️ Failed', className: 'bg-red-100 text-red-800' },
+};
+
+// One result in the list; memoised because the list re-renders on every scroll
+const ResultRow: React.FC<ResultRowProps> = ({
+  result,
+  index,
+  isLatest,
+  selected,
+  onToggleSelect,
+  onOpenLink,
+  syncEntry,
+}) => {
+  const payload = parsePayload(result.text);
+  // Raw GS1 element strings carry invisible separators; show the bracketed form instead
+  const text = result.gs1 && isGs1ElementString(result.text)
+    ? formatGs1(result.gs1)
+    : result.text;
+
+  return (
+    <div className="pb-1">
+      <div
+        className={`p-3 rounded-lg border transition-all duration-200 ${
+          selected
+            ? 'bg-blue-50 border-blue-300'
+            : isLatest
+              ? 'bg-green-50 border-green-200 shadow-sm'
+              : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
+        }`}
+      >
+        <div className="flex items-start justify-between gap-2">
+          <input
+            type="checkbox"
+            checked={selected}
+            onChange={() => onToggleSelect(result.id)}
+            className="mt-1"
+            aria-label="Select result"
+          />
+          <div className="flex-1 min-w-0">
+            <div className="flex flex-wrap items-center gap-2 mb-1">
+              <span className="text-xs font-mono bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
+                #{index + 1}
+              </span>
+              <span className="text-xs bg-purple-100 text-purple-800 px-1 py-0.5 rounded">
+                {formatLabel(result.format)}
+              </span>
+              <span className="text-xs text-gray-500">
+                {result.timestamp.toLocaleTimeString()}
+              </span>
+              {result.isDuplicate && (
+                <span className="text-xs bg-orange-100 text-orange-800 px-1 py-0.5 rounded">
+                  Repeat
+                </span>
+              )}
+              {getOccurrences(result) > 1 && (
+                <span
+                  className="text-xs bg-blue-100 text-blue-800 px-1 py-0.5 rounded"
+                  title={`Scanned ${getOccurrences(result)} times, last at ${getLastSeen(result).toLocaleString()}`}
+                >
+                  ×{getOccurrences(result)} · last {getLastSeen(result).toLocaleTimeString()}
+                </span>
+              )}
+              {result.sourceName && (
+                <span
+                  className="text-xs bg-gray-200 text-gray-700 px-1 py-0.5 rounded truncate max-w-[10rem]"
+                  title={result.sourceName}
+                >
+                  🖼️ {result.sourceName}
+                </span>
+              )}
+              {result.confidence && (
+                <span className="text-xs bg-green-100 text-green-800 px-1 py-0.5 rounded">
+                  {Math.round(result.confidence * 100)}%
+                </span>
+              )}
+              {syncEntry && (
+                <span
+                  className={`text-xs px-1 py-0.5 rounded ${SYNC_BADGES[syncEntry.status].className}`}
+                  title={syncEntry.lastError ? `Last error: ${syncEntry.lastError}` : undefined}
+                >
+                  {SYNC_BADGES[syncEntry.status].label}
+                </span>
+              )}
+            </div>
+
+            <div className="text-sm text-gray-900 break-all leading-tight">
+              {text.length > 100 ? (
+                <details className="cursor-pointer">
+                  <summary className="font-medium">
+                    {text.substring(0, 100)}...
+                  </summary>
+                  <div className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">
+                    {text}
+                  </div>
+                </details>
+              ) : (
+                <span className="font-medium">{text}</span>
+              )}
+            </div>
+
+            {result.gs1 ? <Gs1Fields gs1={result.gs1} /> : <PayloadCard payload={payload} />}
+
+            {/* Quick Actions */}
+            <div className="flex gap-1 mt-2">
+              <button
+                onClick={() => navigator.clipboard.writeText(result.text)}
+                className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
+              >
+                Copy
+              </button>
+              {payload.type === 'url' && (
+                <button
+                  onClick={() => onOpenLink(payload.url)}
+                  className="text-xs px-2 py-1 bg-blue-200 hover:bg-blue-300 text-blue-800 rounded transition-colors"
+                >
+                  Open
+                </button>
+              )}
+            </div>
+          </div>
+
+          {isLatest && (
+            <div className="text-green-500 text-xs font-bold">
+              NEW
+            </div>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default memo(ResultRow);
@@ -0,0 +1,223 @@
+import type { DuplicateMode, DuplicatePolicy, DuplicateScope, ScannerConfig } from '../types';
+
+interface ScannerSettingsProps {
+  config: ScannerConfig;
+  onChange: (config: ScannerConfig) => void;
+}
+
+const SCAN_MODES: { value: ScannerConfig['scanMode']; label: string }[] = [
+  { value: 'continuous', label: 'Continuous' },
+  { value: 'single-shot', label: 'Single shot' },
+  { value: 'burst', label: 'Burst' },
+];
+
+const RESOLUTIONS: ScannerConfig['cameraResolution'][] = ['low', 'medium', 'high'];
+
+const DUPLICATE_MODES: { value: DuplicateMode; label: string; description: string }[] = [
+  { value: 'drop', label: 'Drop', description: 'Repeats are ignored' },
+  { value: 'flag', label: 'Flag', description: 'Every repeat is listed, marked as a duplicate' },
+  { value: 'count', label: 'Count', description: 'Repeats add to the count on the code’s row' },
+  { value: 'window', label: 'Window', description: 'A code is listed again once the time window has passed' },
+];
+
+const DUPLICATE_SCOPES: { value: DuplicateScope; label: string }[] = [
+  { value: 'frame', label: 'Same frame' },
+  { value: 'session', label: 'This session' },
+  { value: 'history', label: 'All history' },
+];
+
+// Settings apply from the next scanner start; a running session keeps the config it started with
+const ScannerSettings: React.FC<ScannerSettingsProps> = ({ config, onChange }) => {
+  const update = <K extends keyof ScannerConfig>(key: K, value: ScannerConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+  const policy = config.duplicatePolicy;
+  const updatePolicy = (changes: Partial<DuplicatePolicy>) => {
+    update('duplicatePolicy', { ...policy, ...changes });
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          ⚙️ Scanner Settings
+        </h3>
+        <p className="text-xs text-gray-500">Applied the next time the scanner starts</p>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Scan mode</label>
+          <div className="grid grid-cols-3 gap-2">
+            {SCAN_MODES.map(mode => (
+              <button
+                key={mode.value}
+                onClick={() => update('scanMode', mode.value)}
+                className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  config.scanMode === mode.value
+                    ? 'bg-blue-600 text-white'
+                    : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        {config.scanMode === 'burst' && (
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-gray-700">Frames per burst</span>
+            <input
+              type="number"
+              min={1}
+              max={60}
+              value={config.burstFrameCount}
+              onChange={e => update('burstFrameCount', Math.max(1, Number(e.target.value) || 1))}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        )}
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Camera resolution</label>
+          <div className="grid grid-cols-3 gap-2">
+            {RESOLUTIONS.map(resolution => (
+              <button
+                key={resolution}
+                onClick={() => update('cameraResolution', resolution)}
+                className={`px-3 py-2 rounded-lg text-xs font-medium capitalize transition-colors ${
+                  config.cameraResolution === resolution
+                    ? 'bg-purple-600 text-white'
+                    : 'bg-purple-100 text-purple-700 hover:bg-purple-200'
+                }`}
+              >
+                {resolution}
+              </button>
+            ))}
+          </div>
+        </div>
+
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-gray-700">Scan interval (ms)</span>
+          <input
+            type="number"
+            min={0}
+            max={2000}
+            value={config.scanInterval}
+            onChange={e => update('scanInterval', Math.max(0, Number(e.target.value) || 0))}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-4">
+          <span className="text-gray-700">Max codes per frame</span>
+          <input
+            type="number"
+            min={1}
+            max={200}
+            value={config.maxCodesPerFrame}
+            onChange={e => update('maxCodesPerFrame', Math.max(1, Number(e.target.value) || 1))}
+            className="w-20 px-2 py-1 border border-gray-300 rounded"
+          />
+        </label>
+
+        <label className="block">
+          <span className="flex justify-between text-gray-700">
+            <span>Min. confidence</span>
+            <span className="font-mono text-xs">{Math.round(config.confidenceThreshold * 100)}%</span>
+          </span>
+          <input
+            type="range"
+            min={0}
+            max={1}
+            step={0.05}
+            value={config.confidenceThreshold}
+            onChange={e => update('confidenceThreshold', Number(e.target.value))}
+            className="w-full"
+          />
+        </label>
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Repeated codes</label>
+          <div className="grid grid-cols-4 gap-2">
+            {DUPLICATE_MODES.map(mode => (
+              <button
+                key={mode.value}
+                onClick={() => updatePolicy({ mode: mode.value })}
+                title={mode.description}
+                className={`px-2 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  policy.mode === mode.value
+                    ? 'bg-green-600 text-white'
+                    : 'bg-green-100 text-green-700 hover:bg-green-200'
+                }`}
+              >
+                {mode.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            {DUPLICATE_MODES.find(mode => mode.value === policy.mode)?.description}
+          </p>
+        </div>
+
+        {policy.mode === 'window' && (
+          <label className="flex items-center justify-between gap-4">
+            <span className="text-gray-700">List again after (s)</span>
+            <input
+              type="number"
+              min={1}
+              max={86400}
+              value={policy.windowSeconds}
+              onChange={e => updatePolicy({ windowSeconds: Math.max(1, Number(e.target.value) || 1) })}
+              className="w-20 px-2 py-1 border border-gray-300 rounded"
+            />
+          </label>
+        )}
+
+        <div>
+          <label className="block font-medium text-gray-700 mb-2">Count as repeat when seen in</label>
+          <div className="grid grid-cols-3 gap-2">
+            {DUPLICATE_SCOPES.map(scope => (
+              <button
+                key={scope.value}
+                onClick={() => updatePolicy({ scope: scope.value })}
+                className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                  policy.scope === scope.value
+                    ? 'bg-green-600 text-white'
+                    : 'bg-green-100 text-green-700 hover:bg-green-200'
+                }`}
+              >
+                {scope.label}
+              </button>
+            ))}
+          </div>
+          <p className="text-xs text-gray-500 mt-1">
+            Applies to scans; an imported file only skips codes already listed.
+          </p>
+        </div>
+
+        <div className="space-y-2">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.enableMultiScan}
+              onChange={e => update('enableMultiScan', e.target.checked)}
+            />
+            Multi-code detection
+          </label>
+          <label className="flex items-center gap-2 text-gray-700">
+            <input
+              type="checkbox"
+              checked={config.enableRealTimeProcessing}
+              onChange={e => update('enableRealTimeProcessing', e.target.checked)}
+            />
+            Report results live (otherwise when the scanner stops)
+          </label>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ScannerSettings;
@@ -0,0 +1,158 @@
+import { useState } from 'react';
+import { getSessionName } from '../utils/sessionStore';
+import type { ScanSession } from '../types';
+
+interface SessionHistoryProps {
+  sessions: ScanSession[];
+  activeSessionId: string | null;
+  runningSessionId: string | null;
+  onOpen: (session: ScanSession) => void;
+  onRename: (session: ScanSession, name: string) => void;
+  onDelete: (session: ScanSession) => void;
+}
+
+const formatDuration = (session: ScanSession): string => {
+  if (!session.endTime) return 'in progress';
+  const seconds = Math.round((session.endTime.getTime() - session.startTime.getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m ${seconds % 60}s`;
+};
+
+const SessionHistory: React.FC<SessionHistoryProps> = ({
+  sessions,
+  activeSessionId,
+  runningSessionId,
+  onOpen,
+  onRename,
+  onDelete,
+}) => {
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+
+  const startRename = (session: ScanSession) => {
+    setEditingId(session.id);
+    setDraftName(session.name ?? '');
+  };
+
+  const commitRename = (session: ScanSession) => {
+    onRename(session, draftName);
+    setEditingId(null);
+  };
+
+  const confirmDelete = (session: ScanSession) => {
+    if (window.confirm(`Delete "${getSessionName(session)}" and its ${session.results.length} results?`)) {
+      onDelete(session);
+    }
+  };
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100">
+      <div className="p-4 border-b border-gray-200">
+        <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
+          🗂️ Session History
+          <span className="text-sm font-normal text-blue-600 bg-blue-100 px-2 py-1 rounded-full">
+            {sessions.length} sessions
+          </span>
+        </h3>
+        <p className="text-xs text-gray-500 mt-1">Every scanner start/stop is saved on this device</p>
+      </div>
+
+      <div className="overflow-y-auto" style={{ maxHeight: '320px' }}>
+        {sessions.length === 0 ? (
+          <div className="flex items-center justify-center h-24 text-sm text-gray-500">
+            No saved sessions yet
+          </div>
+        ) : (
+          <ul className="p-2 space-y-1">
+            {sessions.map(session => {
+              const isActive = session.id === activeSessionId;
+              const isRunning = session.id === runningSessionId;
+
+              return (
+                <li
+                  key={session.id}
+                  className={`p-3 rounded-lg border ${
+                    isActive ? 'bg-blue-50 border-blue-200' : 'bg-gray-50 border-gray-200'
+                  }`}
+                >
+                  {editingId === session.id ? (
+                    <form
+                      onSubmit={e => {
+                        e.preventDefault();
+                        commitRename(session);
+                      }}
+                      className="flex gap-2"
+                    >
+                      <input
+                        autoFocus
+                        value={draftName}
+                        onChange={e => setDraftName(e.target.value)}
+                        placeholder={getSessionName({ ...session, name: undefined })}
+                        className="flex-1 min-w-0 px-2 py-1 text-sm border border-gray-300 rounded"
+                      />
+                      <button type="submit" className="text-xs px-2 py-1 bg-blue-600 text-white rounded">
+                        Save
+                      </button>
+                      <button
+                        type="button"
+                        onClick={() => setEditingId(null)}
+                        className="text-xs px-2 py-1 bg-gray-200 rounded"
+                      >
+                        Cancel
+                      </button>
+                    </form>
+                  ) : (
+                    <div className="flex items-start justify-between gap-2">
+                      <div className="min-w-0">
+                        <div className="text-sm font-medium text-gray-900 truncate">
+                          {getSessionName(session)}
+                          {isRunning && (
+                            <span className="ml-2 text-xs text-green-600 font-bold">LIVE</span>
+                          )}
+                        </div>
+                        <div className="text-xs text-gray-500">
+                          {session.results.length} codes • {formatDuration(session)} • {session.config.scanMode}
+                        </div>
+                        {session.stats.framesProcessed > 0 && (
+                          <div className="text-xs text-gray-400 font-mono">
+                            {session.stats.fps.toFixed(1)} fps • {session.stats.averageProcessingTime.toFixed(1)} ms/frame
+                            {' '}• {session.stats.droppedFrames ?? 0} dropped
+                          </div>
+                        )}
+                      </div>
+                      <div className="flex gap-1 shrink-0">
+                        {!isActive && !runningSessionId && (
+                          <button
+                            onClick={() => onOpen(session)}
+                            className="text-xs px-2 py-1 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded transition-colors"
+                          >
+                            Open
+                          </button>
+                        )}
+                        <button
+                          onClick={() => startRename(session)}
+                          className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
+                        >
+                          Rename
+                        </button>
+                        {!isRunning && (
+                          <button
+                            onClick={() => confirmDelete(session)}
+                            className="text-xs px-2 py-1 bg-red-100 text-red-700 hover:bg-red-200 rounded transition-colors"
+                          >
+                            Delete
+                          </button>
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </li>
+              );
+            })}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SessionHistory;
@@ -0,0 +1,85 @@
+import { countParts, formatParity } from '../utils/structuredAppend';
+import type { StructuredAppendSet } from '../types';
+
+interface StructuredAppendProgressProps {
+  sets: StructuredAppendSet[];
+  onAccept: (set: StructuredAppendSet) => void; // Use a set that failed its parity check anyway
+  onDiscard: (set: StructuredAppendSet) => void;
+}
+
+// Multi-symbol (Structured Append) messages still being collected
+const StructuredAppendProgress: React.FC<StructuredAppendProgressProps> = ({
+  sets,
+  onAccept,
+  onDiscard,
+}) => {
+  if (sets.length === 0) return null;
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          🧩 Multi-Part Codes
+        </h3>
+        <p className="text-sm text-gray-600">
+          These QR codes are parts of a longer message. Scan the rest and they are joined into one result.
+        </p>
+      </div>
+
+      <ul className="space-y-3">
+        {sets.map((set) => {
+          const collected = countParts(set);
+          return (
+            <li key={set.key} className="border border-gray-200 rounded-lg p-3 space-y-2">
+              <div className="flex items-center justify-between text-sm">
+                <span className="font-medium text-gray-800">
+                  {collected} of {set.total} collected
+                </span>
+                <span className="text-xs text-gray-500 font-mono">parity {formatParity(set.parity)}</span>
+              </div>
+
+              <div className="flex gap-1">
+                {set.parts.map((part, index) => (
+                  <span
+                    key={index}
+                    title={part ?? `Part ${index + 1} not scanned yet`}
+                    className={`flex-1 text-center text-xs rounded py-0.5 ${
+                      part !== null ? 'bg-green-100 text-green-800' : 'bg-gray-100 text-gray-400'
+                    }`}
+                  >
+                    {index + 1}
+                  </span>
+                ))}
+              </div>
+
+              {set.parityMismatch !== undefined && (
+                <div className="bg-red-100 border border-red-400 text-red-700 px-3 py-2 rounded text-xs space-y-2">
+                  <p>
+                    Parity check failed: the joined text has parity {formatParity(set.parityMismatch)}, but the codes
+                    say {formatParity(set.parity)}. A part may have been misread or belong to another message with
+                    the same number of parts.
+                  </p>
+                  <button
+                    onClick={() => onAccept(set)}
+                    className="text-xs px-2 py-1 bg-red-600 hover:bg-red-700 text-white rounded transition-colors"
+                  >
+                    Use anyway
+                  </button>
+                </div>
+              )}
+
+              <button
+                onClick={() => onDiscard(set)}
+                className="text-xs text-gray-500 hover:text-red-600 transition-colors"
+              >
+                Discard parts
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+    </div>
+  );
+};
+
+export default StructuredAppendProgress;
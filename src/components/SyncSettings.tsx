@@ -0,0 +1,184 @@
+import { DEFAULT_PAYLOAD_TEMPLATES, validateSyncConfig } from '../utils/outbox';
+import type { OutboxEntry, SyncConfig } from '../types';
+
+interface SyncSettingsProps {
+  config: SyncConfig;
+  onChange: (config: SyncConfig) => void;
+  entries: OutboxEntry[];
+  onSyncNow: () => void;
+  onRetryFailed: () => void;
+  onClearSynced: () => void;
+}
+
+const SYNC_MODES: { value: SyncConfig['mode']; label: string }[] = [
+  { value: 'scan', label: 'Each new code' },
+  { value: 'session', label: 'Finished sessions' },
+];
+
+// Where scans are pushed; requests are rendered when queued, so edits apply to new scans only
+const SyncSettings: React.FC<SyncSettingsProps> = ({
+  config,
+  onChange,
+  entries,
+  onSyncNow,
+  onRetryFailed,
+  onClearSynced,
+}) => {
+  const update = <K extends keyof SyncConfig>(key: K, value: SyncConfig[K]) => {
+    onChange({ ...config, [key]: value });
+  };
+
+  const error = config.enabled ? validateSyncConfig(config) : null;
+  const counts = {
+    pending: entries.filter(entry => entry.status === 'pending').length,
+    synced: entries.filter(entry => entry.status === 'synced').length,
+    failed: entries.filter(entry => entry.status === 'failed').length,
+  };
+  const lastFailure = entries.find(entry => entry.status === 'failed');
+
+  return (
+    <div className="bg-white rounded-xl shadow-lg border border-gray-100 p-6">
+      <div className="mb-4">
+        <h3 className="text-lg font-semibold text-gray-900 mb-1 flex items-center gap-2">
+          ☁️ Sync
+        </h3>
+        <p className="text-xs text-gray-500">
+          Scans are queued on the device and sent when there is a connection
+        </p>
+      </div>
+
+      <div className="space-y-4 text-sm">
+        <label className="flex items-center gap-2 text-gray-700">
+          <input
+            type="checkbox"
+            checked={config.enabled}
+            onChange={e => update('enabled', e.target.checked)}
+          />
+          Send scans to an endpoint
+        </label>
+
+        {config.enabled && (
+          <>
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Endpoint URL</span>
+              <input
+                type="url"
+                value={config.endpoint}
+                onChange={e => update('endpoint', e.target.value.trim())}
+                placeholder="https://example.com/api/scans"
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+
+            <div>
+              <label className="block font-medium text-gray-700 mb-2">Send</label>
+              <div className="grid grid-cols-2 gap-2">
+                {SYNC_MODES.map(mode => (
+                  <button
+                    key={mode.value}
+                    onClick={() => update('mode', mode.value)}
+                    className={`px-3 py-2 rounded-lg text-xs font-medium transition-colors ${
+                      config.mode === mode.value
+                        ? 'bg-blue-600 text-white'
+                        : 'bg-blue-100 text-blue-700 hover:bg-blue-200'
+                    }`}
+                  >
+                    {mode.label}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Auth token</span>
+              <input
+                type="password"
+                value={config.authToken}
+                onChange={e => update('authToken', e.target.value)}
+                placeholder="Sent as a Bearer token"
+                autoComplete="off"
+                className="w-full px-2 py-1 border border-gray-300 rounded"
+              />
+            </label>
+
+            <label className="block">
+              <span className="block font-medium text-gray-700 mb-1">Extra headers</span>
+              <textarea
+                value={config.headers}
+                onChange={e => update('headers', e.target.value)}
+                rows={2}
+                placeholder="X-Device-Id: dock-3"
+                className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+              />
+            </label>
+
+            <label className="block">
+              <span className="flex justify-between font-medium text-gray-700 mb-1">
+                <span>Payload template</span>
+                {config.payloadTemplate && (
+                  <button
+                    onClick={() => update('payloadTemplate', '')}
+                    className="text-xs font-normal text-blue-600 hover:underline"
+                  >
+                    Default
+                  </button>
+                )}
+              </span>
+              <textarea
+                value={config.payloadTemplate || DEFAULT_PAYLOAD_TEMPLATES[config.mode]}
+                onChange={e => update('payloadTemplate', e.target.value)}
+                rows={6}
+                className="w-full px-2 py-1 text-xs font-mono border border-gray-300 rounded"
+              />
+              <span className="block text-xs text-gray-500 mt-1">
+                {config.mode === 'scan'
+                  ? '{{text}} {{format}} {{timestamp}} {{source}} {{sourceName}} {{confidence}} {{gtin}} {{id}} {{sessionId}} {{sessionName}} {{result}}'
+                  : '{{sessionId}} {{sessionName}} {{startTime}} {{endTime}} {{count}} {{results}}'}
+              </span>
+            </label>
+
+            {error && <p className="text-xs text-red-600">{error}</p>}
+          </>
+        )}
+
+        {entries.length > 0 && (
+          <div className="pt-2 border-t border-gray-100 space-y-2">
+            <div className="flex gap-3 text-xs">
+              <span className="text-yellow-700">{counts.pending} pending</span>
+              <span className="text-green-700">{counts.synced} synced</span>
+              <span className="text-red-700">{counts.failed} failed</span>
+            </div>
+            {lastFailure?.lastError && (
+              <p className="text-xs text-red-600">Last failure: {lastFailure.lastError}</p>
+            )}
+            <div className="flex gap-2">
+              <button
+                onClick={onSyncNow}
+                disabled={counts.pending === 0}
+                className="flex-1 text-xs px-3 py-2 bg-blue-100 hover:bg-blue-200 text-blue-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Sync now
+              </button>
+              <button
+                onClick={onRetryFailed}
+                disabled={counts.failed === 0}
+                className="flex-1 text-xs px-3 py-2 bg-red-100 hover:bg-red-200 text-red-700 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Retry failed
+              </button>
+              <button
+                onClick={onClearSynced}
+                disabled={counts.synced === 0}
+                className="flex-1 text-xs px-3 py-2 bg-gray-200 hover:bg-gray-300 rounded-lg transition-colors disabled:opacity-50"
+              >
+                Clear synced
+              </button>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default SyncSettings;
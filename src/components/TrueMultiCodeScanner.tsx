@@ -1,32 +1,130 @@
-import React, { useState, useRef, useCallback, useEffect } from "react";
-import jsQR from "jsqr";
-import type { ScanResult } from "../types";
+import React, { useState, useRef, useCallback, useEffect, useMemo } from "react";
+import { createCameraSource } from "../utils/cameraSource";
+import {
+  applyCameraPreferences,
+  focusAt,
+  getCameraCapabilities,
+  getCameraSelector,
+  listCameras,
+  loadCameraPreferences,
+  setTorch,
+  setZoom,
+} from "../utils/cameraControls";
+import type { CameraSource, StillCameraSource } from "../utils/cameraSource";
+import { FORMAT_LABELS, SUPPORTED_FORMATS } from "../utils/formats";
+import {
+  DEFAULT_SCANNER_CONFIG,
+  getResolutionConstraints,
+} from "../utils/scannerConfig";
+import { createEmptyStats } from "../utils/sessionStore";
+import { ScannerEngine } from "../scanner";
+import CameraControls from "./CameraControls";
+import DetectionOverlay from "./DetectionOverlay";
+import ProcessingStatsHud from "./ProcessingStatsHud";
+import type {
+  BarcodeFormatName,
+  CameraCapabilities,
+  CameraPreferences,
+  DetectionState,
+  ExpectedItem,
+  OverlayDetection,
+  ProcessingStats,
+  ScannerConfig,
+  ScanResult,
+} from "../types";
+
+// How long an outline stays on screen after its code was last decoded
+const OVERLAY_TTL_MS = 400;
+// How often the stats HUD refreshes
+const STATS_REFRESH_MS = 250;
+// How long the tap-to-focus ring stays visible
+const FOCUS_RING_MS = 800;
+const CAMERA_PREFERENCES_KEY = "multiQRScannerCamera";
+
+const SCAN_MODE_LABELS: Record<ScannerConfig["scanMode"], string> = {
+  continuous: "Scanning...",
+  "single-shot": "Single shot...",
+  burst: "Burst...",
+};
 
 interface TrueMultiCodeScannerProps {
   onResults: (results: ScanResult[]) => void;
   onSingleResult?: (result: ScanResult) => void;
-  maxCodes?: number; // Default to 10
+  maxCodes?: number; // Stop the session after this many codes (default: no limit)
+  defaultFormats?: BarcodeFormatName[]; // Default to the config's allow-list
+  onFormatsChange?: (formats: BarcodeFormatName[]) => void; // The user changed the allow-list (never to an empty one)
+  config?: ScannerConfig;
+  onSessionStart?: (config: ScannerConfig) => void; // Camera is live
+  onSessionEnd?: (stats: ProcessingStats) => void; // Camera stopped, all results delivered
+  cameraSource?: CameraSource; // Defaults to the platform's camera; inject a fake to test either path
+  stopWhenMatched?: ExpectedItem[]; // Expected-list mode: stop once every one of these has been seen
+  autoStart?: boolean; // Start the camera once on mount instead of waiting for the button
+  onError?: (message: string) => void; // Camera errors, as shown to the user
 }
 
+// Camera UI around a ScannerEngine: the engine owns the frame loop, decoding,
+// de-duplication and stop conditions; this component opens the camera, drives the
+// lens/torch/zoom controls and turns the engine's events into state.
 const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
   onResults,
   onSingleResult,
-  maxCodes = 10,
+  maxCodes,
+  defaultFormats,
+  onFormatsChange,
+  config = DEFAULT_SCANNER_CONFIG,
+  onSessionStart,
+  onSessionEnd,
+  cameraSource,
+  stopWhenMatched,
+  autoStart = false,
+  onError,
 }) => {
   const [isScanning, setIsScanning] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [scannedCount, setScannedCount] = useState(0);
   const [showPopup, setShowPopup] = useState(false);
   const [lastScannedCode, setLastScannedCode] = useState<string>("");
+  const [overlayDetections, setOverlayDetections] = useState<OverlayDetection[]>([]);
+  const [frameSize, setFrameSize] = useState({ width: 0, height: 0 });
+  const [showStats, setShowStats] = useState(false);
+  const [liveStats, setLiveStats] = useState<ProcessingStats>(createEmptyStats);
+  const [enabledFormats, setEnabledFormats] =
+    useState<BarcodeFormatName[]>(defaultFormats ?? config.formats);
+  // Native still capture: the photo being shown and whether one is being taken/decoded
+  const [stillUrl, setStillUrl] = useState<string | null>(null);
+  const [isCapturing, setIsCapturing] = useState(false);
+  // Lens, torch and zoom (remembered across sessions) and what the live track supports
+  const [cameraPrefs, setCameraPrefs] = useState<CameraPreferences>(() =>
+    loadCameraPreferences(localStorage.getItem(CAMERA_PREFERENCES_KEY))
+  );
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [cameraCapabilities, setCameraCapabilities] = useState<CameraCapabilities | null>(null);
+  const [focusPoint, setFocusPoint] = useState<{ x: number; y: number } | null>(null);
 
+  // Stream from getUserMedia on the web, full-resolution stills in the native shell
+  const source = useMemo(() => cameraSource ?? createCameraSource(), [cameraSource]);
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
-  const streamRef = useRef<MediaStream | null>(null);
-  const isScanningRef = useRef(false);
-  const lastScanTimeRef = useRef(0);
-  const animationFrameIdRef = useRef<number | null>(null);
-  const scannedCodesSetRef = useRef<Set<string>>(new Set());
+  const engineRef = useRef<ScannerEngine | null>(null);
+  // Config for the running session, frozen when the scanner starts
+  const sessionConfigRef = useRef<ScannerConfig>(config);
+  const cameraPrefsRef = useRef(cameraPrefs);
+  const autoStartedRef = useRef(false);
+  const onResultsRef = useRef(onResults);
+  const onSingleResultRef = useRef(onSingleResult);
+  const onSessionEndRef = useRef(onSessionEnd);
+  const onErrorRef = useRef(onError);
+
+  useEffect(() => {
+    onResultsRef.current = onResults;
+    onSingleResultRef.current = onSingleResult;
+    onSessionEndRef.current = onSessionEnd;
+    onErrorRef.current = onError;
+  }, [onResults, onSingleResult, onSessionEnd, onError]);
+
+  useEffect(() => {
+    if (error) onErrorRef.current?.(error);
+  }, [error]);
 
   // Platform detection
   const platformInfo = {
@@ -38,294 +136,259 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
       ),
   };
 
-  // DEVICE-SPECIFIC video constraints
+  // DEVICE-SPECIFIC video constraints for the chosen lens, scaled by the configured resolution
   const getVideoConstraints = useCallback(() => {
-    if (platformInfo.isMobile) {
-      // MOBILE OPTIMIZED - Lower resolution, lower FPS for stability
-      if (platformInfo.isIOS) {
-        return {
-          facingMode: "environment",
-          width: { ideal: 1280, max: 1920 },
-          height: { ideal: 720, max: 1080 },
-          frameRate: { ideal: 30, max: 60 },
-        };
-      } else {
-        return {
-          facingMode: "environment",
-          width: { ideal: 1920, max: 2560 },
-          height: { ideal: 1080, max: 1440 },
-          frameRate: { ideal: 30, max: 60 },
-        };
-      }
-    } else {
-      // DESKTOP OPTIMIZED - High resolution, high FPS for maximum speed
-      return {
-        facingMode: "environment",
-        width: { ideal: 2560, max: 3840 },
-        height: { ideal: 1440, max: 2160 },
-        frameRate: { ideal: 60, max: 120 },
-      };
-    }
+    return {
+      ...getCameraSelector(cameraPrefsRef.current),
+      ...getResolutionConstraints(sessionConfigRef.current.cameraResolution, {
+        isMobile: platformInfo.isMobile,
+        isIOS: platformInfo.isIOS,
+      }),
+    };
   }, [platformInfo.isMobile, platformInfo.isIOS]);
 
-  // SIMPLE FAST VERSION - Back to basics
-  const detectMultipleCodes = useCallback(() => {
-    if (!videoRef.current || !canvasRef.current) {
-      console.log("Video or canvas not ready");
-      return;
+  const reportResults = useCallback((results: ScanResult[]) => {
+    if (results.length === 0) return;
+    if (results.length === 1 && onSingleResultRef.current) {
+      onSingleResultRef.current(results[0]);
     }
-    const video = videoRef.current;
-    const canvas = canvasRef.current;
+    onResultsRef.current?.(results);
+  }, []);
 
-    if (!video.videoWidth || !video.videoHeight) {
-      console.log(
-        "Video dimensions not ready:",
-        video.videoWidth,
-        video.videoHeight
-      );
-      return;
-    }
+  // Stop scanning: the engine hands over held-back results, releases the camera
+  // and reports the session's stats through its stop event
+  const stopCamera = useCallback(() => {
+    console.log("Stopping camera...");
+    engineRef.current?.stop();
+  }, []);
 
-    canvas.width = video.videoWidth;
-    canvas.height = video.videoHeight;
+  // Read what a newly opened track can do, restore the remembered torch/zoom and refresh
+  // the lens list (device labels only appear once camera permission has been granted)
+  const setupTrack = useCallback(async (stream: MediaStream) => {
+    const track = stream.getVideoTracks()[0];
+    if (!track) return;
 
-    const ctx = canvas.getContext("2d", { 
-      willReadFrequently: true,
-      ...(platformInfo.isMobile ? {} : { desynchronized: true, alpha: false })
-    });
-    if (!ctx) {
-      console.log("Canvas context not available");
-      return;
+    const capabilities = getCameraCapabilities(track);
+    setCameraCapabilities(capabilities);
+    try {
+      await applyCameraPreferences(track, cameraPrefsRef.current, capabilities);
+    } catch (error) {
+      console.warn("Could not restore camera settings:", error);
     }
+    setCameras(await listCameras());
+  }, []);
 
-    ctx.drawImage(video, 0, 0);
-    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
-
-    const results: ScanResult[] = [];
-    const newCodes = new Set<string>();
+  // Swap lenses without ending the session: the engine's frame loop keeps running and
+  // simply skips frames until the new stream has dimensions
+  const reopenStream = useCallback(async () => {
+    const engine = engineRef.current;
+    if (source.kind !== "stream" || !engine?.track) return;
 
-    console.log("Scanning frame:", canvas.width, "x", canvas.height);
+    // Release the old camera first - iOS only lets one be open at a time
+    engine.replaceStream(null);
+    setCameraCapabilities(null);
 
-    // Strategy 1: Scan the entire frame
     try {
-      const result = jsQR(imageData.data, imageData.width, imageData.height, {
-        inversionAttempts: "attemptBoth"
-      });
-      if (result && !scannedCodesSetRef.current.has(result.data)) {
-        console.log("Found QR code in full frame:", result.data);
-        results.push({
-          id: `true-multi-${Date.now()}-${Math.random()}`,
-          text: result.data,
-          timestamp: new Date(),
-          format: "QR_CODE",
-          source: "camera" as const,
-        });
-        newCodes.add(result.data);
-      }
+      const stream = await source.open(getVideoConstraints());
+      if (!engine.replaceStream(stream)) return;
+      await setupTrack(stream);
     } catch (error) {
-      console.error("Full frame scan error:", error);
+      console.error("Camera switch error:", error);
+      setError(
+        `Camera error: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
     }
+  }, [source, getVideoConstraints, setupTrack]);
+
+  const updateCameraPrefs = useCallback(
+    (changes: Partial<CameraPreferences>, reopen = false) => {
+      const next = { ...cameraPrefsRef.current, ...changes };
+      cameraPrefsRef.current = next;
+      setCameraPrefs(next);
+      if (reopen && engineRef.current?.isRunning) {
+        reopenStream();
+      }
+    },
+    [reopenStream]
+  );
 
-    // Strategy 2: Scan 3x3 grid (9 regions) for better multi-code detection
-    const gridSize = 3;
-    const regionWidth = Math.floor(canvas.width / gridSize);
-    const regionHeight = Math.floor(canvas.height / gridSize);
-
-    for (let row = 0; row < gridSize; row++) {
-      for (let col = 0; col < gridSize; col++) {
-        try {
-          const regionCanvas = document.createElement("canvas");
-          const regionCtx = regionCanvas.getContext("2d");
-          if (regionCtx) {
-            regionCanvas.width = regionWidth;
-            regionCanvas.height = regionHeight;
-
-            // Extract region from main canvas
-            regionCtx.drawImage(
-              canvas,
-              col * regionWidth,
-              row * regionHeight,
-              regionWidth,
-              regionHeight,
-              0,
-              0,
-              regionWidth,
-              regionHeight
-            );
+  const selectCamera = (deviceId: string | undefined) => {
+    // A different lens has its own zoom range
+    updateCameraPrefs({ deviceId, zoom: undefined }, true);
+  };
 
-            const regionImageData = regionCtx.getImageData(
-              0,
-              0,
-              regionWidth,
-              regionHeight
-            );
+  const toggleFacing = () => {
+    updateCameraPrefs(
+      {
+        facing: cameraPrefs.facing === "environment" ? "user" : "environment",
+        deviceId: undefined,
+        zoom: undefined,
+      },
+      true
+    );
+  };
 
-            const result = jsQR(
-              regionImageData.data,
-              regionImageData.width,
-              regionImageData.height,
-              {
-                inversionAttempts: "attemptBoth"
-              }
-            );
+  const toggleTorch = () => {
+    const track = engineRef.current?.track;
+    const torch = !cameraPrefs.torch;
+    updateCameraPrefs({ torch });
+    if (track && cameraCapabilities?.torch) {
+      setTorch(track, torch).catch((error) => console.warn("Torch error:", error));
+    }
+  };
 
-            if (
-              result &&
-              !scannedCodesSetRef.current.has(result.data) &&
-              !newCodes.has(result.data)
-            ) {
-              console.log(
-                `Found QR code in region [${row},${col}]:`,
-                result.data
-              );
-              results.push({
-                id: `true-multi-grid-${row}-${col}-${Date.now()}-${Math.random()}`,
-                text: result.data,
-                timestamp: new Date(),
-                format: "QR_CODE",
-                source: "camera" as const,
-              });
-              newCodes.add(result.data);
-            }
-          }
-        } catch (error) {
-          console.error(`Grid region [${row},${col}] scan error:`, error);
-        }
-      }
+  const changeZoom = (zoom: number) => {
+    const track = engineRef.current?.track;
+    updateCameraPrefs({ zoom });
+    if (track && cameraCapabilities?.zoom) {
+      setZoom(track, zoom).catch((error) => console.warn("Zoom error:", error));
     }
+  };
 
-    // Strategy 3: Scan quadrants as backup
-    const quadrants = [
-      { name: "top-left", x: 0, y: 0, w: 0.5, h: 0.5 },
-      { name: "top-right", x: 0.5, y: 0, w: 0.5, h: 0.5 },
-      { name: "bottom-left", x: 0, y: 0.5, w: 0.5, h: 0.5 },
-      { name: "bottom-right", x: 0.5, y: 0.5, w: 0.5, h: 0.5 },
-    ];
+  // Map the tap through object-cover's scale-and-crop to 0..1 frame coordinates
+  const handleTapToFocus = (e: React.MouseEvent<HTMLDivElement>) => {
+    const track = engineRef.current?.track;
+    if (!track || !cameraCapabilities?.focus || !frameSize.width || !frameSize.height) return;
+
+    const rect = e.currentTarget.getBoundingClientRect();
+    const scale = Math.max(rect.width / frameSize.width, rect.height / frameSize.height);
+    const offsetX = (rect.width - frameSize.width * scale) / 2;
+    const offsetY = (rect.height - frameSize.height * scale) / 2;
+    const x = (e.clientX - rect.left - offsetX) / (frameSize.width * scale);
+    const y = (e.clientY - rect.top - offsetY) / (frameSize.height * scale);
+
+    setFocusPoint({ x: e.clientX - rect.left, y: e.clientY - rect.top });
+    setTimeout(() => setFocusPoint(null), FOCUS_RING_MS);
+    focusAt(track, {
+      x: Math.min(1, Math.max(0, x)),
+      y: Math.min(1, Math.max(0, y)),
+    }).catch((error) => console.warn("Focus error:", error));
+  };
 
-    for (const quadrant of quadrants) {
-      try {
-        const quadrantCanvas = document.createElement("canvas");
-        const quadrantCtx = quadrantCanvas.getContext("2d");
-        if (quadrantCtx) {
-          quadrantCanvas.width = Math.floor(canvas.width * quadrant.w);
-          quadrantCanvas.height = Math.floor(canvas.height * quadrant.h);
-
-          quadrantCtx.drawImage(
-            canvas,
-            Math.floor(canvas.width * quadrant.x),
-            Math.floor(canvas.height * quadrant.y),
-            Math.floor(canvas.width * quadrant.w),
-            Math.floor(canvas.height * quadrant.h),
-            0,
-            0,
-            quadrantCanvas.width,
-            quadrantCanvas.height
-          );
+  // Merge this frame's detections into the overlay, keeping recent ones briefly so outlines don't flicker
+  const updateOverlay = useCallback(
+    (decoded: ScanResult[], states: Map<string, DetectionState>) => {
+      const now = Date.now();
+      setOverlayDetections((prev) => {
+        const next = new Map<string, OverlayDetection>();
+        prev.forEach((detection) => {
+          if (now - detection.lastSeen < OVERLAY_TTL_MS) {
+            next.set(detection.text, detection);
+          }
+        });
+        decoded.forEach((result) => {
+          if (!result.boundingBox) return;
+          next.set(result.text, {
+            text: result.text,
+            state: states.get(result.text) ?? "new",
+            boundingBox: result.boundingBox,
+            lastSeen: now,
+          });
+        });
+        return Array.from(next.values());
+      });
+    },
+    []
+  );
 
-          const quadrantImageData = quadrantCtx.getImageData(
-            0,
-            0,
-            quadrantCanvas.width,
-            quadrantCanvas.height
-          );
+  // One engine per mounted scanner; its events drive the component's state
+  useEffect(() => {
+    const engine = new ScannerEngine();
+    engineRef.current = engine;
 
-          const result = jsQR(
-            quadrantImageData.data,
-            quadrantImageData.width,
-            quadrantImageData.height,
-            {
-              inversionAttempts: "attemptBoth"
-            }
-          );
+    engine.on("start", () => setIsScanning(true));
 
-          if (
-            result &&
-            !scannedCodesSetRef.current.has(result.data) &&
-            !newCodes.has(result.data)
-          ) {
-            console.log(`Found QR code in ${quadrant.name}:`, result.data);
-            results.push({
-              id: `true-multi-${quadrant.name}-${Date.now()}-${Math.random()}`,
-              text: result.data,
-              timestamp: new Date(),
-              format: "QR_CODE",
-              source: "camera" as const,
-            });
-            newCodes.add(result.data);
-          }
-        }
-      } catch (error) {
-        console.error(`${quadrant.name} scan error:`, error);
+    engine.on("frame", ({ decoded, states, size }) => {
+      if (size) {
+        setFrameSize((prev) =>
+          prev.width === size.width && prev.height === size.height ? prev : size
+        );
       }
-    }
+      updateOverlay(decoded, states);
+    });
 
-    // Report all found codes
-    if (results.length > 0) {
+    engine.on("codes", (newCodes) => {
       console.log(
-        `Detected ${results.length} QR code(s):`,
-        results.map((r) => r.text)
+        `Detected ${newCodes.length} code(s):`,
+        newCodes.map((r) => r.text)
       );
+      setScannedCount(engine.scannedCount);
 
-      // Add to scanned codes to prevent duplicates
-      newCodes.forEach((code) => scannedCodesSetRef.current.add(code));
-
-      // Update count and show popup for each new code
-      results.forEach((result) => {
-        setScannedCount((prev) => {
-          const newCount = prev + 1;
-          if (newCount <= maxCodes) {
-            // Show popup for scanned code
-            setLastScannedCode(result.text);
-            setShowPopup(true);
-
-            // Auto-hide popup after 500ms (lightning fast)
-            setTimeout(() => setShowPopup(false), 500);
-
-            // Check if we've reached the limit - STOP IMMEDIATELY
-            if (newCount === maxCodes) {
-              console.log(`Reached ${maxCodes} codes limit, stopping camera IMMEDIATELY`);
-              stopCamera(); // Stop immediately, no delay
-            }
-          }
-          return newCount;
-        });
-      });
+      // Show popup for the latest code, auto-hide after 500ms (lightning fast)
+      setLastScannedCode(newCodes[newCodes.length - 1].text);
+      setShowPopup(true);
+      setTimeout(() => setShowPopup(false), 500);
+    });
 
-      if (results.length > 0) {
-        if (results.length === 1 && onSingleResult) {
-          onSingleResult(results[0]);
-        }
-        if (onResults) {
-          onResults(results);
-        }
-      }
-    }
-  }, [onResults, onSingleResult, maxCodes]);
+    engine.on("results", reportResults);
 
-  // ORIGINAL WORKING VERSION - EXACT copy from test file
-  const scanFrame = useCallback(() => {
-    if (!isScanningRef.current) {
-      console.log("Scanning stopped, exiting scanFrame");
-      return;
-    }
+    engine.on("stop", (stats) => {
+      setIsScanning(false);
+      setOverlayDetections([]);
+      setStillUrl(null);
+      setCameraCapabilities(null);
+      onSessionEndRef.current?.(stats);
+      console.log("Camera stopped");
+    });
+
+    engine.on("error", (error) => {
+      console.error("Frame decode error:", error);
+    });
 
-    const now = Date.now();
-    const scanInterval = platformInfo.isMobile ? 16 : 2; // 60 FPS mobile, 500 FPS desktop
-    if (now - lastScanTimeRef.current > scanInterval) {
-      // Device-specific scanning intervals
-      console.log("Running scan frame...");
-      detectMultipleCodes();
-      lastScanTimeRef.current = now;
+    // Ends any running session (delivering its results) and shuts the decoder down
+    return () => {
+      engine.dispose();
+      engineRef.current = null;
+    };
+  }, [updateOverlay, reportResults]);
+
+  // Native path: take one full-resolution photo and decode it in chunks like an imported image
+  const captureStill = useCallback(async (still: StillCameraSource) => {
+    setIsCapturing(true);
+    try {
+      const photo = await still.capture();
+      const engine = engineRef.current;
+      if (!photo || !engine?.isRunning) return;
+      setStillUrl(URL.createObjectURL(photo));
+      await engine.scanPhoto(photo);
+    } catch (error) {
+      console.error("Photo capture error:", error);
+      setError(
+        `Camera error: ${error instanceof Error ? error.message : "Unknown error"}`
+      );
+    } finally {
+      setIsCapturing(false);
     }
+  }, []);
 
-    animationFrameIdRef.current = requestAnimationFrame(scanFrame);
-  }, [detectMultipleCodes]);
+  const toggleFormat = (format: BarcodeFormatName) => {
+    const next = enabledFormats.includes(format)
+      ? enabledFormats.filter((f) => f !== format)
+      : SUPPORTED_FORMATS.filter((f) => f === format || enabledFormats.includes(f));
+    setEnabledFormats(next);
+    // Image files are scanned for the same formats; with none ticked they keep the last list
+    if (next.length > 0) onFormatsChange?.(next);
+  };
 
   // Start scanning
   const startScanning = useCallback(async () => {
     console.log("Starting camera...");
     setError(null);
-    scannedCodesSetRef.current = new Set();
+    const engine = engineRef.current;
+    if (!engine) return;
+
+    if (enabledFormats.length === 0) {
+      setError("Select at least one barcode format to scan.");
+      return;
+    }
+    sessionConfigRef.current = config;
+    const sessionOptions = {
+      config,
+      formats: enabledFormats,
+      maxCodes,
+      stopWhenMatched: stopWhenMatched?.map((item) => item.code),
+    };
+    setLiveStats(createEmptyStats());
     setScannedCount(0);
     
     // Clear any existing results to start fresh
@@ -333,6 +396,14 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
       onResults([]); // Send empty results to clear the display
     }
 
+    if (source.kind === "still") {
+      // No live preview to wait for: the session runs until stopped, one photo per capture
+      engine.start({}, sessionOptions);
+      onSessionStart?.(config);
+      captureStill(source);
+      return;
+    }
+
     try {
       if (!navigator.mediaDevices || !navigator.mediaDevices.getUserMedia) {
         setError("Camera access is not supported in this browser.");
@@ -361,46 +432,43 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
       console.log("Video constraints:", constraints);
       
       // Get camera stream
-      const stream = await navigator.mediaDevices.getUserMedia({
-        audio: false,
-        video: constraints,
-      });
+      let stream: MediaStream;
+      try {
+        stream = await source.open(constraints);
+      } catch (openError) {
+        // A remembered lens that is no longer there (unplugged webcam, restored
+        // settings on another device): forget it and fall back to the facing direction
+        if (
+          !cameraPrefsRef.current.deviceId ||
+          !(openError instanceof Error) ||
+          openError.name !== "OverconstrainedError"
+        ) {
+          throw openError;
+        }
+        updateCameraPrefs({ deviceId: undefined, zoom: undefined });
+        stream = await source.open(getVideoConstraints());
+      }
 
       console.log("Camera stream obtained:", stream);
       console.log("Stream tracks:", stream.getTracks().map(t => ({ kind: t.kind, enabled: t.enabled })));
-      streamRef.current = stream;
-
-      if (videoRef.current) {
-        console.log("Setting video srcObject...");
-        videoRef.current.srcObject = stream;
-        videoRef.current.onloadedmetadata = () => {
-          console.log("Video metadata loaded, starting scan");
-          console.log("Video dimensions:", videoRef.current?.videoWidth, "x", videoRef.current?.videoHeight);
-          setIsScanning(true);
-          isScanningRef.current = true; // Set ref immediately
-          // Start scanning after a short delay to ensure video is ready
-          setTimeout(() => {
-            console.log("Starting scan frame loop...");
-            scanFrame();
-          }, 100);
-        };
-
-        // iOS fallback
-        if (platformInfo.isIOS) {
-          videoRef.current.oncanplay = () => {
-            console.log("Video can play, starting scan (iOS)");
-            setIsScanning(true);
-            isScanningRef.current = true; // Set ref immediately
-            setTimeout(() => {
-              console.log("Starting scan frame loop (iOS)...");
-              scanFrame();
-            }, 100);
-          };
-        }
-      } else {
+
+      if (!videoRef.current) {
         console.error("Video ref is null!");
+        stream.getTracks().forEach((track) => track.stop());
         setError("Video element not found. Please refresh the page.");
+        return;
+      }
+
+      // Unmounted while the camera was opening
+      if (engineRef.current !== engine) {
+        stream.getTracks().forEach((track) => track.stop());
+        return;
       }
+
+      // The engine plays the stream in the preview and starts reading frames once it has a size
+      engine.start({ video: videoRef.current, stream }, sessionOptions);
+      onSessionStart?.(config);
+      setupTrack(stream);
     } catch (error) {
       console.error("Camera error:", error);
 
@@ -426,56 +494,63 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
         );
       }
     }
-  }, [scanFrame, getVideoConstraints, platformInfo.isIOS]);
-
-  // Stop scanning
-  const stopCamera = useCallback(() => {
-    console.log("Stopping camera...");
-    setIsScanning(false);
-    isScanningRef.current = false;
-    
-
-
-    if (animationFrameIdRef.current) {
-      cancelAnimationFrame(animationFrameIdRef.current);
-      animationFrameIdRef.current = null;
-    }
+  }, [captureStill, setupTrack, updateCameraPrefs, source, getVideoConstraints, platformInfo.isIOS, enabledFormats, config, maxCodes, stopWhenMatched, onResults, onSessionStart]);
 
-    if (streamRef.current) {
-      streamRef.current.getTracks().forEach((track) => {
-        console.log("Stopping track:", track.kind);
-        track.stop();
-      });
-      streamRef.current = null;
-    }
-
-    if (videoRef.current) {
-      videoRef.current.srcObject = null;
-    }
+  // Deferred a tick so a mount that is immediately undone (StrictMode) doesn't open the camera
+  useEffect(() => {
+    if (!autoStart || autoStartedRef.current) return;
+    const timer = setTimeout(() => {
+      autoStartedRef.current = true;
+      startScanning();
+    }, 0);
+    return () => clearTimeout(timer);
+  }, [autoStart, startScanning]);
+
+  // Refresh the HUD a few times a second rather than on every decoded frame
+  useEffect(() => {
+    if (!isScanning || !showStats) return;
+    const timer = setInterval(() => {
+      if (engineRef.current) setLiveStats(engineRef.current.getStats());
+    }, STATS_REFRESH_MS);
+    return () => clearInterval(timer);
+  }, [isScanning, showStats]);
 
-    console.log("Camera stopped");
-  }, []);
+  useEffect(() => {
+    localStorage.setItem(CAMERA_PREFERENCES_KEY, JSON.stringify(cameraPrefs));
+  }, [cameraPrefs]);
 
-  // Cleanup on unmount
+  // List lenses up front so one can be picked before the first start
   useEffect(() => {
-    return () => {
-      stopCamera();
+    if (source.kind !== "stream") return;
+    const refresh = () => {
+      listCameras().then(setCameras).catch(() => setCameras([]));
     };
-  }, [stopCamera]);
+    refresh();
+    navigator.mediaDevices?.addEventListener?.("devicechange", refresh);
+    return () => navigator.mediaDevices?.removeEventListener?.("devicechange", refresh);
+  }, [source]);
+
+  // Release each photo once it has been replaced or the session has ended
+  useEffect(() => {
+    if (!stillUrl) return;
+    return () => URL.revokeObjectURL(stillUrl);
+  }, [stillUrl]);
 
   return (
     <div className="max-w-md mx-auto p-4">
       <div className="bg-white rounded-lg shadow-lg overflow-hidden">
         {/* Header */}
         <div className="bg-gradient-to-r from-blue-600 to-purple-600 text-white p-4">
-          <h2 className="text-xl font-bold text-center">10 QR Code Scanner</h2>
+          <h2 className="text-xl font-bold text-center">Multi-Code Scanner</h2>
           <p className="text-center text-blue-100 text-sm mt-1">
-            Scan up to {maxCodes} QR codes simultaneously
+            {maxCodes !== undefined
+              ? `Scan up to ${maxCodes} QR codes and barcodes simultaneously`
+              : "Scan QR codes and barcodes simultaneously"}
           </p>
         </div>
 
         {/* Camera container */}
-        <div className="relative bg-gray-900 aspect-video">
+        <div className="relative bg-gray-900 aspect-video" onClick={handleTapToFocus}>
           <video
             ref={videoRef}
             autoPlay
@@ -484,6 +559,21 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
             className="w-full h-full object-cover"
           />
 
+          {/* Last photo taken by the native camera */}
+          {stillUrl && (
+            <img
+              src={stillUrl}
+              alt="Captured photo"
+              onLoad={(e) =>
+                setFrameSize({
+                  width: e.currentTarget.naturalWidth,
+                  height: e.currentTarget.naturalHeight,
+                })
+              }
+              className="absolute inset-0 w-full h-full object-cover"
+            />
+          )}
+
           {/* Overlay when camera is off */}
           {!isScanning && (
             <div className="absolute inset-0 flex items-center justify-center bg-gray-800 text-white">
@@ -499,12 +589,15 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
           {isScanning && (
             <div className="absolute inset-0 bg-black bg-opacity-20">
               <div className="absolute top-2 left-2 bg-black bg-opacity-75 text-white px-2 py-1 rounded text-xs">
-                Scanning...
+                {SCAN_MODE_LABELS[sessionConfigRef.current.scanMode]}
               </div>
               <div className="absolute bottom-2 left-1/2 transform -translate-x-1/2 bg-black bg-opacity-75 text-white px-3 py-1 rounded text-sm">
-                Multi-Code Mode: All visible QR codes will be detected
-                simultaneously
-                {platformInfo.isIOS && (
+                {source.kind === "still"
+                  ? isCapturing
+                    ? "Reading photo..."
+                    : "Take a photo: every code in it will be detected"
+                  : "Multi-Code Mode: All visible QR codes will be detected simultaneously"}
+                {source.kind === "stream" && platformInfo.isIOS && (
                   <span className="block text-xs">
                     Tap screen if scanning freezes
                   </span>
@@ -512,6 +605,26 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
               </div>
             </div>
           )}
+
+          {/* Live detection outlines */}
+          {isScanning && (
+            <DetectionOverlay
+              detections={overlayDetections}
+              frameWidth={frameSize.width}
+              frameHeight={frameSize.height}
+            />
+          )}
+
+          {/* Tap-to-focus ring */}
+          {focusPoint && (
+            <div
+              className="absolute w-12 h-12 -ml-6 -mt-6 border-2 border-yellow-300 rounded-full pointer-events-none"
+              style={{ left: focusPoint.x, top: focusPoint.y }}
+            />
+          )}
+
+          {/* Performance HUD */}
+          {isScanning && showStats && <ProcessingStatsHud stats={liveStats} />}
         </div>
 
         {/* Controls */}
@@ -522,6 +635,42 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
             </div>
           )}
 
+          {/* Lens, torch and zoom (live camera only) */}
+          {source.kind === "stream" && (
+            <CameraControls
+              cameras={cameras}
+              preferences={cameraPrefs}
+              capabilities={cameraCapabilities}
+              onSelectCamera={selectCamera}
+              onToggleFacing={toggleFacing}
+              onToggleTorch={toggleTorch}
+              onZoom={changeZoom}
+            />
+          )}
+
+          {/* Format allow-list (locked while a session is running) */}
+          <div>
+            <p className="text-xs font-medium text-gray-700 mb-2">
+              Formats to detect:
+            </p>
+            <div className="flex flex-wrap gap-1">
+              {SUPPORTED_FORMATS.map((format) => (
+                <button
+                  key={format}
+                  onClick={() => toggleFormat(format)}
+                  disabled={isScanning}
+                  className={`text-xs px-2 py-1 rounded border transition-colors disabled:opacity-60 ${
+                    enabledFormats.includes(format)
+                      ? "bg-blue-600 border-blue-600 text-white"
+                      : "bg-white border-gray-300 text-gray-600 hover:bg-gray-100"
+                  }`}
+                >
+                  {FORMAT_LABELS[format]}
+                </button>
+              ))}
+            </div>
+          </div>
+
           <div className="flex space-x-2">
             {!isScanning ? (
               <button
@@ -531,13 +680,35 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
                 Start Scanner
               </button>
             ) : (
-              <button
-                onClick={stopCamera}
-                className="flex-1 bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded transition-colors"
-              >
-                Stop Scanner
-              </button>
+              <>
+                {source.kind === "still" && (
+                  <button
+                    onClick={() => captureStill(source)}
+                    disabled={isCapturing}
+                    className="flex-1 bg-blue-600 hover:bg-blue-700 disabled:opacity-60 text-white font-bold py-3 px-4 rounded transition-colors"
+                  >
+                    📸 Take Photo
+                  </button>
+                )}
+                <button
+                  onClick={stopCamera}
+                  className="flex-1 bg-red-600 hover:bg-red-700 text-white font-bold py-3 px-4 rounded transition-colors"
+                >
+                  Stop Scanner
+                </button>
+              </>
             )}
+            <button
+              onClick={() => setShowStats((prev) => !prev)}
+              className={`px-3 rounded font-bold text-sm transition-colors ${
+                showStats
+                  ? "bg-gray-800 text-white"
+                  : "bg-gray-200 text-gray-700 hover:bg-gray-300"
+              }`}
+              title="Show performance stats on the video"
+            >
+              📊
+            </button>
           </div>
 
           {/* Progress indicator */}
@@ -546,15 +717,17 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
               <div className="flex justify-between text-sm font-medium text-blue-900">
                 <span>Scanned:</span>
                 <span>
-                  {scannedCount}/{maxCodes}
+                  {maxCodes !== undefined ? `${scannedCount}/${maxCodes}` : scannedCount}
                 </span>
               </div>
-              <div className="w-full bg-blue-200 rounded-full h-2 mt-2">
-                <div
-                  className="bg-blue-600 h-2 rounded-full transition-all duration-300"
-                  style={{ width: `${(scannedCount / maxCodes) * 100}%` }}
-                ></div>
-              </div>
+              {maxCodes !== undefined && (
+                <div className="w-full bg-blue-200 rounded-full h-2 mt-2">
+                  <div
+                    className="bg-blue-600 h-2 rounded-full transition-all duration-300"
+                    style={{ width: `${(scannedCount / maxCodes) * 100}%` }}
+                  ></div>
+                </div>
+              )}
             </div>
           )}
         </div>
@@ -588,15 +761,12 @@ const TrueMultiCodeScanner: React.FC<TrueMultiCodeScannerProps> = ({
           </ul>
         </div>
 
-        {/* Hidden canvas for processing */}
-        <canvas ref={canvasRef} className="hidden" />
-
         {/* Popup for scanned codes - Mobile Optimized */}
         {showPopup && (
           <div className="fixed top-1/2 left-1/2 transform -translate-x-1/2 -translate-y-1/2 bg-green-600 text-white px-6 py-4 rounded-lg shadow-2xl border-2 border-green-400 animate-pulse z-[9999] max-w-[90vw]">
             <div className="text-center">
               <div className="text-3xl mb-2">✅</div>
-              <div className="font-bold text-lg">QR Code Scanned!</div>
+              <div className="font-bold text-lg">Code Scanned!</div>
               <div className="text-sm mt-2 opacity-90 break-all">
                 {lastScannedCode.length > 50
                   ? lastScannedCode.substring(0, 50) + "..."
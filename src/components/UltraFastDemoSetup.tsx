@@ -1,7 +1,13 @@
 import { useState } from 'react';
+import { downloadFile } from '../utils/download';
+import { DEFAULT_QR_STYLE, buildTestPage } from '../utils/qrGenerator';
+
+// Small codes with a narrow quiet zone, so many fit in one camera frame
+const TEST_PAGE_STYLE = { ...DEFAULT_QR_STYLE, size: 150, margin: 6 };
 
 const UltraFastDemoSetup: React.FC = () => {
   const [generatedCodes, setGeneratedCodes] = useState<string[]>([]);
+  const [isBuilding, setIsBuilding] = useState(false);
   
   const sampleData = [
     'https://example.com/product/1',
@@ -41,102 +47,16 @@ const UltraFastDemoSetup: React.FC = () => {
     setGeneratedCodes(codes);
   };
 
-  const generateQRCodeHTML = (data: string, index: number) => {
-    return `
-      <div style="display: inline-block; margin: 10px; text-align: center;">
-        <div id="qr${index}" style="width: 150px; height: 150px; margin: 0 auto;"></div>
-        <p style="font-size: 10px; margin: 5px 0; word-break: break-all; width: 150px;">${data}</p>
-      </div>
-    `;
-  };
-
-  const generateTestPage = () => {
-    const qrCodes = generatedCodes.map((code, index) => generateQRCodeHTML(code, index)).join('');
-    
-    const html = `
-<!DOCTYPE html>
-<html>
-<head>
-    <title>Ultra-Fast QR Scanner Test Page</title>
-    <script src="https://cdn.jsdelivr.net/npm/qrcode@1.5.3/build/qrcode.min.js"></script>
-    <style>
-        body { 
-            font-family: Arial, sans-serif; 
-            padding: 20px; 
-            background: #f0f0f0;
-        }
-        .header {
-            text-align: center; 
-            margin-bottom: 30px;
-            background: white;
-            padding: 20px;
-            border-radius: 10px;
-            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-        }
-        .qr-grid { 
-            display: flex; 
-            flex-wrap: wrap; 
-            justify-content: center;
-            background: white;
-            padding: 20px;
-            border-radius: 10px;
-            box-shadow: 0 2px 10px rgba(0,0,0,0.1);
-        }
-        .instructions {
-            background: #e8f4f8;
-            padding: 15px;
-            border-radius: 8px;
-            margin-bottom: 20px;
-            border-left: 4px solid #2196F3;
-        }
-    </style>
-</head>
-<body>
-    <div class="header">
-        <h1>🚀 Ultra-Fast Multi QR Scanner Test</h1>
-        <p><strong>${generatedCodes.length} QR Codes</strong> for simultaneous scanning</p>
-    </div>
-    
-    <div class="instructions">
-        <h3>📋 Testing Instructions:</h3>
-        <ol>
-            <li><strong>Open your Ultra-Fast Scanner app</strong></li>
-            <li><strong>Point camera at this page</strong> - make sure multiple QR codes are visible</li>
-            <li><strong>Watch real-time detection</strong> of all visible codes simultaneously</li>
-            <li><strong>Try different arrangements:</strong> close-up for few codes, zoomed-out for many</li>
-            <li><strong>Performance target:</strong> 60fps scanning with instant multi-code recognition</li>
-        </ol>
-        <p><em>💡 Tip: Adjust your screen brightness and camera distance for optimal scanning</em></p>
-    </div>
-    
-    <div class="qr-grid">
-        ${qrCodes}
-    </div>
-
-    <script>
-        // Generate all QR codes
-        ${generatedCodes.map((code, index) => `
-        QRCode.toCanvas(document.getElementById('qr${index}'), '${code}', {
-            width: 150,
-            margin: 1,
-            color: {
-                dark: '#000000',
-                light: '#FFFFFF'
-            }
-        });`).join('')}
-        
-        console.log('Generated ${generatedCodes.length} QR codes for testing');
-    </script>
-</body>
-</html>`;
-
-    const blob = new Blob([html], { type: 'text/html' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ultra-fast-qr-test-${generatedCodes.length}-codes.html`;
-    a.click();
-    URL.revokeObjectURL(url);
+  const generateTestPage = async () => {
+    setIsBuilding(true);
+    try {
+      const html = await buildTestPage(generatedCodes, TEST_PAGE_STYLE);
+      downloadFile(html, `ultra-fast-qr-test-${generatedCodes.length}-codes.html`, 'text/html');
+    } catch (error) {
+      console.error('Failed to build the test page:', error);
+    } finally {
+      setIsBuilding(false);
+    }
   };
 
   return (
@@ -176,13 +96,15 @@ const UltraFastDemoSetup: React.FC = () => {
               </span>
               <button
                 onClick={generateTestPage}
-                className="px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition-colors"
+                disabled={isBuilding}
+                className="px-4 py-2 bg-green-600 text-white hover:bg-green-700 rounded-lg text-sm font-medium transition-colors disabled:opacity-50"
               >
-                📄 Download Test Page
+                {isBuilding ? 'Building…' : '📄 Download Test Page'}
               </button>
             </div>
             <p className="text-xs text-green-700">
-              This will create an HTML file you can open in your browser to test the scanner
+              This will create an HTML file you can open in your browser to test the scanner; the codes are
+              embedded, so it works offline
             </p>
           </div>
         )}
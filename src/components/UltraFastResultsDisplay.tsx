@@ -1,54 +1,139 @@
-import { useState, useEffect, useRef } from 'react';
-import type { ScanResult } from '../types';
+import { useState, useEffect, useMemo, useRef, useCallback } from 'react';
+import { parseImportFile } from '../utils/importer';
+import type { RejectedRow } from '../utils/importer';
+import { DEFAULT_LINK_POLICY, inspectLink } from '../utils/linkInspector';
+import type { LinkInspection } from '../utils/linkInspector';
+import { DEFAULT_RESULT_FILTER, filterAndSortResults } from '../utils/resultFilter';
+import type { ResultFilter } from '../utils/resultFilter';
+import ExportDialog from './ExportDialog';
+import LinkInterstitial from './LinkInterstitial';
+import ResultFilters from './ResultFilters';
+import type { SessionView } from './ResultFilters';
+import ResultRow from './ResultRow';
+import VirtualList from './VirtualList';
+import type { LinkPolicy, OutboxEntry, ScanResult, ScanSession } from '../types';
 
 interface UltraFastResultsDisplayProps {
   results: ScanResult[];
-  maxDisplay?: number;
   onClear?: () => void;
+  currentSession?: ScanSession | null; // Metadata for exports of the on-screen results
+  sessions?: ScanSession[]; // Saved sessions that can be exported or browsed instead
+  // Merges imported rows into the list and says how many were new
+  onImport?: (results: ScanResult[], fileName: string) => { added: number; skipped: number };
+  syncEntries?: Map<string, OutboxEntry>; // Latest outbox entry carrying each result, by result id
+  onDelete?: (ids: Set<string>) => void; // Removes results from the list and any saved session
+  linkPolicy?: LinkPolicy; // Decides which scanned links open, and which are checked first
 }
 
+interface ImportReport {
+  fileName: string;
+  added: number;
+  skipped: number;
+  rejected: RejectedRow[];
+  error?: string;
+}
+
+const LIST_HEIGHT = 500;
+const ESTIMATED_ROW_HEIGHT = 96;
+
+const getResultKey = (result: ScanResult) => result.id;
+
+const openInNewTab = (href: string) => {
+  window.open(href, '_blank', 'noopener,noreferrer');
+};
+
 const UltraFastResultsDisplay: React.FC<UltraFastResultsDisplayProps> = ({ 
   results, 
-  maxDisplay = 50,
-  onClear
+  onClear,
+  currentSession = null,
+  sessions = [],
+  onImport,
+  syncEntries,
+  onDelete,
+  linkPolicy = DEFAULT_LINK_POLICY
 }) => {
-  const [displayResults, setDisplayResults] = useState<ScanResult[]>([]);
-  const lastUpdateRef = useRef<number>(0);
+  const [filter, setFilter] = useState<ResultFilter>(DEFAULT_RESULT_FILTER);
+  const [sessionView, setSessionView] = useState<SessionView>('current');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(() => new Set());
+  const [showExport, setShowExport] = useState(false);
+  const [importReport, setImportReport] = useState<ImportReport | null>(null);
+  const [linkInspection, setLinkInspection] = useState<LinkInspection | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
   const scrollRef = useRef<HTMLDivElement>(null);
 
-  // Immediate updates for mobile compatibility
-  useEffect(() => {
-    setDisplayResults(results.slice(0, maxDisplay));
-    lastUpdateRef.current = Date.now();
-  }, [results, maxDisplay]);
+  const otherSessions = useMemo(
+    () => sessions.filter(session => session.id !== currentSession?.id),
+    [sessions, currentSession]
+  );
+
+  // The rows being browsed, before search and filters
+  const sourceRows = useMemo(() => {
+    if (sessionView === 'current') return results;
+    if (sessionView === 'all') return [...results, ...otherSessions.flatMap(session => session.results)];
+    return otherSessions.find(session => session.id === sessionView)?.results ?? [];
+  }, [sessionView, results, otherSessions]);
+
+  const visibleRows = useMemo(() => filterAndSortResults(sourceRows, filter), [sourceRows, filter]);
+  const formats = useMemo(() => Array.from(new Set(sourceRows.map(r => r.format))).sort(), [sourceRows]);
+  const selectedRows = useMemo(() => sourceRows.filter(r => selectedIds.has(r.id)), [sourceRows, selectedIds]);
+  const allVisibleSelected = visibleRows.length > 0 && visibleRows.every(r => selectedIds.has(r.id));
 
   // Auto-scroll to show new results
   useEffect(() => {
-    if (scrollRef.current) {
+    if (scrollRef.current && filter.sort === 'newest') {
       scrollRef.current.scrollTop = 0;
     }
-  }, [displayResults.length]);
-
-  const exportResults = () => {
-    const data = displayResults.map(result => ({
-      text: result.text,
-      timestamp: result.timestamp.toISOString(),
-      format: result.format,
-      confidence: result.confidence
-    }));
-
-    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = `ultra-fast-qr-results-${Date.now()}.json`;
-    a.click();
-    URL.revokeObjectURL(url);
+  }, [results.length, filter.sort]);
+
+  const toggleSelect = useCallback((id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  }, []);
+
+  // Trusted links open straight away; everything else goes through the interstitial
+  const openLink = useCallback((url: string) => {
+    const inspection = inspectLink(url, linkPolicy);
+    if (inspection.verdict === 'allowed' && inspection.href && linkPolicy.autoOpenAllowed) {
+      openInNewTab(inspection.href);
+    } else {
+      setLinkInspection(inspection);
+    }
+  }, [linkPolicy]);
+
+  const toggleSelectAll = () => {
+    setSelectedIds(allVisibleSelected ? new Set() : new Set(visibleRows.map(r => r.id)));
   };
 
-  const copyAllToClipboard = () => {
-    const allTexts = displayResults.map(r => r.text).join('\n');
-    navigator.clipboard.writeText(allTexts);
+  const deleteSelected = () => {
+    if (!onDelete || selectedRows.length === 0) return;
+    if (!window.confirm(`Delete ${selectedRows.length} result(s)? This can't be undone.`)) return;
+    onDelete(new Set(selectedRows.map(r => r.id)));
+    setSelectedIds(new Set());
+  };
+
+  const importFile = async (file: File) => {
+    try {
+      const { results: imported, rejected } = parseImportFile(await file.text(), file.name);
+      const { added, skipped } = onImport?.(imported, file.name) ?? { added: 0, skipped: imported.length };
+      setImportReport({ fileName: file.name, added, skipped, rejected });
+    } catch (error) {
+      console.error('Import failed:', error);
+      setImportReport({
+        fileName: file.name,
+        added: 0,
+        skipped: 0,
+        rejected: [],
+        error: error instanceof Error ? error.message : 'Could not read this file',
+      });
+    }
+  };
+
+  const copyToClipboard = (rows: ScanResult[]) => {
+    navigator.clipboard.writeText(rows.map(r => r.text).join('\n'));
   };
 
   return (
@@ -59,7 +144,9 @@ const UltraFastResultsDisplay: React.FC<UltraFastResultsDisplayProps> = ({
           <h3 className="text-lg font-semibold text-gray-900 flex items-center gap-2">
             ⚡ Live Results
             <span className="text-sm font-normal text-green-600 bg-green-100 px-2 py-1 rounded-full">
-              {displayResults.length} codes
+              {visibleRows.length === sourceRows.length
+                ? `${sourceRows.length} codes`
+                : `${visibleRows.length} of ${sourceRows.length}`}
             </span>
           </h3>
           <p className="text-xs text-gray-500 mt-1">Real-time • Ultra-fast processing</p>
@@ -74,126 +161,197 @@ const UltraFastResultsDisplay: React.FC<UltraFastResultsDisplayProps> = ({
             🗑️ Clear
           </button>
           <button
-            onClick={copyAllToClipboard}
+            onClick={() => copyToClipboard(visibleRows)}
             className="px-3 py-1 text-xs bg-blue-100 text-blue-700 hover:bg-blue-200 rounded-lg transition-colors"
-            title="Copy all to clipboard"
+            title="Copy the listed codes to the clipboard"
           >
             📋 Copy All
           </button>
+          {onImport && (
+            <button
+              onClick={() => importInputRef.current?.click()}
+              className="px-3 py-1 text-xs bg-purple-100 text-purple-700 hover:bg-purple-200 rounded-lg transition-colors"
+              title="Import a CSV, TSV, NDJSON or JSON export"
+            >
+              📂 Import
+            </button>
+          )}
+          <input
+            ref={importInputRef}
+            type="file"
+            accept=".csv,.tsv,.ndjson,.jsonl,.json,text/csv,text/tab-separated-values,application/json"
+            className="hidden"
+            onChange={e => {
+              const file = e.target.files?.[0];
+              if (file) importFile(file);
+              e.target.value = '';
+            }}
+          />
           <button
-            onClick={exportResults}
+            onClick={() => setShowExport(true)}
             className="px-3 py-1 text-xs bg-green-100 text-green-700 hover:bg-green-200 rounded-lg transition-colors"
-            title="Export as JSON"
+            title="Export as CSV, TSV, NDJSON or JSON"
           >
             💾 Export
           </button>
         </div>
       </div>
 
+      {/* Import report */}
+      {importReport && (
+        <div
+          className={`px-4 py-2 text-xs border-b ${
+            importReport.error ? 'bg-red-50 border-red-200 text-red-700' : 'bg-purple-50 border-purple-200 text-purple-900'
+          }`}
+        >
+          <div className="flex items-start justify-between gap-2">
+            <span>
+              <span className="font-medium">{importReport.fileName}</span>
+              {importReport.error
+                ? `: ${importReport.error}`
+                : `: ${importReport.added} added • ${importReport.skipped} skipped (already listed) • ${importReport.rejected.length} rejected`}
+            </span>
+            <button onClick={() => setImportReport(null)} className="font-bold" title="Dismiss">
+              ×
+            </button>
+          </div>
+          {importReport.rejected.length > 0 && (
+            <details className="mt-1">
+              <summary className="cursor-pointer">Rejected rows</summary>
+              <ul className="mt-1 space-y-0.5 max-h-24 overflow-y-auto">
+                {importReport.rejected.map(row => (
+                  <li key={row.row}>Row {row.row}: {row.reason}</li>
+                ))}
+              </ul>
+            </details>
+          )}
+        </div>
+      )}
+
+      <ResultFilters
+        filter={filter}
+        onChange={setFilter}
+        formats={formats}
+        sessionView={sessionView}
+        onSessionViewChange={view => {
+          setSessionView(view);
+          setSelectedIds(new Set());
+        }}
+        sessions={otherSessions}
+      />
+
+      {/* Selection */}
+      {visibleRows.length > 0 && (
+        <div className="px-4 py-2 border-b border-gray-200 flex items-center gap-2 text-xs">
+          <label className="flex items-center gap-2 text-gray-700">
+            <input type="checkbox" checked={allVisibleSelected} onChange={toggleSelectAll} />
+            {selectedRows.length > 0 ? `${selectedRows.length} selected` : 'Select all'}
+          </label>
+          {selectedRows.length > 0 && (
+            <div className="flex gap-1 ml-auto">
+              <button
+                onClick={() => copyToClipboard(selectedRows)}
+                className="px-2 py-1 bg-blue-100 text-blue-700 hover:bg-blue-200 rounded transition-colors"
+              >
+                Copy
+              </button>
+              <button
+                onClick={() => setShowExport(true)}
+                className="px-2 py-1 bg-green-100 text-green-700 hover:bg-green-200 rounded transition-colors"
+              >
+                Export
+              </button>
+              {onDelete && (
+                <button
+                  onClick={deleteSelected}
+                  className="px-2 py-1 bg-red-100 text-red-700 hover:bg-red-200 rounded transition-colors"
+                >
+                  Delete
+                </button>
+              )}
+              <button
+                onClick={() => setSelectedIds(new Set())}
+                className="px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
+              >
+                Clear
+              </button>
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Results List */}
-      <div 
-        ref={scrollRef}
-        className="flex-1 overflow-y-auto"
-        style={{ maxHeight: '500px' }}
-      >
-        {displayResults.length === 0 ? (
+      <div className="flex-1">
+        {sourceRows.length === 0 ? (
           <div className="flex items-center justify-center h-32 text-gray-500">
             <div className="text-center">
               <div className="text-3xl mb-2">🔍</div>
               <p className="text-sm">Start scanning to see results</p>
-              <p className="text-xs text-gray-400 mt-1">Up to {maxDisplay} codes supported</p>
             </div>
           </div>
-        ) : (
-          <div className="p-2 space-y-1">
-            {displayResults.map((result, index) => (
-              <div
-                key={result.id}
-                className={`p-3 rounded-lg border transition-all duration-200 ${
-                  index === 0 
-                    ? 'bg-green-50 border-green-200 shadow-sm' 
-                    : 'bg-gray-50 border-gray-200 hover:bg-gray-100'
-                }`}
+        ) : visibleRows.length === 0 ? (
+          <div className="flex items-center justify-center h-32 text-gray-500">
+            <div className="text-center">
+              <p className="text-sm">No results match the search and filters</p>
+              <button
+                onClick={() => setFilter({ ...DEFAULT_RESULT_FILTER, sort: filter.sort })}
+                className="text-xs text-blue-600 hover:underline mt-1"
               >
-                <div className="flex items-start justify-between gap-2">
-                  <div className="flex-1 min-w-0">
-                    <div className="flex items-center gap-2 mb-1">
-                      <span className="text-xs font-mono bg-blue-100 text-blue-800 px-2 py-0.5 rounded">
-                        #{index + 1}
-                      </span>
-                      <span className="text-xs text-gray-500">
-                        {result.timestamp.toLocaleTimeString()}
-                      </span>
-                      {result.confidence && (
-                        <span className="text-xs bg-green-100 text-green-800 px-1 py-0.5 rounded">
-                          {Math.round(result.confidence * 100)}%
-                        </span>
-                      )}
-                    </div>
-                    
-                    <div className="text-sm text-gray-900 break-all leading-tight">
-                      {result.text.length > 100 ? (
-                        <details className="cursor-pointer">
-                          <summary className="font-medium">
-                            {result.text.substring(0, 100)}...
-                          </summary>
-                          <div className="mt-1 text-xs text-gray-600 whitespace-pre-wrap">
-                            {result.text}
-                          </div>
-                        </details>
-                      ) : (
-                        <span className="font-medium">{result.text}</span>
-                      )}
-                    </div>
-                    
-                    {/* Quick Actions */}
-                    <div className="flex gap-1 mt-2">
-                      <button
-                        onClick={() => navigator.clipboard.writeText(result.text)}
-                        className="text-xs px-2 py-1 bg-gray-200 hover:bg-gray-300 rounded transition-colors"
-                      >
-                        Copy
-                      </button>
-                      {result.text.startsWith('http') && (
-                        <a
-                          href={result.text}
-                          target="_blank"
-                          rel="noopener noreferrer"
-                          className="text-xs px-2 py-1 bg-blue-200 hover:bg-blue-300 text-blue-800 rounded transition-colors"
-                        >
-                          Open
-                        </a>
-                      )}
-                    </div>
-                  </div>
-                  
-                  {index === 0 && (
-                    <div className="text-green-500 text-xs font-bold">
-                      NEW
-                    </div>
-                  )}
-                </div>
-              </div>
-            ))}
+                Reset filters
+              </button>
+            </div>
+          </div>
+        ) : (
+          <div className="p-2">
+            <VirtualList
+              ref={scrollRef}
+              items={visibleRows}
+              getKey={getResultKey}
+              estimatedItemHeight={ESTIMATED_ROW_HEIGHT}
+              maxHeight={LIST_HEIGHT}
+              renderItem={(result, index) => (
+                <ResultRow
+                  result={result}
+                  index={index}
+                  isLatest={index === 0 && filter.sort === 'newest'}
+                  selected={selectedIds.has(result.id)}
+                  onToggleSelect={toggleSelect}
+                  onOpenLink={openLink}
+                  syncEntry={syncEntries?.get(result.id)}
+                />
+              )}
+            />
           </div>
         )}
       </div>
 
+      {showExport && (
+        <ExportDialog
+          results={results}
+          selected={selectedRows}
+          currentSession={currentSession}
+          sessions={sessions}
+          onClose={() => setShowExport(false)}
+        />
+      )}
+
+      {linkInspection && (
+        <LinkInterstitial
+          inspection={linkInspection}
+          onOpen={href => {
+            openInNewTab(href);
+            setLinkInspection(null);
+          }}
+          onClose={() => setLinkInspection(null)}
+        />
+      )}
+
       {/* Footer Stats */}
       <div className="p-3 border-t border-gray-200 bg-gray-50">
         <div className="flex items-center justify-between text-xs text-gray-600">
-          <span>Total: {displayResults.length} codes detected</span>
-          <span>Capacity: {displayResults.length}/{maxDisplay}</span>
+          <span>Total: {sourceRows.length} codes</span>
+          <span>Showing {visibleRows.length}</span>
         </div>
-        
-        {displayResults.length > 0 && (
-          <div className="mt-1 w-full bg-gray-200 rounded-full h-1">
-            <div 
-              className="bg-green-500 h-1 rounded-full transition-all duration-300"
-              style={{ width: `${(displayResults.length / maxDisplay) * 100}%` }}
-            />
-          </div>
-        )}
       </div>
     </div>
   );
@@ -0,0 +1,103 @@
+import { useState, useMemo, useEffect } from 'react';
+
+interface VirtualListProps<T> {
+  items: T[];
+  getKey: (item: T) => string;
+  renderItem: (item: T, index: number) => React.ReactNode;
+  estimatedItemHeight: number; // Used until a row has been measured
+  maxHeight: number;
+  overscan?: number; // Extra pixels rendered above and below the viewport
+  ref?: React.Ref<HTMLDivElement>; // The scroll container
+}
+
+// Renders only the rows in (or near) view, so lists of tens of thousands stay fast.
+// Rows can be any height: each one is measured once it renders and the offsets follow.
+function VirtualList<T>({
+  items,
+  getKey,
+  renderItem,
+  estimatedItemHeight,
+  maxHeight,
+  overscan = 400,
+  ref,
+}: VirtualListProps<T>) {
+  const [scrollTop, setScrollTop] = useState(0);
+  // Measured row heights by key
+  const [heights, setHeights] = useState<Map<string, number>>(() => new Map());
+
+  const [observer] = useState(
+    () =>
+      new ResizeObserver(entries => {
+        setHeights(prev => {
+          let next: Map<string, number> | null = null;
+          entries.forEach(entry => {
+            const key = (entry.target as HTMLElement).dataset.key;
+            const height = entry.borderBoxSize?.[0]?.blockSize ?? entry.target.getBoundingClientRect().height;
+            if (key !== undefined && prev.get(key) !== height) {
+              next ??= new Map(prev);
+              next.set(key, height);
+            }
+          });
+          return next ?? prev;
+        });
+      })
+  );
+
+  useEffect(() => () => observer.disconnect(), [observer]);
+
+  // offsets[i] = top of row i; offsets[items.length] = total height
+  const offsets = useMemo(() => {
+    const result = new Float64Array(items.length + 1);
+    items.forEach((item, index) => {
+      result[index + 1] = result[index] + (heights.get(getKey(item)) ?? estimatedItemHeight);
+    });
+    return result;
+  }, [items, getKey, estimatedItemHeight, heights]);
+
+  // Last row starting at or above the given offset
+  const findIndex = (offset: number) => {
+    let low = 0;
+    let high = items.length - 1;
+    while (low < high) {
+      const mid = Math.ceil((low + high) / 2);
+      if (offsets[mid] <= offset) low = mid;
+      else high = mid - 1;
+    }
+    return Math.max(0, low);
+  };
+
+  const start = findIndex(scrollTop - overscan);
+  const end = Math.min(items.length, findIndex(scrollTop + maxHeight + overscan) + 1);
+
+  return (
+    <div
+      ref={ref}
+      className="overflow-y-auto"
+      style={{ maxHeight }}
+      onScroll={e => setScrollTop(e.currentTarget.scrollTop)}
+    >
+      <div className="relative" style={{ height: offsets[items.length] }}>
+        {items.slice(start, end).map((item, i) => {
+          const key = getKey(item);
+          return (
+            <div
+              key={key}
+              data-key={key}
+              ref={element => {
+                if (!element) return;
+                observer.observe(element);
+                return () => observer.unobserve(element);
+              }}
+              className="absolute left-0 right-0"
+              style={{ top: offsets[start + i] }}
+            >
+              {renderItem(item, start + i)}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+}
+
+export default VirtualList;
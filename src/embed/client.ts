@@ -0,0 +1,169 @@
+import { buildEmbedUrl, isEnvelope, wrapMessage } from "./protocol";
+import type {
+  EmbedErrorCode,
+  EmbedMode,
+  EmbedOptions,
+  EmbedResult,
+  HostMessage,
+  ScannerMessage,
+} from "./protocol";
+
+// Host-side helper for the embedding protocol: opens the scanner in an iframe or a popup,
+// sends the options once it is ready and turns its messages into events and one promise.
+// It only depends on protocol.ts, so it can be copied into any web app as it is.
+//
+//   const scan = openScanner({ scannerUrl: "https://scanner.example.com/", maxCodes: 1 });
+//   const outcome = await scan.finished;
+//   if (outcome.status === "done") input.value = outcome.results[0]?.text ?? "";
+
+export interface OpenScannerOptions extends EmbedOptions {
+  scannerUrl: string; // Where the scanner app is served
+  mode?: EmbedMode; // Default: iframe
+  container?: HTMLElement; // Parent for the iframe (default: document.body)
+  popupFeatures?: string; // window.open() features for the popup
+  keepOpen?: boolean; // Leave the iframe or popup open once the scan has finished
+}
+
+export type ScanOutcome =
+  | { status: "done"; results: EmbedResult[] }
+  | { status: "cancelled" }
+  | { status: "error"; code: EmbedErrorCode; message: string };
+
+type ScannerEventMap = { [M in ScannerMessage as M["type"]]: M };
+
+export interface ScannerConnection {
+  readonly frame: HTMLIFrameElement | null;
+  readonly popup: Window | null;
+  // Settles once: with the results, on cancel (either side, or the popup being closed) or on error
+  readonly finished: Promise<ScanOutcome>;
+  on<K extends keyof ScannerEventMap>(type: K, listener: (message: ScannerEventMap[K]) => void): () => void;
+  cancel(): void; // Ask the scanner to stop; finished settles as cancelled
+  close(): void; // Remove the iframe or close the popup right away
+}
+
+// How often to check whether the user closed the popup
+const POPUP_POLL_MS = 500;
+const DEFAULT_POPUP_FEATURES = "popup,width=480,height=760";
+
+const createChannelId = (): string =>
+  typeof crypto !== "undefined" && "randomUUID" in crypto
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`;
+
+export const openScanner = (options: OpenScannerOptions): ScannerConnection => {
+  const {
+    scannerUrl,
+    mode = "iframe",
+    container,
+    popupFeatures = DEFAULT_POPUP_FEATURES,
+    keepOpen = false,
+    ...embedOptions
+  } = options;
+  const scannerOrigin = new URL(scannerUrl, window.location.href).origin;
+  const channel = createChannelId();
+  const url = buildEmbedUrl(new URL(scannerUrl, window.location.href).href, {
+    mode,
+    hostOrigin: window.location.origin,
+    channel,
+  });
+
+  const listeners = new Map<string, Set<(message: never) => void>>();
+  let frame: HTMLIFrameElement | null = null;
+  let popup: Window | null = null;
+  let popupTimer: ReturnType<typeof setInterval> | null = null;
+  let settled = false;
+  let settle: (outcome: ScanOutcome) => void = () => {};
+  const finished = new Promise<ScanOutcome>((resolve) => {
+    settle = resolve;
+  });
+
+  const target = (): Window | null => (frame ? frame.contentWindow : popup);
+
+  const post = (message: HostMessage) => {
+    target()?.postMessage(wrapMessage(channel, message), scannerOrigin);
+  };
+
+  const teardown = () => {
+    window.removeEventListener("message", onMessage);
+    if (popupTimer !== null) clearInterval(popupTimer);
+    frame?.remove();
+    if (popup && !popup.closed) popup.close();
+  };
+
+  const finish = (outcome: ScanOutcome) => {
+    if (settled) return;
+    settled = true;
+    settle(outcome);
+    if (keepOpen) {
+      window.removeEventListener("message", onMessage);
+      if (popupTimer !== null) clearInterval(popupTimer);
+    } else {
+      teardown();
+    }
+  };
+
+  function onMessage(event: MessageEvent) {
+    // Only the scanner window we opened, at the origin we opened it on
+    if (event.origin !== scannerOrigin || !event.source || event.source !== target()) return;
+    if (!isEnvelope(event.data, channel)) return;
+    const message = event.data as unknown as ScannerMessage;
+
+    listeners.get(message.type)?.forEach((listener) => (listener as (message: ScannerMessage) => void)(message));
+
+    if (message.type === "ready") {
+      post({ type: "configure", options: embedOptions });
+    } else if (message.type === "done") {
+      finish({ status: "done", results: message.results });
+    } else if (message.type === "cancelled") {
+      finish({ status: "cancelled" });
+    } else if (message.type === "error") {
+      finish({ status: "error", code: message.code, message: message.message });
+    }
+  }
+
+  window.addEventListener("message", onMessage);
+
+  if (mode === "popup") {
+    popup = window.open(url, `multi-qr-scanner-${channel}`, popupFeatures);
+    if (!popup) {
+      finish({ status: "error", code: "protocol", message: "The popup was blocked by the browser." });
+    } else {
+      popupTimer = setInterval(() => {
+        if (popup?.closed) finish({ status: "cancelled" });
+      }, POPUP_POLL_MS);
+    }
+  } else {
+    frame = document.createElement("iframe");
+    frame.src = url;
+    frame.title = "Code scanner";
+    // Cross-origin frames only get the camera when the embedding page delegates it
+    frame.allow = "camera";
+    frame.style.cssText = "width:100%;height:720px;border:0;";
+    (container ?? document.body).appendChild(frame);
+  }
+
+  return {
+    get frame() {
+      return frame;
+    },
+    get popup() {
+      return popup;
+    },
+    finished,
+    on(type, listener) {
+      const set = listeners.get(type) ?? new Set();
+      set.add(listener as (message: never) => void);
+      listeners.set(type, set);
+      return () => set.delete(listener as (message: never) => void);
+    },
+    cancel() {
+      if (settled) return;
+      post({ type: "cancel" });
+      finish({ status: "cancelled" });
+    },
+    close() {
+      finish({ status: "cancelled" });
+      teardown();
+    },
+  };
+};
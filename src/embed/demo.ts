@@ -0,0 +1,68 @@
+import { openScanner } from "./client";
+import type { ScannerConnection } from "./client";
+import type { EmbedMode } from "./protocol";
+
+// Sample host page (embed-demo.html): the full round trip through the client helper
+
+const byId = <T extends HTMLElement>(id: string): T => document.getElementById(id) as T;
+
+const target = byId<HTMLInputElement>("target");
+const maxCodesInput = byId<HTMLInputElement>("max-codes");
+const expectedInput = byId<HTMLTextAreaElement>("expected");
+const openButtons = [byId<HTMLButtonElement>("open-iframe"), byId<HTMLButtonElement>("open-popup")];
+const cancelButton = byId<HTMLButtonElement>("cancel");
+const container = byId<HTMLDivElement>("scanner");
+const log = byId<HTMLDivElement>("log");
+
+let connection: ScannerConnection | null = null;
+
+const write = (line: string) => {
+  log.textContent = `${new Date().toLocaleTimeString()}  ${line}\n${log.textContent ?? ""}`;
+};
+
+const setBusy = (busy: boolean) => {
+  openButtons.forEach((button) => (button.disabled = busy));
+  cancelButton.disabled = !busy;
+};
+
+const scan = async (mode: EmbedMode) => {
+  const maxCodes = Number.parseInt(maxCodesInput.value, 10);
+  const expected = expectedInput.value
+    .split("\n")
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+  setBusy(true);
+  write(`Opening the scanner in ${mode === "iframe" ? "an iframe" : "a popup"}`);
+  connection = openScanner({
+    // Served by this same app; another site would point this at the scanner's own URL
+    scannerUrl: new URL("/", window.location.href).href,
+    mode,
+    container,
+    maxCodes: maxCodes > 0 ? maxCodes : undefined,
+    expected: expected.length > 0 ? expected : undefined,
+    title: "Scan a code for the demo form",
+  });
+
+  connection.on("ready", (message) => write(`ready (protocol version ${message.version})`));
+  connection.on("result", (message) => {
+    message.results.forEach((result) => write(`result  ${result.format}  ${result.text}`));
+    target.value = message.results[message.results.length - 1]?.text ?? target.value;
+  });
+
+  const outcome = await connection.finished;
+  connection = null;
+  setBusy(false);
+
+  if (outcome.status === "done") {
+    write(`done: ${outcome.results.length} code${outcome.results.length === 1 ? "" : "s"}`);
+  } else if (outcome.status === "cancelled") {
+    write("cancelled");
+  } else {
+    write(`error (${outcome.code}): ${outcome.message}`);
+  }
+};
+
+openButtons[0].addEventListener("click", () => scan("iframe"));
+openButtons[1].addEventListener("click", () => scan("popup"));
+cancelButton.addEventListener("click", () => connection?.cancel());
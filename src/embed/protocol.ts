@@ -0,0 +1,90 @@
+import type { BarcodeFormatName, Gs1Data, ScannerConfig } from "../types";
+
+// The postMessage protocol between the scanner, opened in an iframe or a popup, and the
+// page that opened it. Every message carries the protocol name and the channel id the
+// host chose, and both sides only accept messages from the other window at the origin
+// they expect, so other frames on either page can neither read nor forge them.
+//
+//   scanner -> host: ready, result, done, cancelled, error
+//   host -> scanner: configure (once, after ready), cancel
+
+export const EMBED_PROTOCOL = "multi-qr-scanner";
+export const EMBED_VERSION = 1;
+
+export type EmbedMode = "iframe" | "popup";
+
+// What the host asks for; everything is optional
+export interface EmbedOptions {
+  formats?: BarcodeFormatName[]; // Default: every supported format
+  maxCodes?: number; // Finish after this many distinct codes
+  expected?: string[]; // Codes to look for; the scan finishes once all have been read
+  scanMode?: ScannerConfig["scanMode"]; // Default: continuous
+  title?: string; // Shown above the camera, e.g. the field being filled in
+}
+
+// A scanned code as the host receives it (plain data, safe to clone and serialise)
+export interface EmbedResult {
+  text: string;
+  format: string;
+  timestamp: string; // ISO 8601
+  confidence?: number;
+  gs1?: Gs1Data;
+}
+
+export type EmbedErrorCode = "camera" | "options" | "origin" | "protocol";
+
+export type ScannerMessage =
+  | { type: "ready"; version: number }
+  | { type: "result"; results: EmbedResult[] } // Codes read for the first time
+  | { type: "done"; results: EmbedResult[] } // Every code of the scan, in the order read
+  | { type: "cancelled" }
+  | { type: "error"; code: EmbedErrorCode; message: string };
+
+export type HostMessage = { type: "configure"; options: EmbedOptions } | { type: "cancel" };
+
+export type Envelope<M> = M & { protocol: typeof EMBED_PROTOCOL; channel: string };
+
+// Where the scanner finds out who opened it: ?embed=<mode>&origin=<host origin>&channel=<id>
+export interface EmbedParams {
+  mode: EmbedMode;
+  hostOrigin: string;
+  channel: string;
+}
+
+export const buildEmbedUrl = (scannerUrl: string, params: EmbedParams): string => {
+  const url = new URL(scannerUrl);
+  url.searchParams.set("embed", params.mode);
+  url.searchParams.set("origin", params.hostOrigin);
+  url.searchParams.set("channel", params.channel);
+  return url.href;
+};
+
+// null when the page was opened normally. An embed request without a usable host origin
+// is still reported, so the scanner can refuse it instead of starting the full app.
+export const readEmbedParams = (search: string): EmbedParams | null => {
+  const query = new URLSearchParams(search);
+  const mode = query.get("embed");
+  if (mode !== "iframe" && mode !== "popup") return null;
+
+  let hostOrigin = "";
+  try {
+    // Normalised, so "https://Tools.example.com/" compares equal to event.origin
+    hostOrigin = new URL(query.get("origin") ?? "").origin;
+  } catch {
+    // Left empty: the scanner reports the bad origin
+  }
+  return { mode, hostOrigin: hostOrigin === "null" ? "" : hostOrigin, channel: query.get("channel") ?? "" };
+};
+
+export const wrapMessage = <M extends ScannerMessage | HostMessage>(
+  channel: string,
+  message: M
+): Envelope<M> => ({ protocol: EMBED_PROTOCOL, channel, ...message });
+
+// Checks the envelope only; the caller has already checked event.origin and event.source
+export const isEnvelope = (data: unknown, channel: string): data is Envelope<{ type: string }> =>
+  typeof data === "object" &&
+  data !== null &&
+  (data as { protocol?: unknown }).protocol === EMBED_PROTOCOL &&
+  (data as { channel?: unknown }).channel === channel &&
+  typeof (data as { type?: unknown }).type === "string";
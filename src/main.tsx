@@ -2,9 +2,14 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import EmbeddedScanner from './components/EmbeddedScanner.tsx'
+import { readEmbedParams } from './embed/protocol.ts'
+
+// Opened by another app (src/embed/client.ts): just the scanner, talking over postMessage
+const embedParams = readEmbedParams(window.location.search)
 
 createRoot(document.getElementById('root')!).render(
   <StrictMode>
-    <App />
+    {embedParams ? <EmbeddedScanner params={embedParams} /> : <App />}
   </StrictMode>,
 )
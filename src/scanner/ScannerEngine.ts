@@ -0,0 +1,407 @@
+import { DecoderClient } from "../utils/decoderClient";
+import { scanImageFile } from "../utils/imageScanner";
+import { ProcessingStatsTracker } from "../utils/processingStats";
+import { getMatchKeys } from "../utils/reconciliation";
+import { DEFAULT_SCANNER_CONFIG, getDecodeOptions } from "../utils/scannerConfig";
+import type {
+  BarcodeFormatName,
+  DecodeOptions,
+  DetectionState,
+  FrameDecodeResult,
+  ProcessingStats,
+  ScannerConfig,
+  ScanResult,
+} from "../types";
+
+// A known code that has been out of view this long counts as read again when it returns
+const SIGHTING_GAP_MS = 1000;
+// Give a freshly started video a moment before the first frame is read
+const FIRST_FRAME_DELAY_MS = 100;
+
+// Desktop browsers can skip compositor sync for the capture canvas; mobile ones misbehave
+const IS_MOBILE =
+  typeof navigator !== "undefined" &&
+  /Android|webOS|iPhone|iPad|iPod|BlackBerry|IEMobile|Opera Mini/i.test(navigator.userAgent);
+
+// What the engine needs from a decoder; the default is the worker-backed DecoderClient
+export type FrameDecoder = Pick<DecoderClient, "decode" | "isBusy" | "skipFrame" | "terminate">;
+
+export interface ScannerEngineOptions {
+  decoder?: FrameDecoder; // Supplied decoders are left running by dispose()
+}
+
+// Fixed for the length of a session
+export interface ScanSessionOptions {
+  config?: ScannerConfig;
+  formats?: BarcodeFormatName[]; // Default: the config's allow-list
+  maxCodes?: number; // Stop after this many distinct codes
+  stopWhenMatched?: string[]; // Stop once every one of these codes has been read
+}
+
+// Where frames come from. With a stream but no video element the engine plays the stream
+// in a detached one; with only a video element, whatever it shows is scanned. With
+// neither, the session only decodes photos passed to scanPhoto().
+export interface ScanInput {
+  video?: HTMLVideoElement;
+  stream?: MediaStream; // Handed over: its tracks are stopped when the session ends
+}
+
+export interface EngineFrame {
+  decoded: ScanResult[]; // Everything decoded in the frame
+  states: Map<string, DetectionState>; // How each decoded code was treated, by text
+  size: { width: number; height: number } | null; // Video frame size; null for photos
+}
+
+export interface ScannerEngineEvents {
+  start: ScannerConfig;
+  frame: EngineFrame;
+  codes: ScanResult[]; // Codes read for the first time this session
+  results: ScanResult[]; // Reads to deliver, batched according to the scan mode
+  stop: ProcessingStats; // Session over and every held-back result delivered
+  error: Error; // A frame failed to decode; the session carries on
+}
+
+type Listener<T> = (payload: T) => void;
+
+// Runs a scanning session on any video element or MediaStream: reads frames on an
+// animation-frame loop, decodes them off the main thread (dropping frames while the
+// decoder is busy), de-duplicates across frames and stops on the session's conditions.
+// UI code subscribes to the events and never touches the pixels.
+export class ScannerEngine {
+  private listeners = new Map<keyof ScannerEngineEvents, Set<Listener<never>>>();
+  private decoder: FrameDecoder | null;
+  private readonly ownsDecoder: boolean;
+  private canvas: HTMLCanvasElement | null = null;
+  private video: HTMLVideoElement | null = null;
+  private stream: MediaStream | null = null;
+  private running = false;
+  // Bumped on every start and stop, so answers for frames of an older session are ignored
+  private session = 0;
+  private loopStarted = false;
+  private animationFrameId: number | null = null;
+  private lastScanTime = 0;
+  private config: ScannerConfig = DEFAULT_SCANNER_CONFIG;
+  private formats: BarcodeFormatName[] = DEFAULT_SCANNER_CONFIG.formats;
+  private maxCodes: number | undefined;
+  // Distinct codes this session, and when each was last in view
+  private scannedCodes = new Set<string>();
+  private lastSighting = new Map<string, number>();
+  // Results held back until the session ends (burst mode, or real-time reporting off)
+  private pending = new Map<string, ScanResult>();
+  // Expected codes still outstanding (null = no auto-stop)
+  private outstanding: Set<string> | null = null;
+  private decodedFrames = 0;
+  private photoCount = 0;
+  private stats = new ProcessingStatsTracker();
+
+  constructor(options: ScannerEngineOptions = {}) {
+    this.decoder = options.decoder ?? null;
+    this.ownsDecoder = !options.decoder;
+  }
+
+  on<K extends keyof ScannerEngineEvents>(
+    type: K,
+    listener: Listener<ScannerEngineEvents[K]>
+  ): () => void {
+    const listeners = this.listeners.get(type) ?? new Set();
+    listeners.add(listener as Listener<never>);
+    this.listeners.set(type, listeners);
+    return () => listeners.delete(listener as Listener<never>);
+  }
+
+  private emit<K extends keyof ScannerEngineEvents>(type: K, payload: ScannerEngineEvents[K]) {
+    this.listeners.get(type)?.forEach((listener) => (listener as Listener<ScannerEngineEvents[K]>)(payload));
+  }
+
+  get isRunning(): boolean {
+    return this.running;
+  }
+
+  get scannedCount(): number {
+    return this.scannedCodes.size;
+  }
+
+  // The live camera track, for torch, zoom and focus controls
+  get track(): MediaStreamTrack | null {
+    return this.stream?.getVideoTracks()[0] ?? null;
+  }
+
+  // Live stats report the rate over the last second; overall ones average the session
+  getStats(overall = false): ProcessingStats {
+    return this.stats.snapshot(overall);
+  }
+
+  start(input: ScanInput = {}, options: ScanSessionOptions = {}): void {
+    this.stop();
+    this.session++;
+    this.running = true;
+    this.config = options.config ?? DEFAULT_SCANNER_CONFIG;
+    this.formats = options.formats ?? this.config.formats;
+    this.maxCodes = options.maxCodes;
+    this.outstanding =
+      options.stopWhenMatched && options.stopWhenMatched.length > 0
+        ? new Set(options.stopWhenMatched)
+        : null;
+    this.scannedCodes = new Set();
+    this.lastSighting = new Map();
+    this.pending = new Map();
+    this.decodedFrames = 0;
+    this.photoCount = 0;
+    this.lastScanTime = 0;
+    this.stats = new ProcessingStatsTracker();
+    this.emit("start", this.config);
+
+    if (input.video || input.stream) {
+      this.video = input.video ?? Object.assign(document.createElement("video"), { muted: true, playsInline: true });
+      if (input.stream) this.attachStream(input.stream);
+      this.startLoopWhenReady(this.video);
+    }
+  }
+
+  // Swap the camera mid-session (another lens) without ending it: the loop keeps running
+  // and skips frames until the new stream has a size. null just releases the current one,
+  // which some devices need before another camera can be opened. Returns false, and stops
+  // the stream, when the session has already ended.
+  replaceStream(stream: MediaStream | null): boolean {
+    this.releaseStream();
+    if (!stream) return this.running;
+    if (!this.running || !this.video) {
+      stream.getTracks().forEach((track) => track.stop());
+      return false;
+    }
+    this.attachStream(stream);
+    return true;
+  }
+
+  stop(): void {
+    if (!this.running) return;
+    this.running = false;
+    this.session++;
+
+    if (this.animationFrameId !== null) {
+      cancelAnimationFrame(this.animationFrameId);
+      this.animationFrameId = null;
+    }
+    this.loopStarted = false;
+    if (this.video) {
+      this.video.removeEventListener("loadedmetadata", this.onVideoReady);
+      this.video.removeEventListener("canplay", this.onVideoReady);
+    }
+    this.releaseStream();
+    this.video = null;
+
+    this.flushPending();
+    this.emit("stop", this.stats.snapshot(true));
+  }
+
+  // Stop any session and shut the decoder down; the engine cannot be used afterwards
+  dispose(): void {
+    this.stop();
+    if (this.ownsDecoder) this.decoder?.terminate();
+    this.decoder = null;
+    this.listeners.clear();
+    if (this.canvas) {
+      this.canvas.width = 0;
+      this.canvas.height = 0;
+      this.canvas = null;
+    }
+  }
+
+  // Decode one photo as a frame of the running session (native still capture). Large
+  // photos are decoded in chunks; the whole photo counts as one frame for the stats and
+  // the single-shot and burst modes.
+  async scanPhoto(photo: Blob): Promise<ScanResult[]> {
+    if (!this.running) return [];
+    const session = this.session;
+    const frame: FrameDecodeResult = { results: [], decodeTime: 0, strategyTimes: {} };
+    this.photoCount++;
+    frame.results = await scanImageFile(
+      photo,
+      `Photo ${this.photoCount}`,
+      "camera",
+      this.getDecoder(),
+      this.decodeOptions(),
+      {
+        onFrame: (chunk) => {
+          frame.decodeTime += chunk.decodeTime;
+          Object.entries(chunk.strategyTimes).forEach(([strategy, time]) => {
+            frame.strategyTimes[strategy] = (frame.strategyTimes[strategy] ?? 0) + time;
+          });
+        },
+      }
+    );
+
+    if (session === this.session) {
+      this.handleFrame(frame, null);
+    }
+    return frame.results;
+  }
+
+  private getDecoder(): FrameDecoder {
+    this.decoder ??= new DecoderClient();
+    return this.decoder;
+  }
+
+  private decodeOptions(): DecodeOptions {
+    return getDecodeOptions(this.config, this.formats);
+  }
+
+  private attachStream(stream: MediaStream) {
+    this.stream = stream;
+    if (this.video) {
+      this.video.srcObject = stream;
+      this.video.play().catch(() => {
+        // Autoplay policies may refuse; a muted inline video usually starts anyway
+      });
+    }
+  }
+
+  private releaseStream() {
+    this.stream?.getTracks().forEach((track) => track.stop());
+    if (this.stream && this.video?.srcObject === this.stream) {
+      this.video.srcObject = null;
+    }
+    this.stream = null;
+  }
+
+  // iOS does not always fire loadedmetadata, so canplay starts the loop too (once)
+  private startLoopWhenReady(video: HTMLVideoElement) {
+    if (video.readyState >= HTMLMediaElement.HAVE_METADATA && video.videoWidth) {
+      this.onVideoReady();
+      return;
+    }
+    video.addEventListener("loadedmetadata", this.onVideoReady);
+    video.addEventListener("canplay", this.onVideoReady);
+  }
+
+  private onVideoReady = () => {
+    if (this.loopStarted || !this.running) return;
+    this.loopStarted = true;
+    const session = this.session;
+    setTimeout(() => {
+      if (session === this.session) this.scanLoop();
+    }, FIRST_FRAME_DELAY_MS);
+  };
+
+  private scanLoop = () => {
+    if (!this.running) return;
+    const now = Date.now();
+    if (now - this.lastScanTime > this.config.scanInterval) {
+      this.captureFrame();
+      this.lastScanTime = now;
+    }
+    this.animationFrameId = requestAnimationFrame(this.scanLoop);
+  };
+
+  // Grab the current video frame and hand it to the decoder. Frames are skipped while the
+  // decoder is still busy so the preview never stalls.
+  private captureFrame() {
+    const video = this.video;
+    // No size yet: the stream is still starting, or a lens is being swapped
+    if (!video || !video.videoWidth || !video.videoHeight) return;
+
+    const decoder = this.getDecoder();
+    // Backpressure: don't even read pixels if the previous frame is still decoding
+    if (decoder.isBusy) {
+      decoder.skipFrame();
+      this.stats.recordDroppedFrame();
+      return;
+    }
+
+    this.canvas ??= document.createElement("canvas");
+    const canvas = this.canvas;
+    canvas.width = video.videoWidth;
+    canvas.height = video.videoHeight;
+    const ctx = canvas.getContext("2d", {
+      willReadFrequently: true,
+      ...(IS_MOBILE ? {} : { desynchronized: true, alpha: false }),
+    });
+    if (!ctx) return;
+
+    ctx.drawImage(video, 0, 0);
+    const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+    const size = { width: canvas.width, height: canvas.height };
+    const session = this.session;
+
+    decoder
+      .decode(imageData, this.decodeOptions())
+      .then((frame) => {
+        // Ignore late answers for frames captured before the session ended
+        if (frame && session === this.session) {
+          this.handleFrame(frame, size);
+        }
+      })
+      .catch((error) => {
+        this.emit("error", error instanceof Error ? error : new Error(String(error)));
+      });
+  }
+
+  // Sort a frame's detections into new / already scanned / rejected and deliver them
+  // according to the scan mode. Known codes are reported again when they come back into
+  // view; the duplicate policy downstream decides what a repeat does.
+  private handleFrame(frame: FrameDecodeResult, size: EngineFrame["size"]) {
+    const results: ScanResult[] = [];
+    const newCodes: ScanResult[] = [];
+    const states = new Map<string, DetectionState>();
+    const now = Date.now();
+    this.decodedFrames++;
+
+    frame.results.forEach((result) => {
+      if ((result.confidence ?? 1) < this.config.confidenceThreshold) {
+        states.set(result.text, "rejected");
+      } else if (this.scannedCodes.has(result.text)) {
+        states.set(result.text, "scanned");
+        if (now - (this.lastSighting.get(result.text) ?? 0) > SIGHTING_GAP_MS) {
+          results.push(result);
+        }
+        this.lastSighting.set(result.text, now);
+      } else if (this.maxCodes !== undefined && this.scannedCodes.size + newCodes.length >= this.maxCodes) {
+        states.set(result.text, "rejected");
+      } else {
+        states.set(result.text, "new");
+        results.push(result);
+        newCodes.push(result);
+        this.lastSighting.set(result.text, now);
+      }
+    });
+
+    this.emit("frame", { decoded: frame.results, states, size });
+    this.stats.recordFrame(frame, newCodes.length);
+
+    if (newCodes.length > 0) {
+      newCodes.forEach((result) => {
+        this.scannedCodes.add(result.text);
+        getMatchKeys(result).forEach((key) => this.outstanding?.delete(key));
+      });
+      this.emit("codes", newCodes);
+    }
+
+    if (this.config.scanMode === "burst" || !this.config.enableRealTimeProcessing) {
+      // Merge across frames, keeping the most confident read of each code
+      results.forEach((result) => {
+        const existing = this.pending.get(result.text);
+        if (!existing || (result.confidence ?? 0) > (existing.confidence ?? 0)) {
+          this.pending.set(result.text, result);
+        }
+      });
+    } else if (results.length > 0) {
+      this.emit("results", results);
+    }
+
+    if (
+      (this.maxCodes !== undefined && this.scannedCodes.size >= this.maxCodes) ||
+      this.outstanding?.size === 0 ||
+      (this.config.scanMode === "single-shot" && results.length > 0) ||
+      (this.config.scanMode === "burst" && this.decodedFrames >= this.config.burstFrameCount)
+    ) {
+      this.stop();
+    }
+  }
+
+  // Hand over everything that was held back during the session
+  private flushPending() {
+    const pending = Array.from(this.pending.values());
+    this.pending = new Map();
+    if (pending.length > 0) this.emit("results", pending);
+  }
+}
@@ -0,0 +1,13 @@
+// Decoding without React: one-off image decoding and a camera scanning engine that any
+// page can drive. The app's scanner component is a thin wrapper around these.
+export { scanImageData, toDetectedCode } from "./scanImageData";
+export type { DetectedCode, ImagePixels, ScanImageOptions } from "./scanImageData";
+export { ScannerEngine } from "./ScannerEngine";
+export type {
+  EngineFrame,
+  FrameDecoder,
+  ScanInput,
+  ScannerEngineEvents,
+  ScannerEngineOptions,
+  ScanSessionOptions,
+} from "./ScannerEngine";
@@ -0,0 +1,38 @@
+import { decodeFrameWithStats } from "../utils/frameDecoder";
+import { SUPPORTED_FORMATS } from "../utils/formats";
+import type { BarcodeFormatName, Gs1Data, ScanResult } from "../types";
+
+// A code found in an image, without the app's session bookkeeping (ids, timestamps, source)
+export interface DetectedCode {
+  text: string;
+  format: BarcodeFormatName;
+  confidence?: number; // 0..1, from the shape of the detected outline
+  boundingBox?: NonNullable<ScanResult["boundingBox"]>; // Pixel coordinates in the image
+  gs1?: Gs1Data;
+}
+
+export interface ScanImageOptions {
+  formats?: BarcodeFormatName[]; // Default: every supported format
+  maxCodes?: number;
+  multiScan?: boolean; // false = whole image only, at most one code
+}
+
+// Anything with RGBA pixels: an ImageData, or a plain object outside the browser
+export type ImagePixels = Pick<ImageData, "width" | "height" | "data">;
+
+export const toDetectedCode = (result: ScanResult): DetectedCode => ({
+  text: result.text,
+  format: result.format as BarcodeFormatName,
+  confidence: result.confidence,
+  boundingBox: result.boundingBox,
+  gs1: result.gs1,
+});
+
+// Decode every code in one image on the calling thread. Works in the page, a worker or
+// Node; the pixels are copied, never modified. Each payload is reported once.
+export const scanImageData = (image: ImagePixels, options: ScanImageOptions = {}): DetectedCode[] =>
+  decodeFrameWithStats(image as ImageData, {
+    formats: options.formats ?? SUPPORTED_FORMATS,
+    maxCodes: options.maxCodes,
+    multiScan: options.multiScan,
+  }).results.map(toDetectedCode);
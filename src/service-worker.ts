@@ -5,15 +5,60 @@ import { registerRoute } from 'workbox-routing';
 import { StaleWhileRevalidate, CacheFirst, NetworkFirst } from 'workbox-strategies';
 import { ExpirationPlugin } from 'workbox-expiration';
 import { CacheableResponsePlugin } from 'workbox-cacheable-response';
+import { OUTBOX_SYNC_TAG, flushOutbox } from './utils/outbox';
 
 declare const self: ServiceWorkerGlobalScope;
 
+// Background Sync isn't in the TypeScript DOM/webworker libs yet
+interface SyncEvent extends ExtendableEvent {
+  readonly tag: string;
+  readonly lastChance: boolean;
+}
+
 // Clean up old caches
 cleanupOutdatedCaches();
 
 // Precache all of the assets generated by your build process
 precacheAndRoute(self.__WB_MANIFEST);
 
+// registerType 'autoUpdate': a new worker takes over straight away
+self.addEventListener('install', () => {
+  self.skipWaiting();
+});
+
+// Cache Google Fonts stylesheets and font files with a Cache First strategy
+registerRoute(
+  ({ url }) => url.origin === 'https://fonts.googleapis.com',
+  new CacheFirst({
+    cacheName: 'google-fonts-cache',
+    plugins: [
+      new CacheableResponsePlugin({
+        statuses: [0, 200],
+      }),
+      new ExpirationPlugin({
+        maxEntries: 10,
+        maxAgeSeconds: 60 * 60 * 24 * 365, // 365 days
+      }),
+    ],
+  })
+);
+
+registerRoute(
+  ({ url }) => url.origin === 'https://fonts.gstatic.com',
+  new CacheFirst({
+    cacheName: 'gstatic-fonts-cache',
+    plugins: [
+      new CacheableResponsePlugin({
+        statuses: [0, 200],
+      }),
+      new ExpirationPlugin({
+        maxEntries: 10,
+        maxAgeSeconds: 60 * 60 * 24 * 365, // 365 days
+      }),
+    ],
+  })
+);
+
 // Cache page navigations (html) with a Network First strategy
 registerRoute(
   // Check to see if the request is a navigation to a new page
@@ -89,6 +134,20 @@ registerRoute(
   })
 );
 
+// Send the scan outbox once the browser has connectivity. Rejecting while entries are
+// still pending makes the browser schedule another sync with its own backoff.
+self.addEventListener('sync', (event) => {
+  const syncEvent = event as SyncEvent;
+  if (syncEvent.tag !== OUTBOX_SYNC_TAG) return;
+  syncEvent.waitUntil(
+    flushOutbox({ ignoreBackoff: true }).then((nextDue) => {
+      if (nextDue !== null) {
+        throw new Error('Outbox entries still pending');
+      }
+    })
+  );
+});
+
 // This allows the web app to trigger skipWaiting via
 // registration.waiting.postMessage({type: 'SKIP_WAITING'})
 self.addEventListener('message', (event) => {
@@ -110,16 +169,26 @@ self.addEventListener('fetch', (event) => {
 });
 
 // Handle app updates
+const RUNTIME_CACHES = [
+  'pages-cache',
+  'assets-cache',
+  'images-cache',
+  'api-cache',
+  'google-fonts-cache',
+  'gstatic-fonts-cache',
+];
+
 self.addEventListener('activate', (event) => {
   event.waitUntil(
     caches.keys().then((cacheNames) => {
       return Promise.all(
         cacheNames.map((cacheName) => {
-          if (cacheName !== 'pages-cache' && cacheName !== 'assets-cache' && cacheName !== 'images-cache' && cacheName !== 'api-cache') {
+          // Workbox's precache is managed by cleanupOutdatedCaches()
+          if (!RUNTIME_CACHES.includes(cacheName) && !cacheName.startsWith('workbox-precache')) {
             return caches.delete(cacheName);
           }
         })
-      );
+      ).then(() => self.clients.claim());
     })
   );
 }); 
\ No newline at end of file
@@ -1,17 +1,93 @@
+export interface Point {
+  x: number;
+  y: number;
+}
+
 export interface ScanResult {
   id: string;
   text: string;
   format: string;
   timestamp: Date;
   confidence?: number;
+  // Full-frame pixel coordinates of the detected symbol
   boundingBox?: {
     x: number;
     y: number;
     width: number;
     height: number;
+    corners?: Point[];
   };
   source: 'camera' | 'image' | 'batch';
-  isDuplicate?: boolean;
+  // File the code was read from, for 'image' and 'batch' results
+  sourceName?: string;
+  isDuplicate?: boolean; // A repeat of a known code, kept by the duplicate policy
+  occurrences?: number; // Times the code has been read, this read included
+  lastSeen?: Date; // Most recent read, when repeats are counted onto this row
+  // GS1 element string / Digital Link fields, when the code carries them
+  gs1?: Gs1Data;
+  // Set on one symbol of a QR Structured Append sequence; the text is just its part
+  structuredAppend?: StructuredAppendInfo;
+  // Set on the result reassembled from a Structured Append sequence
+  assembledFrom?: number; // Symbols combined
+}
+
+// Where one QR symbol sits in a Structured Append sequence (a message split over up to 16 symbols)
+export interface StructuredAppendInfo {
+  index: number; // 0-based position
+  total: number; // Symbols in the sequence
+  parity: number; // XOR of every byte of the whole message, the same in every symbol
+}
+
+// One GS1 Application Identifier and its (raw) value
+export interface Gs1Element {
+  ai: string;
+  label: string;
+  value: string;
+}
+
+export interface Gs1Data {
+  elements: Gs1Element[];
+  digitalLink: boolean;
+  gtin?: string; // Always 14 digits
+  gtinValid?: boolean; // Check digit matches
+  batch?: string;
+  expiry?: string; // YYYY-MM-DD
+  serial?: string;
+  count?: number;
+  netWeightKg?: number;
+}
+
+// How the live overlay colours a detection
+export type DetectionState = 'new' | 'scanned' | 'rejected';
+
+export interface OverlayDetection {
+  text: string;
+  state: DetectionState;
+  boundingBox: NonNullable<ScanResult['boundingBox']>;
+  lastSeen: number;
+}
+
+// Symbologies the decoder can report, named after ZXing's BarcodeFormat
+export type BarcodeFormatName =
+  | 'QR_CODE'
+  | 'CODE_128'
+  | 'CODE_39'
+  | 'EAN_13'
+  | 'EAN_8'
+  | 'UPC_A'
+  | 'UPC_E'
+  | 'ITF'
+  | 'DATA_MATRIX'
+  | 'PDF_417'
+  | 'AZTEC';
+
+export interface DecodeOptions {
+  // Only these symbologies are decoded and reported
+  formats: BarcodeFormatName[];
+  // Stop searching the frame once this many codes were found
+  maxCodes?: number;
+  // false = whole frame only, one code per frame
+  multiScan?: boolean;
 }
 
 export interface MultiScanResult {
@@ -21,15 +97,29 @@ export interface MultiScanResult {
   totalCodesFound: number;
 }
 
+// What happens when a code that is already known is read again (utils/duplicatePolicy)
+export type DuplicateMode = 'drop' | 'flag' | 'count' | 'window';
+// How far back "already known" reaches: the same frame, this session, or every saved session
+export type DuplicateScope = 'frame' | 'session' | 'history';
+
+export interface DuplicatePolicy {
+  mode: DuplicateMode;
+  scope: DuplicateScope;
+  windowSeconds: number; // 'window' mode: a code may be listed again after this long
+}
+
 export interface ScannerConfig {
   enableMultiScan: boolean;
   scanInterval: number;
   confidenceThreshold: number;
   maxCodesPerFrame: number;
-  enableDuplicateDetection: boolean;
+  duplicatePolicy: DuplicatePolicy;
   enableRealTimeProcessing: boolean;
   cameraResolution: 'low' | 'medium' | 'high';
   scanMode: 'continuous' | 'single-shot' | 'burst';
+  // Frames captured and merged per burst
+  burstFrameCount: number;
+  formats: BarcodeFormatName[]; // Symbologies to look for, camera and image files alike
 }
 
 export interface CameraState {
@@ -46,10 +136,131 @@ export interface ProcessingStats {
   averageProcessingTime: number;
   fps: number;
   lastUpdate: Date;
+  // Frames skipped because the decoder was still busy (absent on old sessions)
+  droppedFrames?: number;
+  // Average milliseconds per frame spent in each detection strategy
+  strategyTimes?: Record<string, number>;
+}
+
+// What the decoder hands back for one frame
+export interface FrameDecodeResult {
+  results: ScanResult[];
+  decodeTime: number;
+  strategyTimes: Record<string, number>;
+}
+
+// What a scanned payload means, as classified by utils/payloadParser
+export type ParsedPayload =
+  | { type: 'url'; url: string }
+  | { type: 'wifi'; ssid: string; security: string; password?: string; hidden: boolean }
+  | {
+      type: 'contact';
+      format: 'vcard' | 'mecard';
+      name?: string;
+      organization?: string;
+      phones: string[];
+      emails: string[];
+      urls: string[];
+      address?: string;
+      note?: string;
+      vcard: string; // Ready to save as a .vcf
+    }
+  | { type: 'geo'; latitude: number; longitude: number; altitude?: number; query?: string }
+  | { type: 'email'; to: string; subject?: string; body?: string }
+  | { type: 'phone'; number: string }
+  | { type: 'sms'; number: string; message?: string }
+  | {
+      type: 'event';
+      summary?: string;
+      start?: Date;
+      end?: Date;
+      allDay: boolean;
+      location?: string;
+      description?: string;
+      ics: string; // Ready to save as a .ics
+    }
+  | { type: 'text' };
+
+export type PayloadType = ParsedPayload['type'];
+
+// Expected-list (manifest) mode: codes we expect to scan, e.g. the cartons in a delivery
+export interface ExpectedItem {
+  code: string;
+  label?: string;
+}
+
+export interface ExpectedList {
+  name: string;
+  items: ExpectedItem[];
+  autoStop: boolean; // Stop the scanner once every item has been seen
+}
+
+export interface Reconciliation {
+  matched: { item: ExpectedItem; result: ScanResult }[];
+  missing: ExpectedItem[];
+  unexpected: ScanResult[];
+}
+
+// Structured Append symbols collected so far for one message, kept across sessions
+// until every part has been read (utils/structuredAppend)
+export interface StructuredAppendSet {
+  key: string; // Total and parity, which every symbol of the message shares, plus a suffix when two messages share both
+  total: number;
+  parity: number;
+  parts: (string | null)[]; // Text of each symbol by index, null until read
+  source: ScanResult['source'];
+  updatedAt: string; // ISO time the last part arrived
+  // Parity the complete text actually has, when it differs from the symbols' parity byte
+  parityMismatch?: number;
+}
+
+// Pushing scans to our own ingestion endpoint (utils/outbox)
+export interface SyncConfig {
+  enabled: boolean;
+  endpoint: string;
+  // Extra request headers, one "Name: value" per line
+  headers: string;
+  authToken: string; // Sent as "Authorization: Bearer <token>" when set
+  mode: 'scan' | 'session'; // One request per new code, or one per finished session
+  // JSON body with {{placeholder}} fields; empty = the default for the mode
+  payloadTemplate: string;
+}
+
+export type OutboxStatus = 'pending' | 'synced' | 'failed';
+
+// A request rendered when it was queued, so it can be replayed without the app's settings
+export interface OutboxRequest {
+  url: string;
+  method: 'POST' | 'PUT';
+  headers: Record<string, string>;
+  body: string;
+}
+
+export interface OutboxEntry {
+  id: string;
+  kind: 'scan' | 'session';
+  resultIds: string[]; // Results the entry carries, for the per-row status
+  request: OutboxRequest;
+  status: OutboxStatus;
+  attempts: number;
+  createdAt: number;
+  nextAttemptAt: number; // Epoch ms; retries back off exponentially
+  lastError?: string;
+  syncedAt?: number;
+}
+
+// Which scanned links may be opened (utils/linkInspector). Entries are domains and
+// cover their subdomains: "example.com" also matches "shop.example.com".
+export interface LinkPolicy {
+  allowList: string[];
+  denyList: string[];
+  autoOpenAllowed: boolean; // Open allow-listed links straight away when nothing looks off
+  blockUnlisted: boolean; // Refuse every domain not on the allow list
 }
 
 export interface ScanSession {
   id: string;
+  name?: string;
   startTime: Date;
   endTime?: Date;
   results: ScanResult[];
@@ -59,6 +270,21 @@ export interface ScanSession {
 
 export type ScanMode = 'single' | 'multi' | 'batch' | 'continuous';
 export type CameraFacing = 'environment' | 'user';
+
+// Camera choices remembered between sessions
+export interface CameraPreferences {
+  deviceId?: string; // A specific lens; otherwise the camera is picked by facing
+  facing: CameraFacing;
+  torch: boolean;
+  zoom?: number;
+}
+
+// What the running video track lets us control
+export interface CameraCapabilities {
+  torch: boolean;
+  zoom?: { min: number; max: number; step: number };
+  focus: boolean; // Tap-to-focus via pointsOfInterest
+}
 export type ProcessingMode = 'realtime' | 'optimized' | 'high-accuracy';
 
 export interface BeforeInstallPromptEvent extends Event {
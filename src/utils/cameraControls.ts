@@ -0,0 +1,104 @@
+import type { CameraCapabilities, CameraPreferences } from "../types";
+
+export const DEFAULT_CAMERA_PREFERENCES: CameraPreferences = {
+  facing: "environment",
+  torch: false,
+};
+
+// Image-capture extensions that the DOM typings don't know about yet
+interface ExtendedTrackCapabilities extends MediaTrackCapabilities {
+  torch?: boolean;
+  zoom?: { min: number; max: number; step?: number };
+  focusMode?: string[];
+  pointsOfInterest?: unknown;
+}
+
+interface ExtendedConstraintSet extends MediaTrackConstraintSet {
+  torch?: boolean;
+  zoom?: number;
+  focusMode?: string;
+  pointsOfInterest?: { x: number; y: number }[];
+}
+
+// Read stored preferences, falling back to the back camera
+export const loadCameraPreferences = (stored: string | null): CameraPreferences => {
+  if (!stored) return DEFAULT_CAMERA_PREFERENCES;
+  try {
+    return { ...DEFAULT_CAMERA_PREFERENCES, ...(JSON.parse(stored) as Partial<CameraPreferences>) };
+  } catch {
+    return DEFAULT_CAMERA_PREFERENCES;
+  }
+};
+
+// Lens selection: an explicit device wins over the facing direction
+export const getCameraSelector = (
+  preferences: CameraPreferences
+): MediaTrackConstraints =>
+  preferences.deviceId
+    ? { deviceId: { exact: preferences.deviceId } }
+    : { facingMode: preferences.facing };
+
+// Video inputs on this device. Labels stay empty until camera permission has been granted.
+export const listCameras = async (): Promise<MediaDeviceInfo[]> => {
+  if (!navigator.mediaDevices?.enumerateDevices) return [];
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter((device) => device.kind === "videoinput");
+};
+
+// Only report controls the track actually supports, so the UI never shows a dead switch
+export const getCameraCapabilities = (track: MediaStreamTrack): CameraCapabilities => {
+  const capabilities: ExtendedTrackCapabilities = track.getCapabilities?.() ?? {};
+  const zoom = capabilities.zoom;
+
+  return {
+    torch: capabilities.torch === true,
+    zoom:
+      zoom && zoom.max > zoom.min
+        ? { min: zoom.min, max: zoom.max, step: zoom.step || 0.1 }
+        : undefined,
+    focus: capabilities.pointsOfInterest !== undefined,
+  };
+};
+
+// Re-apply the remembered torch/zoom to a freshly opened track
+export const applyCameraPreferences = async (
+  track: MediaStreamTrack,
+  preferences: CameraPreferences,
+  capabilities: CameraCapabilities
+): Promise<void> => {
+  const settings: ExtendedConstraintSet = {};
+  if (capabilities.torch) {
+    settings.torch = preferences.torch;
+  }
+  if (capabilities.zoom && preferences.zoom !== undefined) {
+    settings.zoom = Math.min(
+      capabilities.zoom.max,
+      Math.max(capabilities.zoom.min, preferences.zoom)
+    );
+  }
+  if (Object.keys(settings).length > 0) {
+    await track.applyConstraints({ advanced: [settings] });
+  }
+};
+
+export const setTorch = (track: MediaStreamTrack, on: boolean): Promise<void> =>
+  track.applyConstraints({ advanced: [{ torch: on } as ExtendedConstraintSet] });
+
+export const setZoom = (track: MediaStreamTrack, zoom: number): Promise<void> =>
+  track.applyConstraints({ advanced: [{ zoom } as ExtendedConstraintSet] });
+
+// Focus (and meter) on a point given in 0..1 frame coordinates
+export const focusAt = (
+  track: MediaStreamTrack,
+  point: { x: number; y: number }
+): Promise<void> => {
+  const focusModes = (track.getCapabilities?.() as ExtendedTrackCapabilities | undefined)
+    ?.focusMode ?? [];
+  const settings: ExtendedConstraintSet = { pointsOfInterest: [point] };
+  if (focusModes.includes("single-shot")) {
+    settings.focusMode = "single-shot";
+  } else if (focusModes.includes("continuous")) {
+    settings.focusMode = "continuous";
+  }
+  return track.applyConstraints({ advanced: [settings] });
+};
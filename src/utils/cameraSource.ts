@@ -0,0 +1,64 @@
+import {
+  Camera,
+  CameraDirection,
+  CameraResultType,
+  CameraSource as CapacitorCameraSource,
+} from "@capacitor/camera";
+import { detectPlatform } from "../types";
+import type { PlatformInfo } from "../types";
+
+// Where the scanner gets its pixels from. The scanner only talks to this interface,
+// so either kind can be swapped for a fake (e.g. a canvas.captureStream() or a fixed
+// image Blob) to exercise both code paths in a plain browser.
+
+// Live preview frames, decoded continuously (web / PWA)
+export interface StreamCameraSource {
+  kind: "stream";
+  open(constraints: MediaTrackConstraints): Promise<MediaStream>;
+}
+
+// Full-resolution stills taken through the native camera UI (Capacitor shell)
+export interface StillCameraSource {
+  kind: "still";
+  // Resolves with the photo, or null when the user backed out of the camera
+  capture(): Promise<Blob | null>;
+}
+
+export type CameraSource = StreamCameraSource | StillCameraSource;
+
+export const createStreamCameraSource = (): StreamCameraSource => ({
+  kind: "stream",
+  open: (constraints) =>
+    navigator.mediaDevices.getUserMedia({ audio: false, video: constraints }),
+});
+
+export const createNativeStillCameraSource = (): StillCameraSource => ({
+  kind: "still",
+  capture: async () => {
+    try {
+      const photo = await Camera.getPhoto({
+        resultType: CameraResultType.Uri,
+        source: CapacitorCameraSource.Camera,
+        direction: CameraDirection.Rear,
+        quality: 100,
+        correctOrientation: true,
+        saveToGallery: false,
+      });
+      if (!photo.webPath) return null;
+      const response = await fetch(photo.webPath);
+      return await response.blob();
+    } catch (error) {
+      // The plugin rejects rather than resolving empty when the user cancels
+      if (error instanceof Error && /cancel/i.test(error.message)) return null;
+      throw error;
+    }
+  },
+});
+
+// Native shells capture stills through @capacitor/camera; everything else streams getUserMedia
+export const createCameraSource = (
+  platform: PlatformInfo = detectPlatform()
+): CameraSource =>
+  platform.hasNativeCamera
+    ? createNativeStillCameraSource()
+    : createStreamCameraSource();
@@ -0,0 +1,59 @@
+import * as Comlink from "comlink";
+import type { DecoderWorkerApi } from "../workers/decoder.worker";
+import type { DecodeOptions, FrameDecodeResult } from "../types";
+
+// Main-thread handle on the decoding worker.
+// Only one frame is in flight at a time: frames offered while the worker is busy are dropped.
+export class DecoderClient {
+  private worker: Worker;
+  private api: Comlink.Remote<DecoderWorkerApi>;
+  private busy = false;
+  private dropped = 0;
+
+  constructor() {
+    this.worker = new Worker(
+      new URL("../workers/decoder.worker.ts", import.meta.url),
+      { type: "module" }
+    );
+    this.api = Comlink.wrap<DecoderWorkerApi>(this.worker);
+  }
+
+  get isBusy(): boolean {
+    return this.busy;
+  }
+
+  get droppedFrames(): number {
+    return this.dropped;
+  }
+
+  // Record a frame the caller chose not to capture because the worker was busy
+  skipFrame(): void {
+    this.dropped++;
+  }
+
+  // Resolves with the decoded codes and timings, or null when the frame was dropped
+  async decode(
+    frame: ImageData | ImageBitmap,
+    options: DecodeOptions
+  ): Promise<FrameDecodeResult | null> {
+    if (this.busy) {
+      this.dropped++;
+      if (frame instanceof ImageBitmap) frame.close();
+      return null;
+    }
+
+    this.busy = true;
+    try {
+      const buffer =
+        frame instanceof ImageData ? frame.data.buffer : (frame as Transferable);
+      return await this.api.decode(Comlink.transfer(frame, [buffer]), options);
+    } finally {
+      this.busy = false;
+    }
+  }
+
+  terminate(): void {
+    this.api[Comlink.releaseProxy]();
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,15 @@
+// Save generated text (or an already encoded file) through a temporary object URL
+export const downloadFile = (content: string | Blob, fileName: string, mimeType: string): void => {
+  const blob = content instanceof Blob ? content : new Blob([content], { type: mimeType });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = fileName;
+  a.click();
+  URL.revokeObjectURL(url);
+};
+
+// Turn free text (a contact name, an event title) into a safe file name
+export const toFileName = (text: string | undefined, fallback: string): string =>
+  (text ?? "").replace(/[^\p{L}\p{N}._-]+/gu, "-").replace(/^-+|-+$/g, "").slice(0, 60) ||
+  fallback;
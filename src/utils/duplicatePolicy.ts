@@ -0,0 +1,107 @@
+import type { DuplicatePolicy, ScanResult, ScanSession } from "../types";
+
+// The one place that decides what a repeated code does to the results list.
+// Scanners report every sighting; this applies the configured mode and scope.
+
+// Codes read in earlier sessions, for the 'history' scope
+export interface HistoryEntry {
+  count: number;
+  lastSeen: Date;
+}
+
+export interface DuplicateOutcome {
+  results: ScanResult[]; // The updated list, newest first (the same array when nothing changed)
+  added: ScanResult[];
+  repeats: number; // Reads of codes that were already known
+}
+
+export const getOccurrences = (result: ScanResult): number => result.occurrences ?? 1;
+
+export const getLastSeen = (result: ScanResult): Date => result.lastSeen ?? result.timestamp;
+
+// Every code in the given sessions (except one, normally the session on screen)
+export const buildHistoryIndex = (
+  sessions: ScanSession[],
+  excludeSessionId?: string
+): Map<string, HistoryEntry> => {
+  const index = new Map<string, HistoryEntry>();
+  sessions
+    .filter((session) => session.id !== excludeSessionId)
+    .forEach((session) =>
+      session.results.forEach((result) => {
+        const entry = index.get(result.text);
+        const lastSeen = getLastSeen(result);
+        index.set(result.text, {
+          count: (entry?.count ?? 0) + getOccurrences(result),
+          lastSeen: entry && entry.lastSeen > lastSeen ? entry.lastSeen : lastSeen,
+        });
+      })
+    );
+  return index;
+};
+
+// Merge one delivery of reads (a frame, a photo, an image file) into the list.
+// A code read twice in the same delivery is always a repeat; the scope decides
+// whether the list and the history count as well.
+export const applyDuplicatePolicy = (
+  list: ScanResult[],
+  incoming: ScanResult[],
+  policy: DuplicatePolicy,
+  history: Map<string, HistoryEntry> = new Map()
+): DuplicateOutcome => {
+  let results = list;
+  const added: ScanResult[] = [];
+  const inDelivery = new Set<string>();
+  let repeats = 0;
+
+  const addRow = (row: ScanResult) => {
+    results = [row, ...results];
+    added.push(row);
+  };
+
+  incoming.forEach((result) => {
+    // The newest row for the code; rows are newest first
+    const previous =
+      policy.scope === "frame" && !inDelivery.has(result.text)
+        ? undefined
+        : results.find((row) => row.text === result.text);
+    const earlier = policy.scope === "history" ? history.get(result.text) : undefined;
+    inDelivery.add(result.text);
+
+    if (!previous && !earlier) {
+      addRow({ ...result, occurrences: 1, lastSeen: result.timestamp });
+      return;
+    }
+
+    repeats++;
+    const occurrences = (previous ? getOccurrences(previous) : earlier?.count ?? 0) + 1;
+    const repeat: ScanResult = { ...result, isDuplicate: true, occurrences, lastSeen: result.timestamp };
+
+    switch (policy.mode) {
+      case "drop":
+        return;
+      case "flag":
+        addRow(repeat);
+        return;
+      case "count":
+        if (previous) {
+          const counted = { ...previous, occurrences, lastSeen: result.timestamp };
+          results = results.map((row) => (row === previous ? counted : row));
+        } else {
+          addRow(repeat); // Known only from history: this session's first row for it
+        }
+        return;
+      case "window": {
+        // Measured from when the code was last listed, so a code held in view
+        // is listed again once per window
+        const listedAt = previous ? previous.timestamp : (earlier as HistoryEntry).lastSeen;
+        if (result.timestamp.getTime() - listedAt.getTime() >= policy.windowSeconds * 1000) {
+          addRow(repeat);
+        }
+        return;
+      }
+    }
+  });
+
+  return { results, added, repeats };
+};
@@ -0,0 +1,130 @@
+import { parsePayload } from "./payloadParser";
+import { getSessionName } from "./sessionStore";
+import type { ScanResult, ScanSession } from "../types";
+
+export type ExportFormat = "csv" | "tsv" | "ndjson" | "json";
+
+type CellValue = string | number | boolean | undefined;
+
+export interface ExportColumn {
+  key: string;
+  label: string;
+  // Not ticked until the user asks for it
+  optional?: boolean;
+  value: (result: ScanResult, session: ScanSession | null) => CellValue;
+}
+
+export interface ExportOptions {
+  format: ExportFormat;
+  columns: string[]; // ExportColumn keys, in output order
+  session: ScanSession | null; // Metadata for the session_* columns
+}
+
+export interface ExportFormatInfo {
+  value: ExportFormat;
+  label: string;
+  extension: string;
+  mimeType: string;
+}
+
+export const EXPORT_FORMATS: ExportFormatInfo[] = [
+  { value: "csv", label: "CSV", extension: "csv", mimeType: "text/csv" },
+  { value: "tsv", label: "TSV", extension: "tsv", mimeType: "text/tab-separated-values" },
+  { value: "ndjson", label: "NDJSON", extension: "ndjson", mimeType: "application/x-ndjson" },
+  { value: "json", label: "JSON", extension: "json", mimeType: "application/json" },
+];
+
+const iso = (date: Date | undefined): string | undefined => date?.toISOString();
+
+// Every exportable field of a ScanResult, plus the session it belongs to
+export const EXPORT_COLUMNS: ExportColumn[] = [
+  { key: "id", label: "ID", value: (r) => r.id },
+  { key: "text", label: "Text", value: (r) => r.text },
+  { key: "format", label: "Format", value: (r) => r.format },
+  { key: "timestamp", label: "Timestamp", value: (r) => iso(r.timestamp) },
+  { key: "confidence", label: "Confidence", value: (r) => r.confidence },
+  { key: "source", label: "Source", value: (r) => r.source },
+  { key: "source_name", label: "Source file", value: (r) => r.sourceName },
+  { key: "is_duplicate", label: "Duplicate", value: (r) => r.isDuplicate ?? false },
+  { key: "occurrences", label: "Times scanned", optional: true, value: (r) => r.occurrences ?? 1 },
+  { key: "last_seen", label: "Last seen", optional: true, value: (r) => iso(r.lastSeen ?? r.timestamp) },
+  {
+    key: "payload_type",
+    label: "Payload type",
+    optional: true,
+    value: (r) => parsePayload(r.text).type,
+  },
+  { key: "bbox_x", label: "Box x", optional: true, value: (r) => r.boundingBox?.x },
+  { key: "bbox_y", label: "Box y", optional: true, value: (r) => r.boundingBox?.y },
+  { key: "bbox_width", label: "Box width", optional: true, value: (r) => r.boundingBox?.width },
+  { key: "bbox_height", label: "Box height", optional: true, value: (r) => r.boundingBox?.height },
+  {
+    key: "bbox_corners",
+    label: "Box corners",
+    optional: true,
+    value: (r) => (r.boundingBox?.corners ? JSON.stringify(r.boundingBox.corners) : undefined),
+  },
+  { key: "gs1_gtin", label: "GTIN", optional: true, value: (r) => r.gs1?.gtin },
+  { key: "gs1_gtin_valid", label: "GTIN valid", optional: true, value: (r) => r.gs1?.gtinValid },
+  { key: "gs1_batch", label: "Batch", optional: true, value: (r) => r.gs1?.batch },
+  { key: "gs1_expiry", label: "Expiry", optional: true, value: (r) => r.gs1?.expiry },
+  { key: "gs1_serial", label: "Serial", optional: true, value: (r) => r.gs1?.serial },
+  { key: "gs1_count", label: "Count", optional: true, value: (r) => r.gs1?.count },
+  {
+    key: "gs1_net_weight_kg",
+    label: "Net weight (kg)",
+    optional: true,
+    value: (r) => r.gs1?.netWeightKg,
+  },
+  { key: "session_id", label: "Session ID", value: (_, s) => s?.id },
+  { key: "session_name", label: "Session name", value: (_, s) => (s ? getSessionName(s) : undefined) },
+  { key: "session_start", label: "Session start", value: (_, s) => iso(s?.startTime) },
+  { key: "session_end", label: "Session end", optional: true, value: (_, s) => iso(s?.endTime) },
+  { key: "session_scan_mode", label: "Scan mode", optional: true, value: (_, s) => s?.config.scanMode },
+];
+
+export const DEFAULT_EXPORT_COLUMNS = EXPORT_COLUMNS.filter((column) => !column.optional).map(
+  (column) => column.key
+);
+
+// RFC 4180: quote fields containing the delimiter, quotes or line breaks; double embedded quotes
+export const escapeCsv = (value: string): string =>
+  /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value;
+
+// TSV can't quote, so tabs and line breaks inside a field are written as escape sequences
+const escapeTsv = (value: string): string =>
+  value.replace(/\\/g, "\\\\").replace(/\t/g, "\\t").replace(/\r/g, "\\r").replace(/\n/g, "\\n");
+
+const toCell = (value: CellValue): string => (value === undefined ? "" : String(value));
+
+export const exportResults = (results: ScanResult[], options: ExportOptions): string => {
+  const columns = options.columns
+    .map((key) => EXPORT_COLUMNS.find((column) => column.key === key))
+    .filter((column): column is ExportColumn => column !== undefined);
+
+  const records = results.map((result) =>
+    columns.map((column) => column.value(result, options.session))
+  );
+
+  switch (options.format) {
+    case "csv":
+    case "tsv": {
+      const escape = options.format === "csv" ? escapeCsv : escapeTsv;
+      const delimiter = options.format === "csv" ? "," : "\t";
+      const lines = [
+        columns.map((column) => column.key),
+        ...records.map((record) => record.map(toCell)),
+      ];
+      return lines.map((line) => line.map(escape).join(delimiter)).join("\r\n") + "\r\n";
+    }
+    case "ndjson":
+    case "json": {
+      const objects = records.map((record) =>
+        Object.fromEntries(columns.map((column, index) => [column.key, record[index] ?? null]))
+      );
+      return options.format === "json"
+        ? JSON.stringify(objects, null, 2)
+        : objects.map((object) => JSON.stringify(object)).join("\n") + "\n";
+    }
+  }
+};
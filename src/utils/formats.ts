@@ -0,0 +1,33 @@
+import type { BarcodeFormatName } from "../types";
+
+export const SUPPORTED_FORMATS: BarcodeFormatName[] = [
+  "QR_CODE",
+  "CODE_128",
+  "CODE_39",
+  "EAN_13",
+  "EAN_8",
+  "UPC_A",
+  "UPC_E",
+  "ITF",
+  "DATA_MATRIX",
+  "PDF_417",
+  "AZTEC",
+];
+
+export const FORMAT_LABELS: Record<BarcodeFormatName, string> = {
+  QR_CODE: "QR",
+  CODE_128: "Code 128",
+  CODE_39: "Code 39",
+  EAN_13: "EAN-13",
+  EAN_8: "EAN-8",
+  UPC_A: "UPC-A",
+  UPC_E: "UPC-E",
+  ITF: "ITF",
+  DATA_MATRIX: "DataMatrix",
+  PDF_417: "PDF417",
+  AZTEC: "Aztec",
+};
+
+// Human-readable label for a ScanResult.format value (falls back to the raw name)
+export const formatLabel = (format: string): string =>
+  FORMAT_LABELS[format as BarcodeFormatName] ?? format;
@@ -0,0 +1,524 @@
+import jsQR from "jsqr";
+import type { QRCode } from "jsqr";
+import { PerspectiveTransform } from "@zxing/library";
+import { SUPPORTED_FORMATS } from "./formats";
+import { decodeWithZXing, isZXingFormat, toLuminance } from "./zxingDecoder";
+import type { ZXingHit } from "./zxingDecoder";
+import { parseGs1 } from "./gs1Parser";
+import type {
+  BarcodeFormatName,
+  DecodeOptions,
+  FrameDecodeResult,
+  Point,
+  ScanResult,
+  StructuredAppendInfo,
+} from "../types";
+
+// Tile scales searched, coarse to fine (1 = the whole frame)
+const TILE_SCALES = [1, 2, 3, 4, 6, 8];
+// Full sweeps over all tiles; later sweeps only revisit tiles touched by new masks
+const MAX_ROUNDS = 8;
+// Safety net against a symbol that keeps decoding after being masked
+const MAX_PASSES_PER_TILE = 16;
+// Masks are grown around the symbol centre to cover its quiet zone
+const MASK_GROWTH = 1.2;
+// Tiles whose sampled luminance range is below this are treated as blank
+const MIN_TILE_CONTRAST = 48;
+
+// Finest tile scale where ZXing runs on the tiles jsQR missed (see decodeTileOnce)
+const ZXING_MAX_SCALE = 3;
+// Tiles whose mean level (0 = their darkest sample, 1 = their lightest) is below this are
+// mostly dark, so light-on-dark codes are looked for first; between the two, both ways
+const DARK_TILE_LEVEL = 0.4;
+const LIGHT_TILE_LEVEL = 0.55;
+// QR symbols kept in the Structured Append check cache (see checkForPart)
+const MAX_PART_CHECKS = 1000;
+// Symbols redrawn for ZXing get this many pixels per module and a 4-module quiet zone
+const REDRAW_MODULE_SIZE = 2;
+const REDRAW_QUIET_ZONE = 4;
+
+// A rectangular area of the frame, in pixels
+interface FrameRegion {
+  name: string;
+  scale: number;
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+// Copy a region of the frame into its own pixel buffer (no canvas needed, so it works in a worker)
+const cropPixels = (
+  pixels: Uint8ClampedArray,
+  frameWidth: number,
+  region: FrameRegion
+): Uint8ClampedArray => {
+  const { x, y, width, height } = region;
+  const out = new Uint8ClampedArray(width * height * 4);
+  const rowBytes = width * 4;
+
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * frameWidth + x) * 4;
+    out.set(pixels.subarray(start, start + rowBytes), row * rowBytes);
+  }
+
+  return out;
+};
+
+type Polarity = "light" | "dark" | "mixed";
+
+// Cheap look at a sparse sample: a blank tile (null) holds no code worth decoding, and a
+// mostly dark one is where a light-on-dark code would be
+const samplePolarity = (tile: Uint8ClampedArray): Polarity | null => {
+  let min = 255;
+  let max = 0;
+  let sum = 0;
+  let count = 0;
+  const step = 4 * 37; // sample every 37th pixel
+  for (let i = 0; i < tile.length; i += step) {
+    const value = tile[i + 1]; // green is a good enough luminance proxy
+    if (value < min) min = value;
+    if (value > max) max = value;
+    sum += value;
+    count++;
+  }
+  if (max - min < MIN_TILE_CONTRAST) return null;
+
+  const level = (sum / count - min) / (max - min);
+  return level < DARK_TILE_LEVEL ? "dark" : level < LIGHT_TILE_LEVEL ? "mixed" : "light";
+};
+
+// Flip a tile's RGB in place, so a light-on-dark code reads like any other
+const invertPixels = (tile: Uint8ClampedArray) => {
+  for (let i = 0; i < tile.length; i += 4) {
+    tile[i] = 255 - tile[i];
+    tile[i + 1] = 255 - tile[i + 1];
+    tile[i + 2] = 255 - tile[i + 2];
+  }
+};
+
+// Paint over a decoded symbol (plus its quiet zone) so the next pass finds the codes around it
+const maskSymbol = (
+  pixels: Uint8ClampedArray,
+  frameWidth: number,
+  frameHeight: number,
+  box: NonNullable<ScanResult["boundingBox"]>
+) => {
+  const corners = box.corners ?? [];
+  const cx = box.x + box.width / 2;
+  const cy = box.y + box.height / 2;
+  const polygon =
+    corners.length >= 3
+      ? corners.map((point) => ({
+          x: cx + (point.x - cx) * MASK_GROWTH,
+          y: cy + (point.y - cy) * MASK_GROWTH,
+        }))
+      : null;
+
+  const padX = (box.width * (MASK_GROWTH - 1)) / 2;
+  const padY = (box.height * (MASK_GROWTH - 1)) / 2;
+  const left = Math.max(0, Math.floor(box.x - padX));
+  const top = Math.max(0, Math.floor(box.y - padY));
+  const right = Math.min(frameWidth - 1, Math.ceil(box.x + box.width + padX));
+  const bottom = Math.min(frameHeight - 1, Math.ceil(box.y + box.height + padY));
+
+  for (let y = top; y <= bottom; y++) {
+    for (let x = left; x <= right; x++) {
+      if (polygon && !isInsidePolygon(x, y, polygon)) continue;
+      const i = (y * frameWidth + x) * 4;
+      pixels[i] = pixels[i + 1] = pixels[i + 2] = 255;
+    }
+  }
+};
+
+const overlaps = (
+  box: NonNullable<ScanResult["boundingBox"]>,
+  region: FrameRegion
+): boolean =>
+  box.x < region.x + region.width &&
+  box.x + box.width > region.x &&
+  box.y < region.y + region.height &&
+  box.y + box.height > region.y;
+
+// Even-odd ray casting
+const isInsidePolygon = (x: number, y: number, polygon: Point[]): boolean => {
+  let inside = false;
+  for (let i = 0, j = polygon.length - 1; i < polygon.length; j = i++) {
+    const a = polygon[i];
+    const b = polygon[j];
+    if (a.y > y !== b.y > y && x < ((b.x - a.x) * (y - a.y)) / (b.y - a.y) + a.x) {
+      inside = !inside;
+    }
+  }
+  return inside;
+};
+
+// Map region-local points back to the full frame and wrap them in a box.
+// 1D barcodes only report points along the scan line, so give them some height.
+const toBoundingBox = (
+  points: Point[],
+  region: FrameRegion
+): ScanResult["boundingBox"] => {
+  if (points.length === 0) return undefined;
+
+  const corners = points.map((point) => ({
+    x: point.x + region.x,
+    y: point.y + region.y,
+  }));
+  const xs = corners.map((point) => point.x);
+  const ys = corners.map((point) => point.y);
+
+  const x = Math.min(...xs);
+  const width = Math.max(...xs) - x;
+  let y = Math.min(...ys);
+  let height = Math.max(...ys) - y;
+
+  const minHeight = width * 0.3;
+  if (height < minHeight) {
+    y -= (minHeight - height) / 2;
+    height = minHeight;
+  }
+
+  return { x, y, width, height, corners };
+};
+
+// How undistorted the outline is: opposite sides and the diagonals should match.
+// A frontal symbol scores 1; strong perspective or a partial read scores lower.
+// Outlines that aren't quadrilaterals (1D scan lines, PDF417) are taken at face value.
+const geometryConfidence = (corners: Point[]): number => {
+  if (corners.length !== 4) return 1;
+
+  const distance = (a: Point, b: Point) => Math.hypot(a.x - b.x, a.y - b.y);
+  const ratio = (a: number, b: number) =>
+    Math.max(a, b) === 0 ? 0 : Math.min(a, b) / Math.max(a, b);
+  const [a, b, c, d] = corners;
+
+  const score =
+    ratio(distance(a, b), distance(d, c)) *
+    ratio(distance(a, d), distance(b, c)) *
+    ratio(distance(a, c), distance(b, d));
+
+  return Math.round(score * 100) / 100;
+};
+
+// Overlapping square tiles at several scales: at scale n a tile spans 1/n of the frame's
+// long side and tiles step by a third of a tile, so every code up to two thirds of a tile
+// sits wholly inside at least one of them, ideally without half of a neighbour alongside.
+const getTiles = (width: number, height: number, scales: number[]): FrameRegion[] => {
+  const tiles: FrameRegion[] = [];
+  const longSide = Math.max(width, height);
+
+  const offsets = (length: number, tileLength: number): number[] => {
+    const step = Math.max(1, Math.floor(tileLength / 3));
+    const result: number[] = [];
+    for (let offset = 0; offset + tileLength < length; offset += step) {
+      result.push(offset);
+    }
+    result.push(length - tileLength);
+    return result;
+  };
+
+  for (const scale of scales) {
+    const side = Math.ceil(longSide / scale);
+    const tileWidth = Math.min(side, width);
+    const tileHeight = Math.min(side, height);
+
+    offsets(height, tileHeight).forEach((y, row) => {
+      offsets(width, tileWidth).forEach((x, col) => {
+        tiles.push({
+          name: `s${scale}-${row}-${col}`,
+          scale,
+          x,
+          y,
+          width: tileWidth,
+          height: tileHeight,
+        });
+      });
+    });
+  }
+
+  return tiles;
+};
+
+// Redraw the symbol jsQR located as a clean, upright one: each module is sampled where
+// jsQR's finder and alignment patterns put it. ZXing's own detector misses blurred or
+// light-on-dark symbols that jsQR has read, but not once they're redrawn.
+const redrawQrSymbol = (
+  tile: Uint8ClampedArray,
+  region: FrameRegion,
+  result: QRCode
+): { luminance: Uint8ClampedArray; size: number } => {
+  const dimension = 17 + 4 * result.version;
+  const { topLeftFinderPattern, topRightFinderPattern, bottomLeftFinderPattern } = result.location;
+  // Finder centres sit 3.5 modules in from the edges, jsQR's alignment point 6.5
+  const alignment = result.location.bottomRightAlignmentPattern;
+  const bottomRight = alignment ?? result.location.bottomRightCorner;
+  const bottomRightAt = alignment ? dimension - 6.5 : dimension;
+  const transform = PerspectiveTransform.quadrilateralToQuadrilateral(
+    3.5, 3.5,
+    dimension - 3.5, 3.5,
+    bottomRightAt, bottomRightAt,
+    3.5, dimension - 3.5,
+    topLeftFinderPattern.x, topLeftFinderPattern.y,
+    topRightFinderPattern.x, topRightFinderPattern.y,
+    bottomRight.x, bottomRight.y,
+    bottomLeftFinderPattern.x, bottomLeftFinderPattern.y
+  );
+  const centres = new Float32Array(dimension * dimension * 2);
+  for (let i = 0; i < dimension * dimension; i++) {
+    centres[i * 2] = (i % dimension) + 0.5;
+    centres[i * 2 + 1] = Math.floor(i / dimension) + 0.5;
+  }
+  transform.transformPoints(centres);
+
+  const levels = new Uint8ClampedArray(dimension * dimension);
+  let sum = 0;
+  for (let i = 0; i < levels.length; i++) {
+    const x = Math.min(region.width - 1, Math.max(0, Math.floor(centres[i * 2])));
+    const y = Math.min(region.height - 1, Math.max(0, Math.floor(centres[i * 2 + 1])));
+    levels[i] = tile[(y * region.width + x) * 4 + 1]; // green, as in samplePolarity
+    sum += levels[i];
+  }
+  // The top-left module is part of a finder pattern, so it tells which way round the code is
+  const threshold = sum / levels.length;
+  const darkBelow = levels[0] < threshold;
+
+  const size = (dimension + 2 * REDRAW_QUIET_ZONE) * REDRAW_MODULE_SIZE;
+  const luminance = new Uint8ClampedArray(size * size).fill(255);
+  for (let i = 0; i < levels.length; i++) {
+    if (levels[i] < threshold !== darkBelow) continue;
+    const left = ((i % dimension) + REDRAW_QUIET_ZONE) * REDRAW_MODULE_SIZE;
+    const top = (Math.floor(i / dimension) + REDRAW_QUIET_ZONE) * REDRAW_MODULE_SIZE;
+    for (let row = top; row < top + REDRAW_MODULE_SIZE; row++) {
+      luminance.fill(0, row * size + left, row * size + left + REDRAW_MODULE_SIZE);
+    }
+  }
+  return { luminance, size };
+};
+
+// Small modules are drawn too unevenly for the redraw to sample them, so ZXing also gets a
+// crop of the tile to measure for itself
+const readCroppedSymbol = (
+  tile: Uint8ClampedArray,
+  region: FrameRegion,
+  points: Point[]
+): ZXingHit | null => {
+  // Just this symbol and its quiet zone, so ZXing can't pick a neighbour instead
+  const xs = points.map((point) => point.x);
+  const ys = points.map((point) => point.y);
+  const margin = Math.max(Math.max(...xs) - Math.min(...xs), Math.max(...ys) - Math.min(...ys)) / 4;
+  const x = Math.max(0, Math.floor(Math.min(...xs) - margin));
+  const y = Math.max(0, Math.floor(Math.min(...ys) - margin));
+  const crop: FrameRegion = {
+    name: "part-check",
+    scale: region.scale,
+    x,
+    y,
+    width: Math.min(region.width, Math.ceil(Math.max(...xs) + margin)) - x,
+    height: Math.min(region.height, Math.ceil(Math.max(...ys) + margin)) - y,
+  };
+  return decodeWithZXing(
+    toLuminance(cropPixels(tile, region.width, crop), crop.width, crop.height),
+    crop.width,
+    crop.height,
+    ["QR_CODE"],
+    true
+  );
+};
+
+// A QR payload from jsQR as ZXing sees it: the Structured Append part it really is, a
+// plain code, or pending while ZXing hasn't managed to read the symbol
+type PartCheck = ZXingHit | "plain" | "pending";
+
+// What ZXing made of each QR payload jsQR has reported. Lives as long as the worker, so
+// a payload ZXing has settled isn't read again.
+const partChecks = new Map<string, ZXingHit | "plain">();
+
+// jsQR reads the parts of a Structured Append sequence as garbage, so the first time it
+// reports a payload the same symbol is read again by ZXing, which understands the header.
+// Until ZXing has read it the payload may be part of something else, so it stays pending
+// (and is tried again on the next frame) rather than being reported as a code of its own.
+const checkForPart = (
+  result: QRCode,
+  tile: Uint8ClampedArray,
+  region: FrameRegion,
+  points: Point[]
+): PartCheck => {
+  const known = partChecks.get(result.data);
+  if (known) return known;
+
+  const { luminance, size } = redrawQrSymbol(tile, region, result);
+  const read =
+    decodeWithZXing(luminance, size, size, ["QR_CODE"]) ?? readCroppedSymbol(tile, region, points);
+  if (!read) return "pending";
+
+  const check = read.structuredAppend ? read : "plain";
+  partChecks.set(result.data, check);
+  if (partChecks.size > MAX_PART_CHECKS) {
+    partChecks.delete(partChecks.keys().next().value as string);
+  }
+  return check;
+};
+
+// Timing buckets: each tile scale is one detection strategy
+const strategyName = (scale: number): string =>
+  scale === 1 ? "full frame" : `1/${scale} tiles`;
+
+// Decode every code we can find in a single frame, limited to the allowed formats.
+// Each tile is decoded repeatedly: every hit is masked out of the working copy and the
+// tile is searched again, until it yields nothing new. Tiles are then revisited while
+// masking keeps turning up new codes.
+// Each distinct payload is reported once per frame; cross-frame dedup is the caller's job.
+export const decodeFrameWithStats = (
+  frame: ImageData,
+  options: DecodeOptions = { formats: SUPPORTED_FORMATS }
+): FrameDecodeResult => {
+  const startTime = performance.now();
+  const strategyTimes: Record<string, number> = {};
+  const results: ScanResult[] = [];
+  const seen = new Set<string>();
+  const decodeQR = options.formats.includes("QR_CODE");
+  const zxingFormats = options.formats.filter(isZXingFormat);
+  const { width: frameWidth, height: frameHeight } = frame;
+  // Masking is destructive, so work on a copy
+  const pixels = new Uint8ClampedArray(frame.data);
+
+  // On a jsQR miss ZXing also looks for QR codes, to find the Structured Append parts
+  // jsQR can't read; it shares one binarized bitmap with the other formats
+  const fallbackFormats: BarcodeFormatName[] = decodeQR ? [...zxingFormats, "QR_CODE"] : zxingFormats;
+
+  const decodeTileOnce = (
+    tile: Uint8ClampedArray,
+    region: FrameRegion,
+    polarity: Polarity
+  ): {
+    text: string;
+    format: string;
+    points: Point[];
+    structuredAppend?: StructuredAppendInfo;
+    pending?: boolean; // A symbol that may be a Structured Append part: masked, not reported
+  } | null => {
+    let emptyHit: ZXingHit | null = null;
+
+    if (decodeQR) {
+      // The whole frame may hold codes of both kinds; a tile is looked at the way its
+      // sample suggests (dark ones arrive inverted), so light-on-dark codes don't cost a
+      // second pass on every tile
+      const result = jsQR(tile, region.width, region.height, {
+        inversionAttempts: region.scale === 1 || polarity === "mixed" ? "attemptBoth" : "dontInvert",
+      });
+      if (result) {
+        const { topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner } =
+          result.location;
+        const hit: ZXingHit = {
+          text: result.data,
+          format: "QR_CODE",
+          points: [topLeftCorner, topRightCorner, bottomRightCorner, bottomLeftCorner],
+        };
+        // An empty string is what jsQR makes of some Structured Append parts
+        if (hit.text === "") {
+          emptyHit = hit;
+        } else {
+          const check = checkForPart(result, tile, region, hit.points);
+          return check === "plain"
+            ? hit
+            : check === "pending"
+              ? { ...hit, pending: true }
+              : { ...hit, text: check.text, structuredAppend: check.structuredAppend };
+        }
+      }
+    }
+
+    // ZXing costs as much as jsQR again on every miss, and most fine tiles miss, so it
+    // runs on the full frame and coarse tiles (1D readers scan whole rows, so a barcode
+    // doesn't need a tile of its own), and on finer tiles only where jsQR located a symbol
+    if (fallbackFormats.length > 0 && (region.scale <= ZXING_MAX_SCALE || emptyHit)) {
+      const luminance = toLuminance(tile, region.width, region.height);
+      const hit = decodeWithZXing(luminance, region.width, region.height, fallbackFormats);
+      if (hit) return hit;
+    }
+
+    return emptyHit && { ...emptyHit, pending: true };
+  };
+
+  const multiScan = options.multiScan ?? true;
+  const maxCodes = multiScan ? (options.maxCodes ?? Infinity) : 1;
+  const tiles = getTiles(frameWidth, frameHeight, multiScan ? TILE_SCALES : [1]);
+  const masks: NonNullable<ScanResult["boundingBox"]>[] = [];
+  // Number of masks that existed when each tile was last searched (-1 = never)
+  const searchedAt = tiles.map(() => -1);
+
+  // Masking a code can unblock a tile that failed earlier (a neighbour's finder
+  // patterns were confusing it), so sweep again until a sweep finds nothing new
+  for (let round = 0, progress = true; progress && round < MAX_ROUNDS; round++) {
+    progress = false;
+
+    tiles.forEach((region, index) => {
+      if (results.length >= maxCodes) return;
+      if (region.width === 0 || region.height === 0) return;
+      if (
+        searchedAt[index] >= 0 &&
+        !masks.slice(searchedAt[index]).some((mask) => overlaps(mask, region))
+      ) {
+        return;
+      }
+
+      const tileStart = performance.now();
+      try {
+        for (
+          let pass = 0;
+          pass < MAX_PASSES_PER_TILE && results.length < maxCodes;
+          pass++
+        ) {
+          const tile = cropPixels(pixels, frameWidth, region);
+          const polarity = samplePolarity(tile);
+          if (!polarity) break;
+          if (polarity === "dark" && region.scale > 1) invertPixels(tile);
+
+          const hit = decodeTileOnce(tile, region, polarity);
+          if (!hit) break;
+
+          const boundingBox = toBoundingBox(hit.points, region);
+          if (!boundingBox) break; // can't mask it, so searching again would find it again
+
+          maskSymbol(pixels, frameWidth, frameHeight, boundingBox);
+          masks.push(boundingBox);
+
+          if (!hit.pending && !seen.has(hit.text)) {
+            seen.add(hit.text);
+            progress = true;
+            results.push({
+              id: `true-multi-${region.name}-${Date.now()}-${Math.random()}`,
+              text: hit.text,
+              timestamp: new Date(),
+              format: hit.format,
+              confidence: geometryConfidence(boundingBox.corners ?? []),
+              source: "camera",
+              boundingBox,
+              gs1: parseGs1(hit.text, hit.format) ?? undefined,
+              structuredAppend: hit.structuredAppend,
+            });
+          }
+        }
+      } catch (error) {
+        console.error(`Region ${region.name} scan error:`, error);
+      }
+
+      searchedAt[index] = masks.length;
+      const strategy = strategyName(region.scale);
+      strategyTimes[strategy] =
+        (strategyTimes[strategy] ?? 0) + performance.now() - tileStart;
+    });
+  }
+
+  return {
+    results,
+    decodeTime: performance.now() - startTime,
+    strategyTimes,
+  };
+};
+
+export const decodeFrame = (
+  frame: ImageData,
+  options?: DecodeOptions
+): ScanResult[] => decodeFrameWithStats(frame, options).results;
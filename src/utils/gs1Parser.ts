@@ -0,0 +1,248 @@
+import type { Gs1Data, Gs1Element } from "../types";
+
+// Group separator: FNC1 inside a GS1 element string
+const GS = "\u001d";
+// AIM symbology identifiers that announce GS1 data (GS1-128, DataMatrix, QR, Aztec)
+const GS1_SYMBOLOGY_IDS = /^\](C1|d2|Q3|z[0-9A-F])/;
+
+interface AiDefinition {
+  label: string;
+  // Fixed data length; otherwise variable up to maxLength and ended by GS
+  length?: number;
+  maxLength?: number;
+  // Four-digit AI whose last digit is the position of the implied decimal point (310n)
+  decimal?: boolean;
+}
+
+// The AIs we label and interpret. Keys are 2 or 3 digits; decimal AIs take one more digit.
+const AI_DEFINITIONS: Record<string, AiDefinition> = {
+  "00": { label: "SSCC", length: 18 },
+  "01": { label: "GTIN", length: 14 },
+  "02": { label: "Content GTIN", length: 14 },
+  "10": { label: "Batch/Lot", maxLength: 20 },
+  "11": { label: "Production date", length: 6 },
+  "13": { label: "Packaging date", length: 6 },
+  "15": { label: "Best before", length: 6 },
+  "16": { label: "Sell by", length: 6 },
+  "17": { label: "Expiry", length: 6 },
+  "20": { label: "Variant", length: 2 },
+  "21": { label: "Serial", maxLength: 20 },
+  "22": { label: "Consumer variant", maxLength: 20 },
+  "30": { label: "Count", maxLength: 8 },
+  "37": { label: "Units contained", maxLength: 8 },
+  "240": { label: "Additional ID", maxLength: 30 },
+  "241": { label: "Customer part no.", maxLength: 30 },
+  "400": { label: "Order no.", maxLength: 30 },
+  "410": { label: "Ship to GLN", length: 13 },
+  "414": { label: "Location GLN", length: 13 },
+  "310": { label: "Net weight (kg)", length: 6, decimal: true },
+  "320": { label: "Net weight (lb)", length: 6, decimal: true },
+};
+
+const DATE_AIS = new Set(["11", "13", "15", "16", "17"]);
+// Digital Link primary keys we recognise in the URI path, with the digit counts each allows
+// (GTIN-8/12/13/14, SSCC, GLN), so dates and IDs in ordinary URLs aren't taken for one
+const DIGITAL_LINK_KEYS: Record<string, number[]> = {
+  "00": [18],
+  "01": [8, 12, 13, 14],
+  "414": [13],
+};
+const POUNDS_TO_KG = 0.45359237;
+
+const lookupAi = (
+  text: string,
+  position: number
+): { ai: string; definition: AiDefinition } | null => {
+  for (const prefixLength of [2, 3]) {
+    const prefix = text.slice(position, position + prefixLength);
+    const definition = AI_DEFINITIONS[prefix];
+    if (!definition) continue;
+    const ai = definition.decimal ? text.slice(position, position + prefixLength + 1) : prefix;
+    const expectedLength = prefix.length + (definition.decimal ? 1 : 0);
+    if (!/^\d+$/.test(ai) || ai.length !== expectedLength) return null;
+    return { ai, definition };
+  }
+  return null;
+};
+
+const definitionFor = (ai: string): AiDefinition | undefined =>
+  AI_DEFINITIONS[ai] ?? (ai.length === 4 ? AI_DEFINITIONS[ai.slice(0, 3)] : undefined);
+
+// Mod-10 check digit over any GTIN length (weights 3,1,3,... from the right)
+export const isValidGtin = (gtin: string): boolean => {
+  if (!/^\d{8}$|^\d{12,14}$/.test(gtin)) return false;
+  const digits = gtin.split("").map(Number);
+  const check = digits.pop();
+  const sum = digits
+    .reverse()
+    .reduce((total, digit, index) => total + digit * (index % 2 === 0 ? 3 : 1), 0);
+  return (10 - (sum % 10)) % 10 === check;
+};
+
+// YYMMDD with GS1's sliding century window; DD = 00 means the last day of the month
+const toIsoDate = (value: string): string | undefined => {
+  const match = /^(\d{2})(\d{2})(\d{2})$/.exec(value);
+  if (!match) return undefined;
+  const [yy, mm, dd] = match.slice(1).map(Number);
+  if (mm < 1 || mm > 12) return undefined;
+
+  const currentYear = new Date().getFullYear();
+  const century = Math.floor(currentYear / 100) * 100;
+  const difference = yy - (currentYear % 100);
+  const year = century + yy + (difference >= 51 ? -100 : difference <= -50 ? 100 : 0);
+  const day = dd === 0 ? new Date(year, mm, 0).getDate() : dd;
+
+  return `${year}-${String(mm).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+};
+
+// "(01)0950...(17)201225" style, as printed under barcodes and typed by people
+const parseBracketed = (text: string): Gs1Element[] | null => {
+  const elements: Gs1Element[] = [];
+  const pattern = /\((\d{2,4})\)([^(]*)/g;
+  let consumed = 0;
+  for (let match = pattern.exec(text); match; match = pattern.exec(text)) {
+    if (match.index !== consumed) return null;
+    consumed = pattern.lastIndex;
+    const [, ai, value] = match;
+    elements.push({ ai, label: definitionFor(ai)?.label ?? `AI ${ai}`, value });
+  }
+  return consumed === text.length && elements.length > 0 ? elements : null;
+};
+
+// Concatenated element string: fixed-length AIs run on, variable ones end at GS.
+// Stops at the first AI we don't know, since its length can't be determined.
+const parseElementString = (text: string): Gs1Element[] => {
+  const elements: Gs1Element[] = [];
+  let position = 0;
+
+  while (position < text.length) {
+    if (text[position] === GS) {
+      position++;
+      continue;
+    }
+    const found = lookupAi(text, position);
+    if (!found) break;
+
+    const { ai, definition } = found;
+    const start = position + ai.length;
+    let end: number;
+    if (definition.length !== undefined) {
+      end = start + definition.length;
+    } else {
+      const separator = text.indexOf(GS, start);
+      end = Math.min(
+        separator < 0 ? text.length : separator,
+        start + (definition.maxLength ?? text.length)
+      );
+    }
+    elements.push({ ai, label: definition.label, value: text.slice(start, end) });
+    position = end;
+  }
+  return elements;
+};
+
+// https://id.gs1.org/01/09506000134352/10/ABC?17=201225 (any resolver domain)
+const parseDigitalLink = (text: string): Gs1Element[] | null => {
+  let url: URL;
+  try {
+    url = new URL(text);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== "https:" && url.protocol !== "http:") return null;
+
+  const segments = url.pathname.split("/").filter(Boolean).map((segment) => {
+    try {
+      return decodeURIComponent(segment);
+    } catch {
+      return segment;
+    }
+  });
+  const keyIndex = segments.findIndex((segment, index) => {
+    const value = segments[index + 1];
+    return (
+      Object.hasOwn(DIGITAL_LINK_KEYS, segment) &&
+      value !== undefined &&
+      /^\d+$/.test(value) &&
+      DIGITAL_LINK_KEYS[segment].includes(value.length)
+    );
+  });
+  if (keyIndex < 0) return null;
+
+  const elements: Gs1Element[] = [];
+  const add = (ai: string, value: string) => {
+    if (!/^\d{2,4}$/.test(ai)) return;
+    const normalized = ai === "01" || ai === "02" ? value.padStart(14, "0") : value;
+    elements.push({ ai, label: definitionFor(ai)?.label ?? `AI ${ai}`, value: normalized });
+  };
+
+  // Primary key then key qualifiers, as AI/value pairs
+  for (let i = keyIndex; i + 1 < segments.length; i += 2) {
+    add(segments[i], segments[i + 1]);
+  }
+  // Data attributes go in the query string
+  url.searchParams.forEach((value, key) => add(key, value));
+
+  return elements.length > 0 ? elements : null;
+};
+
+const summarize = (elements: Gs1Element[], digitalLink: boolean): Gs1Data => {
+  const data: Gs1Data = { elements, digitalLink };
+  elements.forEach(({ ai, value }) => {
+    if (ai === "01") {
+      data.gtin = value;
+      data.gtinValid = isValidGtin(value);
+    } else if (ai === "10") {
+      data.batch = value;
+    } else if (ai === "17") {
+      data.expiry = toIsoDate(value);
+    } else if (ai === "21") {
+      data.serial = value;
+    } else if (ai === "30" || ai === "37") {
+      data.count = Number(value);
+    } else if (/^3[12]0\d$/.test(ai) && /^\d{6}$/.test(value)) {
+      const weight = Number(value) / 10 ** Number(ai[3]);
+      data.netWeightKg = ai.startsWith("320") ? weight * POUNDS_TO_KG : weight;
+    }
+  });
+  return data;
+};
+
+// Raw element string as decoded from GS1-128 / GS1 DataMatrix (symbology identifier or leading FNC1)
+export const isGs1ElementString = (text: string): boolean =>
+  GS1_SYMBOLOGY_IDS.test(text) || text.startsWith(GS);
+
+// Human-readable form, e.g. "(01)09506000134352(17)201225(10)ABC"
+export const formatGs1 = (data: Gs1Data): string =>
+  data.elements.map(({ ai, value }) => `(${ai})${value}`).join("");
+
+// Dates in element strings are shown as YYYY-MM-DD next to the raw value
+export const describeGs1Value = (element: Gs1Element): string =>
+  DATE_AIS.has(element.ai) ? toIsoDate(element.value) ?? element.value : element.value;
+
+// GS1 fields carried by a decoded code, or null when it isn't GS1 data.
+// Plain EAN/UPC symbols are GTINs too, so they get a single (01) element.
+export const parseGs1 = (text: string, format?: string): Gs1Data | null => {
+  if (format === "EAN_13" || format === "EAN_8" || format === "UPC_A") {
+    if (!/^\d+$/.test(text)) return null;
+    return summarize([{ ai: "01", label: "GTIN", value: text.padStart(14, "0") }], false);
+  }
+
+  if (isGs1ElementString(text)) {
+    const symbologyId = GS1_SYMBOLOGY_IDS.exec(text);
+    const elements = parseElementString(text.slice(symbologyId ? symbologyId[0].length : 0));
+    return elements.length > 0 ? summarize(elements, false) : null;
+  }
+
+  if (text.startsWith("(")) {
+    const elements = parseBracketed(text);
+    return elements ? summarize(elements, false) : null;
+  }
+
+  if (/^https?:\/\//i.test(text)) {
+    const elements = parseDigitalLink(text);
+    return elements ? summarize(elements, true) : null;
+  }
+
+  return null;
+};
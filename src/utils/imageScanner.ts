@@ -0,0 +1,155 @@
+import type { DecoderClient } from "./decoderClient";
+import type { DecodeOptions, FrameDecodeResult, ScanResult } from "../types";
+
+// Large photos are decoded in chunks of at most this many pixels per side, so only
+// one chunk's pixels (16 MB at 2048px) are ever copied out of the bitmap at a time
+const CHUNK_SIZE = 2048;
+// Neighbouring chunks overlap by this much so codes on a seam are whole in one of them
+const CHUNK_OVERLAP = 512;
+// Beyond this the photo is decoded straight to a smaller bitmap instead of at full size
+const MAX_BITMAP_PIXELS = 48_000_000;
+
+interface ImageChunk {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Pixels per source pixel: < 1 for the downscaled overview pass
+  scale: number;
+}
+
+// One downscaled overview (catches codes too big for a chunk), then full-resolution chunks
+const planChunks = (width: number, height: number): ImageChunk[] => {
+  const overviewScale = Math.min(1, CHUNK_SIZE / Math.max(width, height));
+  const chunks: ImageChunk[] = [{ x: 0, y: 0, width, height, scale: overviewScale }];
+  if (overviewScale === 1) return chunks;
+
+  const offsets = (length: number): number[] => {
+    const result: number[] = [];
+    const step = CHUNK_SIZE - CHUNK_OVERLAP;
+    for (let offset = 0; offset + CHUNK_SIZE < length; offset += step) {
+      result.push(offset);
+    }
+    result.push(Math.max(0, length - CHUNK_SIZE));
+    return result;
+  };
+
+  offsets(height).forEach((y) => {
+    offsets(width).forEach((x) => {
+      chunks.push({
+        x,
+        y,
+        width: Math.min(CHUNK_SIZE, width),
+        height: Math.min(CHUNK_SIZE, height),
+        scale: 1,
+      });
+    });
+  });
+  return chunks;
+};
+
+const loadBitmap = async (file: Blob): Promise<ImageBitmap> => {
+  const bitmap = await createImageBitmap(file);
+  const pixels = bitmap.width * bitmap.height;
+  if (pixels <= MAX_BITMAP_PIXELS) return bitmap;
+
+  // Too big to keep around at full size: decode again straight to a smaller bitmap
+  const scale = Math.sqrt(MAX_BITMAP_PIXELS / pixels);
+  const resizeWidth = Math.floor(bitmap.width * scale);
+  const resizeHeight = Math.floor(bitmap.height * scale);
+  bitmap.close();
+  return createImageBitmap(file, { resizeWidth, resizeHeight, resizeQuality: "high" });
+};
+
+// Map chunk-local coordinates back onto the source bitmap
+const toImageCoordinates = (result: ScanResult, chunk: ImageChunk): ScanResult => {
+  if (!result.boundingBox) return result;
+  const { x, y, width, height, corners } = result.boundingBox;
+  const map = (px: number, py: number) => ({
+    x: chunk.x + px / chunk.scale,
+    y: chunk.y + py / chunk.scale,
+  });
+  const origin = map(x, y);
+
+  return {
+    ...result,
+    boundingBox: {
+      x: origin.x,
+      y: origin.y,
+      width: width / chunk.scale,
+      height: height / chunk.scale,
+      corners: corners?.map((point) => map(point.x, point.y)),
+    },
+  };
+};
+
+export interface ImageScanCallbacks {
+  onProgress?: (chunksDone: number, chunksTotal: number) => void;
+  onFrame?: (frame: FrameDecodeResult) => void;
+}
+
+// Decode every code in one image file through the same pipeline as camera frames.
+// Chunks are decoded one after another, so the decoder is never busy and nothing is dropped.
+export const scanImageFile = async (
+  file: Blob,
+  fileName: string,
+  source: ScanResult["source"],
+  decoder: Pick<DecoderClient, "decode">,
+  options: DecodeOptions,
+  callbacks: ImageScanCallbacks = {}
+): Promise<ScanResult[]> => {
+  const bitmap = await loadBitmap(file);
+  const canvas = document.createElement("canvas");
+  const ctx = canvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    bitmap.close();
+    throw new Error("Canvas context not available");
+  }
+
+  const found = new Map<string, ScanResult>();
+  const chunks = planChunks(bitmap.width, bitmap.height);
+
+  try {
+    for (let i = 0; i < chunks.length; i++) {
+      const chunk = chunks[i];
+      canvas.width = Math.round(chunk.width * chunk.scale);
+      canvas.height = Math.round(chunk.height * chunk.scale);
+      ctx.drawImage(
+        bitmap,
+        chunk.x,
+        chunk.y,
+        chunk.width,
+        chunk.height,
+        0,
+        0,
+        canvas.width,
+        canvas.height
+      );
+
+      const frame = await decoder.decode(
+        ctx.getImageData(0, 0, canvas.width, canvas.height),
+        options
+      );
+      if (frame) {
+        callbacks.onFrame?.(frame);
+        frame.results.forEach((result) => {
+          if (found.has(result.text)) return;
+          found.set(result.text, {
+            ...toImageCoordinates(result, chunk),
+            source,
+            sourceName: fileName,
+          });
+        });
+      }
+
+      callbacks.onProgress?.(i + 1, chunks.length);
+    }
+  } finally {
+    bitmap.close();
+    // Release the canvas backing store right away
+    canvas.width = 0;
+    canvas.height = 0;
+  }
+
+  return Array.from(found.values());
+};
@@ -0,0 +1,233 @@
+import { parseGs1 } from "./gs1Parser";
+import type { Point, ScanResult } from "../types";
+
+// Reads files written by the export dialog (and the older JSON-only export) back into ScanResults
+
+export interface RejectedRow {
+  row: number; // 1-based record number in the file (header excluded)
+  reason: string;
+}
+
+export interface ImportParseResult {
+  results: ScanResult[];
+  rejected: RejectedRow[];
+}
+
+type RawRecord = Record<string, unknown>;
+
+const SOURCES: ScanResult["source"][] = ["camera", "image", "batch"];
+
+// RFC 4180: quoted fields may hold delimiters, doubled quotes and line breaks
+export const parseDelimited = (text: string, delimiter: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+  if (field !== "" || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+  return rows.filter((cells) => cells.some((cell) => cell !== ""));
+};
+
+// Undo the exporter's TSV escapes (\t, \n, \r, \\)
+const unescapeTsv = (value: string): string =>
+  value.replace(/\\([tnr\\])/g, (_, char: string) =>
+    char === "t" ? "\t" : char === "n" ? "\n" : char === "r" ? "\r" : "\\"
+  );
+
+const parseTable = (text: string, delimiter: string): RawRecord[] => {
+  const rows =
+    delimiter === "\t"
+      ? text
+          .split(/\r?\n/)
+          .filter((line) => line.trim() !== "")
+          .map((line) => line.split("\t").map(unescapeTsv))
+      : parseDelimited(text, delimiter);
+  const [header, ...body] = rows;
+  if (!header) return [];
+
+  const keys = header.map((key) => key.trim());
+  return body.map((cells) =>
+    Object.fromEntries(keys.map((key, index) => [key, cells[index] ?? ""]))
+  );
+};
+
+// First key present, with empty CSV cells treated as absent
+const pick = (record: RawRecord, ...keys: string[]): unknown => {
+  for (const key of keys) {
+    const value = record[key];
+    if (value !== undefined && value !== null && value !== "") return value;
+  }
+  return undefined;
+};
+
+// undefined when absent, NaN when present but not a number
+const toNumber = (value: unknown): number | undefined => {
+  if (value === undefined) return undefined;
+  const number = typeof value === "number" ? value : Number(value);
+  return Number.isFinite(number) ? number : NaN;
+};
+
+const toBoolean = (value: unknown): boolean | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value === "boolean") return value;
+  if (value === "true") return true;
+  if (value === "false") return false;
+  return undefined;
+};
+
+const toBoundingBox = (record: RawRecord): ScanResult["boundingBox"] => {
+  const nested = pick(record, "boundingBox") as RawRecord | undefined;
+  const source = nested && typeof nested === "object" ? nested : record;
+  const prefix = nested ? "" : "bbox_";
+  const values = ["x", "y", "width", "height"].map((key) => toNumber(pick(source, prefix + key)));
+  if (values.some((value) => value === undefined || Number.isNaN(value))) {
+    return undefined;
+  }
+  const [x, y, width, height] = values as number[];
+
+  let corners: Point[] | undefined;
+  const rawCorners = pick(source, prefix + "corners");
+  try {
+    const parsed = typeof rawCorners === "string" ? JSON.parse(rawCorners) : rawCorners;
+    if (
+      Array.isArray(parsed) &&
+      parsed.every((point) => typeof point?.x === "number" && typeof point?.y === "number")
+    ) {
+      corners = parsed;
+    }
+  } catch {
+    // Corners are optional; a mangled cell just drops them
+  }
+  return { x, y, width, height, corners };
+};
+
+// Validate one record; returns the reason it was rejected instead of a result
+const toScanResult = (raw: unknown, index: number): ScanResult | string => {
+  if (!raw || typeof raw !== "object" || Array.isArray(raw)) return "not an object";
+  const record = raw as RawRecord;
+
+  const text = pick(record, "text");
+  if (typeof text !== "string") return "missing text";
+
+  const format = pick(record, "format");
+  if (typeof format !== "string") return "missing format";
+
+  const rawTimestamp = pick(record, "timestamp");
+  const timestamp =
+    typeof rawTimestamp === "string" || typeof rawTimestamp === "number"
+      ? new Date(rawTimestamp)
+      : undefined;
+  if (!timestamp || Number.isNaN(timestamp.getTime())) return "missing or invalid timestamp";
+
+  const confidence = toNumber(pick(record, "confidence"));
+  if (confidence !== undefined && (Number.isNaN(confidence) || confidence < 0 || confidence > 1)) {
+    return "confidence must be between 0 and 1";
+  }
+
+  const source = pick(record, "source") ?? "camera";
+  if (!SOURCES.includes(source as ScanResult["source"])) return `unknown source "${source}"`;
+
+  const occurrences = toNumber(pick(record, "occurrences"));
+  if (occurrences !== undefined && (!Number.isInteger(occurrences) || occurrences < 1)) {
+    return "occurrences must be a whole number of at least 1";
+  }
+
+  const rawLastSeen = pick(record, "last_seen", "lastSeen");
+  const lastSeen =
+    typeof rawLastSeen === "string" || typeof rawLastSeen === "number"
+      ? new Date(rawLastSeen)
+      : undefined;
+  if (lastSeen && Number.isNaN(lastSeen.getTime())) return "invalid last_seen";
+
+  const id = pick(record, "id");
+  const sourceName = pick(record, "source_name", "sourceName");
+
+  return {
+    id: typeof id === "string" ? id : `imported-${Date.now()}-${index}`,
+    text,
+    format,
+    timestamp,
+    confidence,
+    source: source as ScanResult["source"],
+    sourceName: typeof sourceName === "string" ? sourceName : undefined,
+    isDuplicate: toBoolean(pick(record, "is_duplicate", "isDuplicate")),
+    occurrences,
+    lastSeen,
+    boundingBox: toBoundingBox(record),
+    // Derived data is recomputed rather than trusted from the file
+    gs1: parseGs1(text, format) ?? undefined,
+  };
+};
+
+const parseRecords = (text: string, fileName: string): unknown[] => {
+  const trimmed = text.trim();
+  const extension = fileName.toLowerCase().split(".").pop();
+
+  if (extension === "json" || (extension !== "ndjson" && trimmed.startsWith("["))) {
+    const parsed = JSON.parse(trimmed);
+    if (!Array.isArray(parsed)) throw new Error("Expected a JSON array of results");
+    return parsed;
+  }
+  if (extension === "ndjson" || extension === "jsonl" || trimmed.startsWith("{")) {
+    return trimmed
+      .split(/\r?\n/)
+      .filter((line) => line.trim() !== "")
+      .map((line) => {
+        try {
+          return JSON.parse(line);
+        } catch {
+          return null; // Rejected below, with its row number
+        }
+      });
+  }
+
+  const headerLine = trimmed.split(/\r?\n/, 1)[0];
+  const delimiter = extension === "tsv" || headerLine.includes("\t") ? "\t" : ",";
+  return parseTable(trimmed, delimiter);
+};
+
+// Throws when the file as a whole can't be read; individual bad rows are reported as rejected
+export const parseImportFile = (text: string, fileName: string): ImportParseResult => {
+  const records = parseRecords(text, fileName);
+  const results: ScanResult[] = [];
+  const rejected: RejectedRow[] = [];
+
+  records.forEach((record, index) => {
+    const outcome = toScanResult(record, index);
+    if (typeof outcome === "string") {
+      rejected.push({ row: index + 1, reason: outcome });
+    } else {
+      results.push(outcome);
+    }
+  });
+  return { results, rejected };
+};
@@ -0,0 +1,247 @@
+import { parseDelimited } from "./importer";
+import { escapeHtml, renderQrSvg } from "./qrGenerator";
+import type { QrStyle } from "./qrGenerator";
+
+// Print-ready sheets of QR labels for asset and bin labelling. Codes are rendered on the
+// device and inlined as SVG, so the page prints without a network connection.
+
+export interface LabelItem {
+  payload: string;
+  caption?: string;
+}
+
+// Sheet geometry in millimetres. The gaps are the space between neighbouring labels.
+export interface LabelTemplate {
+  id: string;
+  name: string;
+  pageWidth: number;
+  pageHeight: number;
+  columns: number;
+  rows: number;
+  labelWidth: number;
+  labelHeight: number;
+  marginTop: number;
+  marginLeft: number;
+  gapX: number;
+  gapY: number;
+}
+
+export const LABEL_TEMPLATES: LabelTemplate[] = [
+  {
+    id: "L7160",
+    name: "Avery L7160 · A4, 21 per sheet",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 3,
+    rows: 7,
+    labelWidth: 63.5,
+    labelHeight: 38.1,
+    marginTop: 15.1,
+    marginLeft: 7.2,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "L7163",
+    name: "Avery L7163 · A4, 14 per sheet",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 2,
+    rows: 7,
+    labelWidth: 99.1,
+    labelHeight: 38.1,
+    marginTop: 15.1,
+    marginLeft: 4.7,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "L7651",
+    name: "Avery L7651 · A4, 65 per sheet",
+    pageWidth: 210,
+    pageHeight: 297,
+    columns: 5,
+    rows: 13,
+    labelWidth: 38.1,
+    labelHeight: 21.2,
+    marginTop: 10.7,
+    marginLeft: 4.7,
+    gapX: 2.5,
+    gapY: 0,
+  },
+  {
+    id: "5160",
+    name: "Avery 5160 · Letter, 30 per sheet",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 10,
+    labelWidth: 66.7,
+    labelHeight: 25.4,
+    marginTop: 12.7,
+    marginLeft: 4.8,
+    gapX: 3.2,
+    gapY: 0,
+  },
+  {
+    id: "22806",
+    name: "Avery 22806 · Letter, 12 square",
+    pageWidth: 215.9,
+    pageHeight: 279.4,
+    columns: 3,
+    rows: 4,
+    labelWidth: 50.8,
+    labelHeight: 50.8,
+    marginTop: 15.9,
+    marginLeft: 15.9,
+    gapX: 15.9,
+    gapY: 14.8,
+  },
+];
+
+export interface LabelSheetOptions {
+  style: QrStyle;
+  showCaptions: boolean;
+  skipLabels: number; // Labels already used on the first sheet
+}
+
+// Range expansion is capped so a typo cannot freeze the page
+export const MAX_LABELS = 5000;
+
+const PAYLOAD_COLUMNS = ["payload", "code", "text", "data", "value", "url"];
+const CAPTION_COLUMNS = ["caption", "label", "name", "title", "description"];
+
+// CSV or TSV of payloads with optional captions. With a header row the columns are found
+// by name; without one the first column is the payload and the second the caption.
+export const parseLabelCsv = (text: string): LabelItem[] => {
+  const firstLine = text.split(/\r?\n/, 1)[0] ?? "";
+  const rows = parseDelimited(text, firstLine.includes("\t") ? "\t" : ",").map((row) =>
+    row.map((cell) => cell.trim())
+  );
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const payloadIndex = header.findIndex((cell) => PAYLOAD_COLUMNS.includes(cell));
+  const hasHeader = payloadIndex >= 0;
+  const captionIndex = hasHeader ? header.findIndex((cell) => CAPTION_COLUMNS.includes(cell)) : 1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((row) => ({
+      payload: row[hasHeader ? payloadIndex : 0] ?? "",
+      caption: captionIndex >= 0 ? row[captionIndex] || undefined : undefined,
+    }))
+    .filter((item) => item.payload !== "");
+};
+
+// "BIN-0001..BIN-0500" becomes BIN-0001, BIN-0002, ... BIN-0500. The number keeps the
+// width it was written with; text either side of it must be the same at both ends.
+export const expandNumberRange = (spec: string): LabelItem[] => {
+  const match = /^(.*?)(\d+)(\D*)\.\.(.*?)(\d+)(\D*)$/.exec(spec.trim());
+  if (!match) throw new Error('Write a range as first..last, e.g. "BIN-0001..BIN-0500"');
+  const [, prefix, startDigits, suffix, endPrefix, endDigits, endSuffix] = match;
+  if (prefix !== endPrefix || suffix !== endSuffix) {
+    throw new Error("Both ends of the range need the same text around the number");
+  }
+
+  const start = parseInt(startDigits, 10);
+  const end = parseInt(endDigits, 10);
+  if (end < start) throw new Error("The range ends before it starts");
+  if (end - start + 1 > MAX_LABELS) throw new Error(`A range can hold at most ${MAX_LABELS} labels`);
+
+  return Array.from({ length: end - start + 1 }, (_, i) => {
+    const payload = `${prefix}${String(start + i).padStart(startDigits.length, "0")}${suffix}`;
+    return { payload };
+  });
+};
+
+export const labelsPerSheet = (template: LabelTemplate): number => template.columns * template.rows;
+
+// Why a template cannot be printed as given, or null when it fits on the page
+export const validateTemplate = (template: LabelTemplate): string | null => {
+  const values = [template.pageWidth, template.pageHeight, template.labelWidth, template.labelHeight];
+  if (values.some((value) => !(value > 0))) return "Page and label sizes must be positive";
+  if (!(template.columns >= 1 && template.rows >= 1)) return "A sheet needs at least one row and column";
+  const width = template.marginLeft + template.columns * template.labelWidth + (template.columns - 1) * template.gapX;
+  const height = template.marginTop + template.rows * template.labelHeight + (template.rows - 1) * template.gapY;
+  if (width > template.pageWidth + 0.5) return `The labels are ${width.toFixed(1)} mm wide, wider than the page`;
+  if (height > template.pageHeight + 0.5) return `The labels are ${height.toFixed(1)} mm tall, taller than the page`;
+  return null;
+};
+
+const LABEL_PADDING_MM = 1.5;
+const CAPTION_HEIGHT_MM = 5;
+
+export const buildLabelSheet = async (
+  items: LabelItem[],
+  template: LabelTemplate,
+  options: LabelSheetOptions
+): Promise<string> => {
+  const perSheet = labelsPerSheet(template);
+  const skip = Math.min(Math.max(0, Math.floor(options.skipLabels)), perSheet - 1);
+  // Wide labels put the caption beside the code, others below it
+  const sideways = template.labelWidth >= template.labelHeight * 1.8;
+  const captionSpace = options.showCaptions && !sideways ? CAPTION_HEIGHT_MM : 0;
+  const codeSize = Math.max(
+    5,
+    Math.min(template.labelWidth, template.labelHeight - captionSpace) - LABEL_PADDING_MM * 2
+  );
+
+  // Identical payloads share one rendering
+  const svgs = new Map<string, string>();
+  for (const item of items) {
+    if (!svgs.has(item.payload)) {
+      const svg = await renderQrSvg(item.payload, options.style);
+      svgs.set(item.payload, svg.replace(/^<\?xml[^>]*>\s*/, ""));
+    }
+  }
+
+  const pages: string[][] = [];
+  items.forEach((item, index) => {
+    const slot = index + skip;
+    const page = Math.floor(slot / perSheet);
+    const position = slot % perSheet;
+    const column = position % template.columns;
+    const row = Math.floor(position / template.columns);
+    const left = template.marginLeft + column * (template.labelWidth + template.gapX);
+    const top = template.marginTop + row * (template.labelHeight + template.gapY);
+    const caption = item.caption ?? item.payload;
+    (pages[page] ??= []).push(`
+      <div class="label" style="left:${left}mm;top:${top}mm">
+        ${svgs.get(item.payload)}
+        ${options.showCaptions ? `<div class="caption">${escapeHtml(caption)}</div>` : ""}
+      </div>`);
+  });
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>${escapeHtml(template.name)} · ${items.length} labels</title>
+  <style>
+    @page { size: ${template.pageWidth}mm ${template.pageHeight}mm; margin: 0; }
+    html, body { margin: 0; padding: 0; }
+    .sheet { position: relative; width: ${template.pageWidth}mm; height: ${template.pageHeight}mm; overflow: hidden; break-after: page; }
+    .sheet:last-child { break-after: auto; }
+    .label {
+      position: absolute; box-sizing: border-box; overflow: hidden;
+      width: ${template.labelWidth}mm; height: ${template.labelHeight}mm; padding: ${LABEL_PADDING_MM}mm;
+      display: flex; flex-direction: ${sideways ? "row" : "column"}; align-items: center; justify-content: center; gap: 1mm;
+    }
+    .label svg { flex: none; width: ${codeSize}mm; height: ${codeSize}mm; }
+    .caption {
+      font: 8pt/1.1 Arial, sans-serif; text-align: ${sideways ? "left" : "center"};
+      word-break: break-all; overflow: hidden; max-height: ${sideways ? template.labelHeight - LABEL_PADDING_MM * 2 : CAPTION_HEIGHT_MM}mm;
+    }
+    @media screen {
+      body { background: #e5e7eb; padding: 16px; }
+      .sheet { background: white; margin: 0 auto 16px; box-shadow: 0 2px 8px rgba(0,0,0,0.2); }
+      .label { outline: 1px dashed #d1d5db; }
+    }
+  </style>
+</head>
+<body>
+${pages.map((labels) => `  <div class="sheet">${labels.join("")}\n  </div>`).join("\n")}
+</body>
+</html>
+`;
+};
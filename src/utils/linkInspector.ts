@@ -0,0 +1,297 @@
+import type { LinkPolicy } from "../types";
+
+// Checks a decoded link before it is opened: where it really goes, and what looks off.
+// Codes on public surfaces are easy to paste over, so nothing opens unchecked.
+
+export type LinkWarningLevel = "danger" | "caution";
+
+export interface LinkWarning {
+  level: LinkWarningLevel;
+  message: string;
+}
+
+export interface LinkInspection {
+  url: string; // As decoded
+  href: string | null; // Normalised URL that may be opened; null when it must not be
+  scheme: string;
+  host: string; // ASCII (punycode) form, as the browser will resolve it
+  unicodeHost: string; // What the host looks like to a person
+  registrableDomain: string;
+  warnings: LinkWarning[];
+  // blocked: never opened; allowed: on the allow list with nothing to warn about;
+  // review: shown to the user first
+  verdict: "blocked" | "allowed" | "review";
+  listMatch: "allow" | "deny" | null;
+}
+
+export const DEFAULT_LINK_POLICY: LinkPolicy = {
+  allowList: [],
+  denyList: [],
+  autoOpenAllowed: false,
+  blockUnlisted: false,
+};
+
+// Read a stored policy, filling in fields added since it was saved
+export const loadLinkPolicy = (stored: string | null): LinkPolicy => {
+  if (!stored) return DEFAULT_LINK_POLICY;
+  try {
+    return { ...DEFAULT_LINK_POLICY, ...(JSON.parse(stored) as Partial<LinkPolicy>) };
+  } catch {
+    return DEFAULT_LINK_POLICY;
+  }
+};
+
+const SCRIPT_SCHEMES = ["javascript:", "data:", "vbscript:", "file:"];
+
+const URL_SHORTENERS = new Set([
+  "bit.ly",
+  "bit.do",
+  "buff.ly",
+  "cutt.ly",
+  "goo.gl",
+  "is.gd",
+  "lnkd.in",
+  "ow.ly",
+  "qrco.de",
+  "rb.gy",
+  "rebrand.ly",
+  "s.id",
+  "shorturl.at",
+  "t.co",
+  "t.ly",
+  "tiny.cc",
+  "tinyurl.com",
+  "v.gd",
+  "x.co",
+]);
+
+// Suffixes under which anyone can register a name. Not the full Public Suffix List,
+// just the common ones, so "shop.example.co.uk" resolves to "example.co.uk".
+const MULTI_LABEL_SUFFIXES = new Set([
+  "co.uk", "org.uk", "ac.uk", "gov.uk", "me.uk", "ltd.uk", "plc.uk",
+  "com.au", "net.au", "org.au", "edu.au", "gov.au",
+  "co.nz", "org.nz", "co.jp", "ne.jp", "or.jp", "co.kr", "co.in", "co.za", "co.il",
+  "com.br", "com.cn", "com.mx", "com.tr", "com.sg", "com.hk", "com.ar",
+  "github.io", "herokuapp.com", "appspot.com", "blogspot.com", "netlify.app",
+  "vercel.app", "pages.dev", "web.app", "firebaseapp.com", "azurewebsites.net",
+  "cloudfront.net",
+]);
+
+// RFC 3492 Punycode, for showing what an xn-- label will look like
+const decodePunycodeLabel = (input: string): string => {
+  const BASE = 36;
+  const TMIN = 1;
+  const TMAX = 26;
+  const adapt = (delta: number, points: number, first: boolean) => {
+    delta = first ? Math.floor(delta / 700) : delta >> 1;
+    delta += Math.floor(delta / points);
+    let k = 0;
+    while (delta > ((BASE - TMIN) * TMAX) >> 1) {
+      delta = Math.floor(delta / (BASE - TMIN));
+      k += BASE;
+    }
+    return k + Math.floor(((BASE - TMIN + 1) * delta) / (delta + 38));
+  };
+
+  const basicEnd = input.lastIndexOf("-");
+  const output = Array.from(input.slice(0, Math.max(0, basicEnd)), (char) => char.codePointAt(0) as number);
+  let n = 128;
+  let i = 0;
+  let bias = 72;
+  let index = basicEnd > 0 ? basicEnd + 1 : 0;
+
+  while (index < input.length) {
+    const oldI = i;
+    let weight = 1;
+    for (let k = BASE; ; k += BASE) {
+      if (index >= input.length) throw new Error("Bad punycode");
+      const code = input.charCodeAt(index++);
+      const digit = code - 48 < 10 ? code - 22 : code - 97 < 26 ? code - 97 : code - 65 < 26 ? code - 65 : BASE;
+      if (digit >= BASE) throw new Error("Bad punycode");
+      i += digit * weight;
+      const threshold = k <= bias ? TMIN : k >= bias + TMAX ? TMAX : k - bias;
+      if (digit < threshold) break;
+      weight *= BASE - threshold;
+    }
+    const length = output.length + 1;
+    bias = adapt(i - oldI, length, oldI === 0);
+    n += Math.floor(i / length);
+    i %= length;
+    output.splice(i++, 0, n);
+  }
+  return String.fromCodePoint(...output);
+};
+
+export const toUnicodeHost = (host: string): string =>
+  host
+    .split(".")
+    .map((label) => {
+      if (!label.startsWith("xn--")) return label;
+      try {
+        return decodePunycodeLabel(label.slice(4));
+      } catch {
+        return label;
+      }
+    })
+    .join(".");
+
+type Script = "latin" | "cyrillic" | "greek" | "armenian" | "other";
+
+const scriptOf = (char: string): Script | null => {
+  const code = char.codePointAt(0) as number;
+  if (/[0-9-]/.test(char)) return null;
+  if (code < 0x250) return "latin";
+  if (code >= 0x370 && code < 0x400) return "greek";
+  if (code >= 0x400 && code < 0x530) return "cyrillic";
+  if (code >= 0x530 && code < 0x590) return "armenian";
+  return "other";
+};
+
+// Letters that are hard to tell apart from Latin ones
+const LATIN_LOOKALIKES = /^[аеорсухіјѕһԁӏԛԝвкмнтαορνικτυχյօսհ0-9-]+$/u;
+
+// Homograph check for one decoded label: mixed scripts, or a label written
+// entirely in letters that imitate Latin ones
+const isLikelyHomograph = (label: string): boolean => {
+  const scripts = new Set(Array.from(label).map(scriptOf).filter(Boolean));
+  if (scripts.size > 1 && !scripts.has("other")) return true;
+  return !scripts.has("latin") && !scripts.has("other") && LATIN_LOOKALIKES.test(label);
+};
+
+const isIpAddress = (host: string) => /^\d{1,3}(\.\d{1,3}){3}$/.test(host) || host.startsWith("[");
+
+export const getRegistrableDomain = (host: string): string => {
+  if (isIpAddress(host)) return host;
+  const labels = host.split(".");
+  const lastTwo = labels.slice(-2).join(".");
+  return labels.slice(MULTI_LABEL_SUFFIXES.has(lastTwo) ? -3 : -2).join(".");
+};
+
+// A list entry as the ASCII host it stands for: "*.example.com", "https://Example.com/x"
+// and "bücher.example" all work
+export const normalizeDomainEntry = (entry: string): string | null => {
+  const trimmed = entry.trim().replace(/^\*?\./, "");
+  if (!trimmed) return null;
+  try {
+    return new URL(/^[a-z][a-z0-9+.-]*:\/\//i.test(trimmed) ? trimmed : `http://${trimmed}`).hostname;
+  } catch {
+    return null;
+  }
+};
+
+// A host matches an entry for the domain itself and every subdomain of it
+const matchesList = (host: string, list: string[]) =>
+  list
+    .map(normalizeDomainEntry)
+    .some((domain) => domain !== null && (host === domain || host.endsWith(`.${domain}`)));
+
+export const inspectLink = (raw: string, policy: LinkPolicy): LinkInspection => {
+  const url = raw.trim();
+  const lower = url.toLowerCase();
+  const base = { url, host: "", unicodeHost: "", registrableDomain: "", listMatch: null };
+
+  const scriptScheme = SCRIPT_SCHEMES.find((scheme) => lower.startsWith(scheme));
+  if (scriptScheme) {
+    return {
+      ...base,
+      href: null,
+      scheme: scriptScheme.slice(0, -1),
+      warnings: [
+        {
+          level: "danger",
+          message: `${scriptScheme} links run code or embed content instead of opening a site, so they are never opened`,
+        },
+      ],
+      verdict: "blocked",
+    };
+  }
+
+  let parsed: URL;
+  try {
+    parsed = new URL(url);
+  } catch {
+    return {
+      ...base,
+      href: null,
+      scheme: "",
+      warnings: [{ level: "danger", message: "This is not a valid link" }],
+      verdict: "blocked",
+    };
+  }
+
+  const scheme = parsed.protocol.slice(0, -1);
+  const host = parsed.hostname;
+  const unicodeHost = toUnicodeHost(host);
+  const registrableDomain = getRegistrableDomain(host);
+  const warnings: LinkWarning[] = [];
+
+  if (scheme !== "http" && scheme !== "https") {
+    return {
+      ...base,
+      href: null,
+      scheme,
+      host,
+      unicodeHost,
+      registrableDomain,
+      warnings: [{ level: "danger", message: `${scheme}: links are not opened from scanned codes` }],
+      verdict: "blocked",
+    };
+  }
+
+  if (parsed.username || parsed.password) {
+    warnings.push({
+      level: "danger",
+      message: `The text before "@" is not the site; this link really goes to ${unicodeHost}`,
+    });
+  }
+  if (host.split(".").some((label) => label.startsWith("xn--"))) {
+    const homograph = unicodeHost.split(".").some(isLikelyHomograph);
+    warnings.push(
+      homograph
+        ? {
+            level: "danger",
+            message: `The domain uses characters that imitate Latin letters (${unicodeHost} is really ${host})`,
+          }
+        : { level: "caution", message: `Internationalised domain: shown as ${unicodeHost}, registered as ${host}` }
+    );
+  }
+  if (isIpAddress(host)) {
+    warnings.push({ level: "caution", message: "The link points at an IP address rather than a domain name" });
+  }
+  if (URL_SHORTENERS.has(registrableDomain) || URL_SHORTENERS.has(host)) {
+    warnings.push({
+      level: "caution",
+      message: `${host} is a URL shortener; the real destination is only known after opening it`,
+    });
+  }
+  if (scheme === "http") {
+    warnings.push({ level: "caution", message: "Plain HTTP: the connection is not encrypted" });
+  }
+  if (parsed.port) {
+    warnings.push({ level: "caution", message: `Uses a non-standard port (${parsed.port})` });
+  }
+
+  const listMatch = matchesList(host, policy.denyList)
+    ? "deny"
+    : matchesList(host, policy.allowList)
+      ? "allow"
+      : null;
+  if (listMatch === "deny") {
+    warnings.unshift({ level: "danger", message: `${registrableDomain} is on the deny list` });
+  } else if (listMatch === null && policy.blockUnlisted) {
+    warnings.unshift({ level: "danger", message: `${registrableDomain} is not on the allow list` });
+  }
+
+  const blocked = listMatch === "deny" || (listMatch === null && policy.blockUnlisted);
+  return {
+    url,
+    href: blocked ? null : parsed.href,
+    scheme,
+    host,
+    unicodeHost,
+    registrableDomain,
+    warnings,
+    verdict: blocked ? "blocked" : listMatch === "allow" && warnings.length === 0 ? "allowed" : "review",
+    listMatch,
+  };
+};
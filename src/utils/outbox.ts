@@ -0,0 +1,372 @@
+import type {
+  OutboxEntry,
+  OutboxRequest,
+  ScanResult,
+  ScanSession,
+  SyncConfig,
+} from "../types";
+
+// Durable queue of requests to the ingestion endpoint. Shared by the page and the
+// service worker: the page queues, whichever side has Background Sync sends.
+
+const DB_NAME = "multi-qr-scanner-outbox";
+const DB_VERSION = 1;
+const ENTRIES_STORE = "entries";
+
+export const OUTBOX_SYNC_TAG = "scan-outbox";
+// Status changes are announced here so every tab (and the worker) can refresh
+const OUTBOX_CHANNEL = "multi-qr-outbox";
+
+const MAX_ATTEMPTS = 10;
+const RETRY_BASE_MS = 5000;
+const RETRY_MAX_MS = 30 * 60 * 1000;
+
+export const DEFAULT_PAYLOAD_TEMPLATES: Record<SyncConfig["mode"], string> = {
+  scan: '{\n  "code": {{text}},\n  "format": {{format}},\n  "scannedAt": {{timestamp}},\n  "sessionId": {{sessionId}}\n}',
+  session:
+    '{\n  "sessionId": {{sessionId}},\n  "name": {{sessionName}},\n  "startedAt": {{startTime}},\n  "endedAt": {{endTime}},\n  "codes": {{results}}\n}',
+};
+
+export const DEFAULT_SYNC_CONFIG: SyncConfig = {
+  enabled: false,
+  endpoint: "",
+  headers: "",
+  authToken: "",
+  mode: "scan",
+  payloadTemplate: "",
+};
+
+// Read a stored config, filling in fields added since it was saved
+export const loadSyncConfig = (stored: string | null): SyncConfig => {
+  if (!stored) return DEFAULT_SYNC_CONFIG;
+  try {
+    return { ...DEFAULT_SYNC_CONFIG, ...(JSON.parse(stored) as Partial<SyncConfig>) };
+  } catch {
+    return DEFAULT_SYNC_CONFIG;
+  }
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(ENTRIES_STORE)) {
+          const store = db.createObjectStore(ENTRIES_STORE, { keyPath: "id" });
+          store.createIndex("createdAt", "createdAt");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(ENTRIES_STORE, mode);
+    const request = makeRequest(transaction.objectStore(ENTRIES_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+const putEntry = async (entry: OutboxEntry): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(entry));
+};
+
+const notifyOutboxChanged = () => {
+  const channel = new BroadcastChannel(OUTBOX_CHANNEL);
+  channel.postMessage("changed");
+  channel.close();
+};
+
+// Calls back whenever any context changes the outbox; returns an unsubscribe function
+export const subscribeOutbox = (listener: () => void): (() => void) => {
+  const channel = new BroadcastChannel(OUTBOX_CHANNEL);
+  channel.onmessage = listener;
+  return () => channel.close();
+};
+
+// Newest first
+export const listOutbox = async (): Promise<OutboxEntry[]> => {
+  const entries = await runRequest("readonly", (store) => store.index("createdAt").getAll());
+  return (entries as OutboxEntry[]).reverse();
+};
+
+const toRecord = (result: ScanResult) => ({
+  id: result.id,
+  text: result.text,
+  format: result.format,
+  timestamp: result.timestamp.toISOString(),
+  source: result.source,
+  sourceName: result.sourceName,
+  confidence: result.confidence,
+  gtin: result.gs1?.gtin,
+});
+
+// Each {{name}} becomes the JSON literal of that value (null when it has none),
+// so a template stays valid JSON whatever the scanned text contains
+export const renderPayloadTemplate = (template: string, values: Record<string, unknown>): string =>
+  template.replace(/\{\{\s*(\w+)\s*\}\}/g, (_, name: string) =>
+    JSON.stringify(values[name] ?? null)
+  );
+
+const scanTemplateValues = (result: ScanResult, session: ScanSession | null) => ({
+  ...toRecord(result),
+  sessionId: session?.id,
+  sessionName: session?.name,
+  result: toRecord(result),
+});
+
+const sessionTemplateValues = (
+  session: Pick<ScanSession, "id" | "name" | "startTime" | "endTime">,
+  results: ScanResult[]
+) => ({
+  sessionId: session.id,
+  sessionName: session.name,
+  startTime: session.startTime.toISOString(),
+  endTime: session.endTime?.toISOString(),
+  count: results.length,
+  results: results.map(toRecord),
+});
+
+const parseHeaderLines = (text: string): Record<string, string> | string => {
+  const headers: Record<string, string> = {};
+  for (const line of text.split(/\r?\n/).map((entry) => entry.trim()).filter(Boolean)) {
+    const colon = line.indexOf(":");
+    if (colon <= 0) return `Header line "${line}" should look like "Name: value"`;
+    headers[line.slice(0, colon).trim()] = line.slice(colon + 1).trim();
+  }
+  return headers;
+};
+
+const buildRequest = (config: SyncConfig, values: Record<string, unknown>): OutboxRequest => {
+  const parsed = parseHeaderLines(config.headers);
+  const headers: Record<string, string> = typeof parsed === "string" ? {} : parsed;
+  if (!Object.keys(headers).some((name) => name.toLowerCase() === "content-type")) {
+    headers["Content-Type"] = "application/json";
+  }
+  if (config.authToken) headers.Authorization = `Bearer ${config.authToken}`;
+  return {
+    url: config.endpoint,
+    method: "POST",
+    headers,
+    body: renderPayloadTemplate(
+      config.payloadTemplate.trim() || DEFAULT_PAYLOAD_TEMPLATES[config.mode],
+      values
+    ),
+  };
+};
+
+// Why the config can't be used to send anything, or null when it can
+export const validateSyncConfig = (config: SyncConfig): string | null => {
+  try {
+    const url = new URL(config.endpoint);
+    if (url.protocol !== "http:" && url.protocol !== "https:") {
+      return "The endpoint must be an http(s) URL";
+    }
+  } catch {
+    return "The endpoint must be an http(s) URL";
+  }
+
+  const headers = parseHeaderLines(config.headers);
+  if (typeof headers === "string") return headers;
+
+  // Render against a sample scan to catch templates that wouldn't produce the JSON they claim to be
+  const sample: ScanResult = {
+    id: "sample",
+    text: 'Sample "code"',
+    format: "QR_CODE",
+    timestamp: new Date(),
+    source: "camera",
+  };
+  const request = buildRequest(
+    config,
+    config.mode === "scan"
+      ? scanTemplateValues(sample, null)
+      : sessionTemplateValues({ id: "sample", startTime: new Date() }, [sample])
+  );
+  const contentType = Object.entries(request.headers).find(
+    ([name]) => name.toLowerCase() === "content-type"
+  )?.[1];
+  if (contentType?.includes("json")) {
+    try {
+      JSON.parse(request.body);
+    } catch {
+      return "The payload template does not produce valid JSON";
+    }
+  }
+  return null;
+};
+
+const newEntry = (
+  kind: OutboxEntry["kind"],
+  resultIds: string[],
+  request: OutboxRequest
+): OutboxEntry => {
+  const now = Date.now();
+  return {
+    id: `outbox-${now}-${Math.random().toString(36).slice(2, 8)}`,
+    kind,
+    resultIds,
+    request,
+    status: "pending",
+    attempts: 0,
+    createdAt: now,
+    nextAttemptAt: now,
+  };
+};
+
+export const createScanEntry = (
+  result: ScanResult,
+  session: ScanSession | null,
+  config: SyncConfig
+): OutboxEntry =>
+  newEntry("scan", [result.id], buildRequest(config, scanTemplateValues(result, session)));
+
+export const createSessionEntry = (
+  session: ScanSession,
+  results: ScanResult[],
+  config: SyncConfig
+): OutboxEntry =>
+  newEntry(
+    "session",
+    results.map((result) => result.id),
+    buildRequest(config, sessionTemplateValues(session, results))
+  );
+
+export const enqueueOutbox = async (entries: OutboxEntry[]): Promise<void> => {
+  for (const entry of entries) {
+    await putEntry(entry);
+  }
+  notifyOutboxChanged();
+};
+
+// Network errors, timeouts, rate limits and server errors are worth another try;
+// any other HTTP error means the request itself is wrong
+const isRetryableStatus = (status: number) => status >= 500 || status === 408 || status === 429;
+
+const sendEntry = async (entry: OutboxEntry): Promise<OutboxEntry> => {
+  const attempts = entry.attempts + 1;
+  let error: string;
+  let retryable = true;
+  try {
+    const response = await fetch(entry.request.url, {
+      method: entry.request.method,
+      headers: entry.request.headers,
+      body: entry.request.body,
+    });
+    if (response.ok) {
+      return { ...entry, status: "synced", attempts, syncedAt: Date.now(), lastError: undefined };
+    }
+    error = `HTTP ${response.status}`;
+    retryable = isRetryableStatus(response.status);
+  } catch (e) {
+    error = e instanceof Error ? e.message : "Network error";
+  }
+
+  if (!retryable || attempts >= MAX_ATTEMPTS) {
+    return { ...entry, status: "failed", attempts, lastError: error };
+  }
+  const delay = Math.min(RETRY_BASE_MS * 2 ** entry.attempts, RETRY_MAX_MS);
+  return { ...entry, attempts, lastError: error, nextAttemptAt: Date.now() + delay };
+};
+
+let flushing: Promise<number | null> | null = null;
+
+// Send every pending entry that is due, oldest first. Resolves with when the
+// next pending entry is due, or null once nothing is left to send.
+// The service worker passes ignoreBackoff: Background Sync already spaces its retries.
+export const flushOutbox = (options: { ignoreBackoff?: boolean } = {}): Promise<number | null> => {
+  if (!flushing) {
+    flushing = (async () => {
+      const pending = (await listOutbox())
+        .filter((entry) => entry.status === "pending")
+        .reverse();
+      let nextDue: number | null = null;
+
+      for (const entry of pending) {
+        if (!options.ignoreBackoff && entry.nextAttemptAt > Date.now()) {
+          nextDue = Math.min(nextDue ?? Infinity, entry.nextAttemptAt);
+          continue;
+        }
+        const updated = await sendEntry(entry);
+        await putEntry(updated);
+        notifyOutboxChanged();
+        if (updated.status === "pending") {
+          nextDue = Math.min(nextDue ?? Infinity, updated.nextAttemptAt);
+        }
+      }
+      return nextDue;
+    })().finally(() => {
+      flushing = null;
+    });
+  }
+  return flushing;
+};
+
+// Put failed entries back in the queue with a fresh set of attempts
+export const retryFailedOutbox = async (): Promise<void> => {
+  const failed = (await listOutbox()).filter((entry) => entry.status === "failed");
+  for (const entry of failed) {
+    await putEntry({ ...entry, status: "pending", attempts: 0, nextAttemptAt: Date.now() });
+  }
+  notifyOutboxChanged();
+};
+
+export const clearSyncedOutbox = async (): Promise<void> => {
+  const synced = (await listOutbox()).filter((entry) => entry.status === "synced");
+  for (const entry of synced) {
+    await runRequest("readwrite", (store) => store.delete(entry.id));
+  }
+  notifyOutboxChanged();
+};
+
+interface SyncCapableRegistration extends ServiceWorkerRegistration {
+  sync?: { register: (tag: string) => Promise<void> };
+}
+
+let retryTimer: ReturnType<typeof setTimeout> | null = null;
+
+// Page side: hand the queue to Background Sync when the browser has it (it waits for
+// connectivity even if the tab closes); otherwise send from the page and retry on a timer.
+// ignoreBackoff sends every pending entry now, for an explicit "sync now".
+export const requestOutboxSync = async (options: { ignoreBackoff?: boolean } = {}): Promise<void> => {
+  const registration = (await navigator.serviceWorker?.getRegistration()) as
+    | SyncCapableRegistration
+    | undefined;
+  if (registration?.active && registration.sync) {
+    try {
+      await registration.sync.register(OUTBOX_SYNC_TAG);
+      return;
+    } catch (error) {
+      console.warn("Background Sync unavailable, sending from the page:", error);
+    }
+  }
+
+  if (retryTimer) clearTimeout(retryTimer);
+  retryTimer = null;
+  if (!navigator.onLine) return; // The app asks again on the "online" event
+
+  const nextDue = await flushOutbox(options);
+  if (nextDue !== null) {
+    retryTimer = setTimeout(() => {
+      requestOutboxSync().catch((error) => console.error("Outbox sync failed:", error));
+    }, Math.max(0, nextDue - Date.now()));
+  }
+};
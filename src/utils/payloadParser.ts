@@ -0,0 +1,320 @@
+import type { ParsedPayload } from "../types";
+
+// Classifies the raw text of a scanned code into one of the well-known payload
+// formats phones put in QR codes. Anything unrecognised (or malformed) is plain text.
+
+interface ContentLine {
+  name: string;
+  params: string[];
+  value: string;
+}
+
+// Split on a separator that isn't backslash-escaped, keeping the escapes for the caller
+const splitUnescaped = (text: string, separator: string): string[] => {
+  const parts: string[] = [];
+  let current = "";
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === "\\" && i + 1 < text.length) {
+      current += char + text[i + 1];
+      i++;
+    } else if (char === separator) {
+      parts.push(current);
+      current = "";
+    } else {
+      current += char;
+    }
+  }
+  parts.push(current);
+  return parts;
+};
+
+// WIFI: and MECARD: escape \ ; , : " with a backslash
+const unescapeField = (value: string): string => value.replace(/\\(.)/g, "$1");
+
+// vCard / iCalendar TEXT escaping (RFC 6350 / RFC 5545)
+const unescapeText = (value: string): string =>
+  value.replace(/\\([nN,;\\])/g, (_, char: string) =>
+    char === "n" || char === "N" ? "\n" : char
+  );
+
+const escapeText = (value: string): string =>
+  value.replace(/[\\,;]/g, "\\$&").replace(/\r?\n/g, "\\n");
+
+// "KEY:value;KEY:value;;" as used by WIFI:, MECARD: and MATMSG:
+const parseFieldList = (body: string): Map<string, string[]> => {
+  const fields = new Map<string, string[]>();
+  splitUnescaped(body, ";").forEach((field) => {
+    const [key, ...rest] = splitUnescaped(field, ":");
+    if (!key || rest.length === 0) return;
+    const name = key.trim().toUpperCase();
+    fields.set(name, [...(fields.get(name) ?? []), unescapeField(rest.join(":"))]);
+  });
+  return fields;
+};
+
+// vCard / iCalendar content lines, with folded lines joined back together
+const parseContentLines = (text: string): ContentLine[] =>
+  text
+    .replace(/\r?\n[ \t]/g, "")
+    .split(/\r?\n/)
+    .map((line) => {
+      const colon = line.indexOf(":");
+      if (colon < 0) return null;
+      const [rawName, ...params] = line.slice(0, colon).split(";");
+      // Drop Apple-style "item1." group prefixes
+      const name = rawName.slice(rawName.lastIndexOf(".") + 1).trim().toUpperCase();
+      return { name, params, value: line.slice(colon + 1) };
+    })
+    .filter((line): line is ContentLine => line !== null && line.name !== "");
+
+const safeDecode = (value: string): string => {
+  try {
+    return decodeURIComponent(value);
+  } catch {
+    return value;
+  }
+};
+
+// Query string of a mailto:/sms: URI. Unlike URLSearchParams, "+" stays a literal plus (RFC 6068).
+const parseQuery = (query: string): Map<string, string> => {
+  const params = new Map<string, string>();
+  query.split("&").forEach((pair) => {
+    const eq = pair.indexOf("=");
+    if (eq <= 0) return;
+    params.set(pair.slice(0, eq).toLowerCase(), safeDecode(pair.slice(eq + 1)));
+  });
+  return params;
+};
+
+const nonEmpty = (value: string | undefined): string | undefined =>
+  value && value.trim() ? value.trim() : undefined;
+
+const parseWifi = (text: string): ParsedPayload | null => {
+  const fields = parseFieldList(text.slice("WIFI:".length));
+  const ssid = fields.get("S")?.[0];
+  if (!ssid) return null;
+
+  return {
+    type: "wifi",
+    ssid,
+    security: nonEmpty(fields.get("T")?.[0]) ?? "nopass",
+    password: nonEmpty(fields.get("P")?.[0]),
+    hidden: fields.get("H")?.[0]?.toLowerCase() === "true",
+  };
+};
+
+const buildVCard = (
+  familyName: string | undefined,
+  givenName: string | undefined,
+  contact: {
+    name?: string;
+    organization?: string;
+    phones: string[];
+    emails: string[];
+    urls: string[];
+    address?: string;
+    note?: string;
+  }
+): string => {
+  const lines = [
+    "BEGIN:VCARD",
+    "VERSION:3.0",
+    `N:${escapeText(familyName ?? "")};${escapeText(givenName ?? "")};;;`,
+    `FN:${escapeText(contact.name ?? "")}`,
+  ];
+  if (contact.organization) lines.push(`ORG:${escapeText(contact.organization)}`);
+  contact.phones.forEach((phone) => lines.push(`TEL:${escapeText(phone)}`));
+  contact.emails.forEach((email) => lines.push(`EMAIL:${escapeText(email)}`));
+  contact.urls.forEach((url) => lines.push(`URL:${escapeText(url)}`));
+  if (contact.address) lines.push(`ADR:;;${escapeText(contact.address)};;;;`);
+  if (contact.note) lines.push(`NOTE:${escapeText(contact.note)}`);
+  lines.push("END:VCARD");
+  return lines.join("\r\n") + "\r\n";
+};
+
+const parseMecard = (text: string): ParsedPayload | null => {
+  const fields = parseFieldList(text.slice("MECARD:".length));
+  // N is "Family,Given"
+  const [familyName, givenName] = (fields.get("N")?.[0] ?? "").split(",").map((part) => part.trim());
+  const name = nonEmpty([givenName, familyName].filter(Boolean).join(" "));
+  const contact = {
+    name,
+    organization: nonEmpty(fields.get("ORG")?.[0]),
+    phones: fields.get("TEL") ?? [],
+    emails: fields.get("EMAIL") ?? [],
+    urls: fields.get("URL") ?? [],
+    address: nonEmpty(fields.get("ADR")?.[0]?.split(",").filter(Boolean).join(", ")),
+    note: nonEmpty(fields.get("NOTE")?.[0]),
+  };
+  if (!name && contact.phones.length === 0 && contact.emails.length === 0) return null;
+
+  return { type: "contact", format: "mecard", ...contact, vcard: buildVCard(familyName, givenName, contact) };
+};
+
+const parseVCard = (text: string): ParsedPayload | null => {
+  const lines = parseContentLines(text);
+  const values = (name: string) =>
+    lines.filter((line) => line.name === name).map((line) => line.value);
+  const components = (value: string) =>
+    splitUnescaped(value, ";").map((part) => unescapeText(part).trim());
+
+  // N is "Family;Given;Additional;Prefix;Suffix"
+  const [familyName, givenName, additional] = components(values("N")[0] ?? "");
+  const name =
+    nonEmpty(unescapeText(values("FN")[0] ?? "")) ??
+    nonEmpty([givenName, additional, familyName].filter(Boolean).join(" "));
+  const contact = {
+    name,
+    organization: nonEmpty(components(values("ORG")[0] ?? "").filter(Boolean).join(", ")),
+    phones: values("TEL").map(unescapeText).filter(Boolean),
+    emails: values("EMAIL").map(unescapeText).filter(Boolean),
+    urls: values("URL").map(unescapeText).filter(Boolean),
+    address: nonEmpty(components(values("ADR")[0] ?? "").filter(Boolean).join(", ")),
+    note: nonEmpty(unescapeText(values("NOTE")[0] ?? "")),
+  };
+  if (!name && contact.phones.length === 0 && contact.emails.length === 0) return null;
+
+  return {
+    type: "contact",
+    format: "vcard",
+    ...contact,
+    vcard: text.replace(/\r?\n/g, "\r\n").trim() + "\r\n",
+  };
+};
+
+const parseGeo = (text: string): ParsedPayload | null => {
+  const match =
+    /^geo:(-?\d+(?:\.\d+)?),(-?\d+(?:\.\d+)?)(?:,(-?\d+(?:\.\d+)?))?[^?]*(?:\?(.*))?$/i.exec(text);
+  if (!match) return null;
+
+  const latitude = Number(match[1]);
+  const longitude = Number(match[2]);
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null;
+
+  return {
+    type: "geo",
+    latitude,
+    longitude,
+    altitude: match[3] !== undefined ? Number(match[3]) : undefined,
+    query: match[4] ? nonEmpty(parseQuery(match[4]).get("q")) : undefined,
+  };
+};
+
+const parseMailto = (text: string): ParsedPayload | null => {
+  const [address, query = ""] = text.slice("mailto:".length).split(/\?(.*)/s);
+  const to = safeDecode(address).trim();
+  if (!to) return null;
+  const params = parseQuery(query);
+  return {
+    type: "email",
+    to,
+    subject: nonEmpty(params.get("subject")),
+    body: nonEmpty(params.get("body")),
+  };
+};
+
+const parseMatmsg = (text: string): ParsedPayload | null => {
+  const fields = parseFieldList(text.slice("MATMSG:".length));
+  const to = nonEmpty(fields.get("TO")?.[0]);
+  if (!to) return null;
+  return {
+    type: "email",
+    to,
+    subject: nonEmpty(fields.get("SUB")?.[0]),
+    body: nonEmpty(fields.get("BODY")?.[0]),
+  };
+};
+
+const parseSms = (text: string): ParsedPayload | null => {
+  if (/^smsto:/i.test(text)) {
+    // SMSTO:number:message - the message may itself contain colons
+    const [number, ...message] = text.slice("SMSTO:".length).split(":");
+    if (!number.trim()) return null;
+    return { type: "sms", number: number.trim(), message: nonEmpty(message.join(":")) };
+  }
+
+  const [number, query = ""] = text.slice("sms:".length).split(/\?(.*)/s);
+  if (!number.trim()) return null;
+  return {
+    type: "sms",
+    number: safeDecode(number).trim(),
+    message: nonEmpty(parseQuery(query).get("body")),
+  };
+};
+
+// DATE (20261019) or DATE-TIME (20261019T140000[Z]); floating and TZID times are read as local
+const parseICalDate = (value: string): Date | undefined => {
+  const match = /^(\d{4})(\d{2})(\d{2})(?:T(\d{2})(\d{2})(\d{2})?(Z)?)?$/.exec(value.trim());
+  if (!match) return undefined;
+  const [, year, month, day, hour = "0", minute = "0", second = "0", utc] = match;
+  const parts = [year, month, day, hour, minute, second].map(Number);
+  return utc
+    ? new Date(Date.UTC(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]))
+    : new Date(parts[0], parts[1] - 1, parts[2], parts[3], parts[4], parts[5]);
+};
+
+const parseEvent = (text: string): ParsedPayload | null => {
+  const block = /BEGIN:VEVENT[\s\S]*?END:VEVENT/i.exec(text)?.[0];
+  if (!block) return null;
+
+  const lines = parseContentLines(block);
+  const line = (name: string) => lines.find((entry) => entry.name === name);
+  const start = line("DTSTART");
+  const end = line("DTEND");
+  const normalized = text.replace(/\r?\n/g, "\r\n").trim();
+
+  return {
+    type: "event",
+    summary: nonEmpty(unescapeText(line("SUMMARY")?.value ?? "")),
+    start: start ? parseICalDate(start.value) : undefined,
+    end: end ? parseICalDate(end.value) : undefined,
+    allDay:
+      !!start &&
+      (start.params.some((param) => /^VALUE=DATE$/i.test(param)) ||
+        /^\d{8}$/.test(start.value.trim())),
+    location: nonEmpty(unescapeText(line("LOCATION")?.value ?? "")),
+    description: nonEmpty(unescapeText(line("DESCRIPTION")?.value ?? "")),
+    // Calendar apps want a whole VCALENDAR, but many codes only carry the VEVENT
+    ics: /BEGIN:VCALENDAR/i.test(normalized)
+      ? normalized + "\r\n"
+      : [
+          "BEGIN:VCALENDAR",
+          "VERSION:2.0",
+          "PRODID:-//Multi-QR Scanner//EN",
+          block.replace(/\r?\n/g, "\r\n").trim(),
+          "END:VCALENDAR",
+        ].join("\r\n") + "\r\n",
+  };
+};
+
+export const parsePayload = (text: string): ParsedPayload => {
+  const trimmed = text.trim();
+  let parsed: ParsedPayload | null = null;
+
+  // Script and data links count as links too, so the link check gets to block them
+  if (/^https?:\/\/\S+$/i.test(trimmed) || /^(javascript|data|vbscript):/i.test(trimmed)) {
+    parsed = { type: "url", url: trimmed };
+  } else if (/^WIFI:/i.test(trimmed)) {
+    parsed = parseWifi(trimmed);
+  } else if (/^MECARD:/i.test(trimmed)) {
+    parsed = parseMecard(trimmed);
+  } else if (/^BEGIN:VCARD/i.test(trimmed)) {
+    parsed = parseVCard(trimmed);
+  } else if (/^geo:/i.test(trimmed)) {
+    parsed = parseGeo(trimmed);
+  } else if (/^mailto:/i.test(trimmed)) {
+    parsed = parseMailto(trimmed);
+  } else if (/^MATMSG:/i.test(trimmed)) {
+    parsed = parseMatmsg(trimmed);
+  } else if (/^tel:/i.test(trimmed)) {
+    const number = safeDecode(trimmed.slice("tel:".length)).trim();
+    parsed = number ? { type: "phone", number } : null;
+  } else if (/^sms(to)?:/i.test(trimmed)) {
+    parsed = parseSms(trimmed);
+  } else if (/BEGIN:VEVENT/i.test(trimmed)) {
+    parsed = parseEvent(trimmed);
+  }
+
+  return parsed ?? { type: "text" };
+};
@@ -0,0 +1,68 @@
+import type { FrameDecodeResult, ProcessingStats } from "../types";
+
+// Window over which the effective decode rate is measured
+const FPS_WINDOW_MS = 1000;
+
+// Accumulates per-frame decoder timings into ProcessingStats for one session
+export class ProcessingStatsTracker {
+  private framesProcessed = 0;
+  private codesDetected = 0;
+  private droppedFrames = 0;
+  private totalDecodeTime = 0;
+  private strategyTotals: Record<string, number> = {};
+  private recentFrames: number[] = [];
+  private readonly startedAt = performance.now();
+
+  recordFrame(frame: FrameDecodeResult, codesAccepted: number): void {
+    const now = performance.now();
+    this.framesProcessed++;
+    this.codesDetected += codesAccepted;
+    this.totalDecodeTime += frame.decodeTime;
+
+    Object.entries(frame.strategyTimes).forEach(([strategy, time]) => {
+      this.strategyTotals[strategy] = (this.strategyTotals[strategy] ?? 0) + time;
+    });
+
+    this.recentFrames.push(now);
+    while (this.recentFrames.length > 0 && now - this.recentFrames[0] > FPS_WINDOW_MS) {
+      this.recentFrames.shift();
+    }
+  }
+
+  // Codes accepted after the frame itself was recorded (e.g. once a whole image is merged)
+  recordCodes(count: number): void {
+    this.codesDetected += count;
+  }
+
+  recordDroppedFrame(): void {
+    this.droppedFrames++;
+  }
+
+  // Live snapshots report the rate over the last second; the overall one
+  // (used for the saved session) averages over the whole session
+  snapshot(overall = false): ProcessingStats {
+    const frames = Math.max(1, this.framesProcessed);
+    const strategyTimes: Record<string, number> = {};
+    Object.entries(this.strategyTotals).forEach(([strategy, total]) => {
+      strategyTimes[strategy] = round(total / frames);
+    });
+
+    const now = performance.now();
+    const fps = overall
+      ? (this.framesProcessed * 1000) / Math.max(1, now - this.startedAt)
+      : (this.recentFrames.filter((time) => now - time <= FPS_WINDOW_MS).length * 1000) /
+        FPS_WINDOW_MS;
+
+    return {
+      framesProcessed: this.framesProcessed,
+      codesDetected: this.codesDetected,
+      averageProcessingTime: round(this.totalDecodeTime / frames),
+      fps: round(fps),
+      lastUpdate: new Date(),
+      droppedFrames: this.droppedFrames,
+      strategyTimes,
+    };
+  }
+}
+
+const round = (value: number) => Math.round(value * 10) / 10;
@@ -0,0 +1,109 @@
+import QRCodeStyling from "qr-code-styling";
+import type { Options } from "qr-code-styling";
+
+// QR codes drawn on the device with qr-code-styling, so generating works offline
+
+export type ErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+
+export interface QrStyle {
+  errorCorrectionLevel: ErrorCorrectionLevel;
+  size: number; // Pixels, including the margin
+  margin: number; // Quiet zone in pixels
+  foreground: string; // CSS colours
+  background: string;
+  logo: string | null; // Data URL drawn in the middle of the code
+}
+
+export const DEFAULT_QR_STYLE: QrStyle = {
+  errorCorrectionLevel: "M",
+  size: 300,
+  margin: 12,
+  foreground: "#000000",
+  background: "#ffffff",
+  logo: null,
+};
+
+export const ERROR_CORRECTION_LEVELS: { value: ErrorCorrectionLevel; label: string }[] = [
+  { value: "L", label: "L · 7%" },
+  { value: "M", label: "M · 15%" },
+  { value: "Q", label: "Q · 25%" },
+  { value: "H", label: "H · 30%" },
+];
+
+export const toStylingOptions = (data: string, style: QrStyle, type: "canvas" | "svg"): Partial<Options> => ({
+  type,
+  data,
+  width: style.size,
+  height: style.size,
+  margin: style.margin,
+  image: style.logo ?? undefined,
+  qrOptions: { errorCorrectionLevel: style.errorCorrectionLevel },
+  dotsOptions: { color: style.foreground, type: "square" },
+  cornersSquareOptions: { color: style.foreground, type: "square" },
+  cornersDotOptions: { color: style.foreground, type: "square" },
+  backgroundOptions: { color: style.background },
+  // The logo covers modules; keep it small and clear the dots behind it
+  imageOptions: { hideBackgroundDots: true, imageSize: 0.3, margin: 4 },
+});
+
+export const createQrCode = (data: string, style: QrStyle, type: "canvas" | "svg" = "svg"): QRCodeStyling =>
+  new QRCodeStyling(toStylingOptions(data, style, type));
+
+// Encoded image for a download: PNG from a canvas, SVG as markup
+export const renderQrCode = async (data: string, style: QrStyle, extension: "png" | "svg"): Promise<Blob> => {
+  const code = createQrCode(data, style, extension === "png" ? "canvas" : "svg");
+  const raw = await code.getRawData(extension);
+  if (!(raw instanceof Blob)) throw new Error("Could not render the QR code");
+  return raw;
+};
+
+export const renderQrSvg = async (data: string, style: QrStyle): Promise<string> =>
+  (await renderQrCode(data, style, "svg")).text();
+
+// For codes and captions written into generated pages
+export const escapeHtml = (text: string): string =>
+  text.replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+// A page of codes for testing multi-code scanning. The SVGs are inlined, so the page
+// needs no network or scripts to render.
+export const buildTestPage = async (codes: string[], style: QrStyle): Promise<string> => {
+  const svgs: string[] = [];
+  for (const code of codes) {
+    svgs.push(await renderQrSvg(code, style));
+  }
+  const cells = codes
+    .map(
+      (code, index) => `
+      <figure class="code">
+        ${svgs[index].replace(/^<\?xml[^>]*>\s*/, "")}
+        <figcaption>${escapeHtml(code)}</figcaption>
+      </figure>`
+    )
+    .join("");
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+  <meta charset="utf-8">
+  <title>Multi QR Scanner Test Page (${codes.length} codes)</title>
+  <style>
+    body { font-family: Arial, sans-serif; padding: 20px; background: #f0f0f0; }
+    .header { text-align: center; margin-bottom: 20px; background: white; padding: 20px; border-radius: 10px; }
+    .grid { display: flex; flex-wrap: wrap; justify-content: center; gap: 20px; background: white; padding: 20px; border-radius: 10px; }
+    .code { margin: 0; width: ${style.size}px; text-align: center; }
+    .code svg { display: block; width: ${style.size}px; height: ${style.size}px; }
+    figcaption { font-size: 10px; margin-top: 5px; word-break: break-all; }
+  </style>
+</head>
+<body>
+  <div class="header">
+    <h1>Multi QR Scanner Test</h1>
+    <p><strong>${codes.length} QR codes</strong> for simultaneous scanning. Point the scanner at this page
+    with several codes in view; move closer for a few codes, further away for many.</p>
+  </div>
+  <div class="grid">${cells}
+  </div>
+</body>
+</html>
+`;
+};
@@ -0,0 +1,128 @@
+import { escapeCsv } from "./exporter";
+import { formatGs1, isGs1ElementString } from "./gs1Parser";
+import { parseDelimited } from "./importer";
+import type { ExpectedItem, Reconciliation, ScanResult } from "../types";
+
+// Headers that name the code column in a CSV manifest; otherwise the first column is used
+const CODE_COLUMNS = ["code", "text", "barcode", "gtin", "sscc", "id"];
+const LABEL_COLUMNS = ["label", "name", "description", "title"];
+
+const fromJson = (value: unknown): ExpectedItem[] => {
+  const entries = Array.isArray(value)
+    ? value
+    : value && typeof value === "object" && Array.isArray((value as { items?: unknown }).items)
+      ? (value as { items: unknown[] }).items
+      : null;
+  if (!entries) throw new Error("Expected a JSON array of codes");
+
+  return entries.flatMap((entry): ExpectedItem[] => {
+    if (typeof entry === "string" || typeof entry === "number") return [{ code: String(entry) }];
+    if (!entry || typeof entry !== "object") return [];
+    const record = entry as Record<string, unknown>;
+    const code = CODE_COLUMNS.map((key) => record[key]).find(
+      (value) => typeof value === "string" || typeof value === "number"
+    );
+    const label = LABEL_COLUMNS.map((key) => record[key]).find((value) => typeof value === "string");
+    return code === undefined ? [] : [{ code: String(code), label: label as string | undefined }];
+  });
+};
+
+// One code per line ("code" or "code,label"), or a CSV or TSV with a header row
+const fromLines = (text: string): ExpectedItem[] => {
+  const delimiter = text.split(/\r?\n/, 1)[0].includes("\t") ? "\t" : ",";
+  const rows = parseDelimited(text, delimiter).map((row) => row.map((cell) => cell.trim()));
+  if (rows.length === 0) return [];
+
+  const header = rows[0].map((cell) => cell.toLowerCase());
+  const codeIndex = header.findIndex((cell) => CODE_COLUMNS.includes(cell));
+  const hasHeader = codeIndex >= 0;
+  const labelIndex = hasHeader
+    ? header.findIndex((cell) => LABEL_COLUMNS.includes(cell))
+    : rows.some((row) => row.length > 1)
+      ? 1
+      : -1;
+
+  return (hasHeader ? rows.slice(1) : rows)
+    .map((row) => ({
+      code: row[hasHeader ? codeIndex : 0] ?? "",
+      label: labelIndex >= 0 ? row[labelIndex] || undefined : undefined,
+    }))
+    .filter((item) => item.code !== "");
+};
+
+// Parse a pasted or uploaded manifest. Repeated codes are listed once.
+export const parseExpectedList = (text: string): ExpectedItem[] => {
+  const trimmed = text.trim();
+  const items =
+    trimmed.startsWith("[") || trimmed.startsWith("{")
+      ? fromJson(JSON.parse(trimmed))
+      : fromLines(trimmed);
+
+  const seen = new Set<string>();
+  return items.filter((item) => {
+    if (seen.has(item.code)) return false;
+    seen.add(item.code);
+    return true;
+  });
+};
+
+// What a scanned code can be matched on: its text, and for GS1 data the bracketed
+// element string, GTIN and SSCC, so a manifest can list either form
+export const getMatchKeys = (result: ScanResult): string[] => {
+  const keys = [result.text];
+  if (result.gs1) {
+    if (isGs1ElementString(result.text)) keys.push(formatGs1(result.gs1));
+    if (result.gs1.gtin) keys.push(result.gs1.gtin);
+    const sscc = result.gs1.elements.find((element) => element.ai === "00");
+    if (sscc) keys.push(sscc.value);
+  }
+  return keys;
+};
+
+export const reconcile = (items: ExpectedItem[], results: ScanResult[]): Reconciliation => {
+  const itemsByCode = new Map(items.map((item) => [item.code, item]));
+  const matchedByCode = new Map<string, ScanResult>();
+  const unexpected: ScanResult[] = [];
+
+  results.forEach((result) => {
+    const codes = getMatchKeys(result).filter((key) => itemsByCode.has(key));
+    if (codes.length === 0) {
+      unexpected.push(result);
+      return;
+    }
+    codes.forEach((code) => {
+      if (!matchedByCode.has(code)) matchedByCode.set(code, result);
+    });
+  });
+
+  return {
+    matched: items
+      .filter((item) => matchedByCode.has(item.code))
+      .map((item) => ({ item, result: matchedByCode.get(item.code) as ScanResult })),
+    missing: items.filter((item) => !matchedByCode.has(item.code)),
+    unexpected,
+  };
+};
+
+// One row per expected item plus one per unexpected scan
+export const formatReconciliationCsv = (reconciliation: Reconciliation): string => {
+  const rows = [
+    ["status", "code", "label", "scanned_text", "scanned_at"],
+    ...reconciliation.matched.map(({ item, result }) => [
+      "matched",
+      item.code,
+      item.label ?? "",
+      result.text,
+      result.timestamp.toISOString(),
+    ]),
+    ...reconciliation.missing.map((item) => ["missing", item.code, item.label ?? "", "", ""]),
+    ...reconciliation.unexpected.map((result) => [
+      "unexpected",
+      "",
+      "",
+      result.text,
+      result.timestamp.toISOString(),
+    ]),
+  ];
+  return rows.map((row) => row.map(escapeCsv).join(",")).join("\r\n") + "\r\n";
+};
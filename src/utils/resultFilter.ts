@@ -0,0 +1,79 @@
+import { formatGs1 } from "./gs1Parser";
+import { parsePayload } from "./payloadParser";
+import type { ScanResult } from "../types";
+
+export type ResultSort = "newest" | "oldest" | "value-asc" | "value-desc";
+
+export interface ResultFilter {
+  query: string;
+  format: string | null;
+  source: ScanResult["source"] | null;
+  from: string; // datetime-local value, "" = open-ended
+  to: string;
+  sort: ResultSort;
+}
+
+export const DEFAULT_RESULT_FILTER: ResultFilter = {
+  query: "",
+  format: null,
+  source: null,
+  from: "",
+  to: "",
+  sort: "newest",
+};
+
+export const isFilterActive = (filter: ResultFilter): boolean =>
+  filter.query.trim() !== "" ||
+  filter.format !== null ||
+  filter.source !== null ||
+  filter.from !== "" ||
+  filter.to !== "";
+
+// Lower-cased text a search matches against: the raw payload, its GS1 form, the fields
+// of a parsed payload (Wi-Fi name, contact name, ...) and the file it came from.
+// Results are immutable, so it is worked out once per result.
+const searchTextCache = new WeakMap<ScanResult, string>();
+
+const getSearchText = (result: ScanResult): string => {
+  let text = searchTextCache.get(result);
+  if (text === undefined) {
+    const payload = parsePayload(result.text);
+    const fields = Object.values(payload).filter(
+      (value): value is string => typeof value === "string"
+    );
+    text = [result.text, result.gs1 ? formatGs1(result.gs1) : "", result.sourceName ?? "", ...fields]
+      .join("\n")
+      .toLowerCase();
+    searchTextCache.set(result, text);
+  }
+  return text;
+};
+
+const collator = new Intl.Collator(undefined, { numeric: true, sensitivity: "base" });
+
+const COMPARATORS: Record<ResultSort, (a: ScanResult, b: ScanResult) => number> = {
+  newest: (a, b) => b.timestamp.getTime() - a.timestamp.getTime(),
+  oldest: (a, b) => a.timestamp.getTime() - b.timestamp.getTime(),
+  "value-asc": (a, b) => collator.compare(a.text, b.text),
+  "value-desc": (a, b) => collator.compare(b.text, a.text),
+};
+
+export const filterAndSortResults = (results: ScanResult[], filter: ResultFilter): ScanResult[] => {
+  // Every word has to appear somewhere in the result
+  const terms = filter.query.toLowerCase().split(/\s+/).filter(Boolean);
+  const from = filter.from ? new Date(filter.from).getTime() : -Infinity;
+  // datetime-local has minute precision; "to" includes the whole minute
+  const to = filter.to ? new Date(filter.to).getTime() + 59_999 : Infinity;
+
+  return results
+    .filter((result) => {
+      if (filter.format !== null && result.format !== filter.format) return false;
+      if (filter.source !== null && result.source !== filter.source) return false;
+      const time = result.timestamp.getTime();
+      if (time < from || time > to) return false;
+      if (terms.length === 0) return true;
+      const text = getSearchText(result);
+      return terms.every((term) => text.includes(term));
+    })
+    .sort(COMPARATORS[filter.sort]);
+};
@@ -0,0 +1,27 @@
+import type { ScanResult } from "../types";
+
+export interface MergeOutcome {
+  added: ScanResult[];
+  skipped: ScanResult[]; // Already in the list (or earlier in the same batch)
+}
+
+// Plain merge for imported rows: a code is identified by its text, first one wins.
+// Live reads go through utils/duplicatePolicy instead.
+export const mergeUniqueResults = (
+  existing: ScanResult[],
+  incoming: ScanResult[]
+): MergeOutcome => {
+  const seen = new Set(existing.map((result) => result.text));
+  const added: ScanResult[] = [];
+  const skipped: ScanResult[] = [];
+
+  incoming.forEach((result) => {
+    if (seen.has(result.text)) {
+      skipped.push(result);
+    } else {
+      seen.add(result.text);
+      added.push(result);
+    }
+  });
+  return { added, skipped };
+};
@@ -0,0 +1,103 @@
+import { SUPPORTED_FORMATS } from "./formats";
+import type { BarcodeFormatName, DecodeOptions, DuplicatePolicy, ScannerConfig } from "../types";
+
+export const DEFAULT_SCANNER_CONFIG: ScannerConfig = {
+  enableMultiScan: true,
+  scanInterval: 16,
+  confidenceThreshold: 0,
+  maxCodesPerFrame: 50,
+  duplicatePolicy: { mode: "drop", scope: "session", windowSeconds: 60 },
+  enableRealTimeProcessing: true,
+  cameraResolution: "high",
+  scanMode: "continuous",
+  burstFrameCount: 5,
+  formats: SUPPORTED_FORMATS,
+};
+
+// What the decoder is asked to do with each frame or image. The allow-list can be
+// narrowed for one session (the embedded scanner's host picks its own formats).
+export const getDecodeOptions = (
+  config: ScannerConfig,
+  formats: BarcodeFormatName[] = config.formats
+): DecodeOptions => ({
+  formats,
+  maxCodes: config.maxCodesPerFrame,
+  multiScan: config.enableMultiScan,
+});
+
+interface ResolutionPlatform {
+  isMobile: boolean;
+  isIOS: boolean;
+}
+
+// getUserMedia size/frame-rate constraints for a resolution preset.
+// "high" keeps the device-specific maximums the scanner has always asked for.
+export const getResolutionConstraints = (
+  resolution: ScannerConfig["cameraResolution"],
+  platform: ResolutionPlatform
+) => {
+  switch (resolution) {
+    case "low":
+      return {
+        width: { ideal: 640 },
+        height: { ideal: 480 },
+        frameRate: { ideal: 30 },
+      };
+    case "medium":
+      return {
+        width: { ideal: 1280, max: 1920 },
+        height: { ideal: 720, max: 1080 },
+        frameRate: { ideal: 30, max: 60 },
+      };
+    case "high":
+      if (platform.isMobile) {
+        // MOBILE OPTIMIZED - Lower resolution, lower FPS for stability
+        return platform.isIOS
+          ? {
+              width: { ideal: 1280, max: 1920 },
+              height: { ideal: 720, max: 1080 },
+              frameRate: { ideal: 30, max: 60 },
+            }
+          : {
+              width: { ideal: 1920, max: 2560 },
+              height: { ideal: 1080, max: 1440 },
+              frameRate: { ideal: 30, max: 60 },
+            };
+      }
+      // DESKTOP OPTIMIZED - High resolution, high FPS for maximum speed
+      return {
+        width: { ideal: 2560, max: 3840 },
+        height: { ideal: 1440, max: 2160 },
+        frameRate: { ideal: 60, max: 120 },
+      };
+  }
+};
+
+// Before duplicate policies there was only an on/off switch
+interface LegacyScannerConfig extends Partial<ScannerConfig> {
+  enableDuplicateDetection?: boolean;
+}
+
+// Read a stored config, filling in fields added since it was saved
+export const loadScannerConfig = (stored: string | null): ScannerConfig => {
+  if (!stored) return DEFAULT_SCANNER_CONFIG;
+  try {
+    const { enableDuplicateDetection, ...parsed } = JSON.parse(stored) as LegacyScannerConfig;
+    // Switching detection off used to list every repeat, flagged as a duplicate
+    const legacyPolicy: Partial<DuplicatePolicy> = enableDuplicateDetection === false ? { mode: "flag" } : {};
+    // Formats this version no longer knows are dropped rather than sent to the decoder
+    const formats = parsed.formats?.filter((format) => SUPPORTED_FORMATS.includes(format));
+    return {
+      ...DEFAULT_SCANNER_CONFIG,
+      ...parsed,
+      formats: formats && formats.length > 0 ? formats : DEFAULT_SCANNER_CONFIG.formats,
+      duplicatePolicy: {
+        ...DEFAULT_SCANNER_CONFIG.duplicatePolicy,
+        ...legacyPolicy,
+        ...parsed.duplicatePolicy,
+      },
+    };
+  } catch {
+    return DEFAULT_SCANNER_CONFIG;
+  }
+};
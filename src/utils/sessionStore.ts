@@ -0,0 +1,128 @@
+import { DEFAULT_SCANNER_CONFIG } from "./scannerConfig";
+import type { ProcessingStats, ScanResult, ScanSession } from "../types";
+
+const DB_NAME = "multi-qr-scanner";
+const DB_VERSION = 1;
+const SESSIONS_STORE = "sessions";
+// Where results lived before sessions moved to IndexedDB
+const LEGACY_RESULTS_KEY = "multiQRScanResults";
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(SESSIONS_STORE)) {
+          const store = db.createObjectStore(SESSIONS_STORE, { keyPath: "id" });
+          store.createIndex("startTime", "startTime");
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+// Run one request in its own transaction and resolve with its result
+const runRequest = async <T>(
+  mode: IDBTransactionMode,
+  makeRequest: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> => {
+  const db = await openDatabase();
+  return new Promise((resolve, reject) => {
+    const transaction = db.transaction(SESSIONS_STORE, mode);
+    const request = makeRequest(transaction.objectStore(SESSIONS_STORE));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error);
+    transaction.onabort = () => reject(transaction.error);
+  });
+};
+
+export const createEmptyStats = (): ProcessingStats => ({
+  framesProcessed: 0,
+  codesDetected: 0,
+  averageProcessingTime: 0,
+  fps: 0,
+  lastUpdate: new Date(),
+});
+
+export const createSession = (
+  config: ScanSession["config"],
+  results: ScanResult[] = []
+): ScanSession => ({
+  id: `session-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+  startTime: new Date(),
+  results,
+  config,
+  stats: createEmptyStats(),
+});
+
+export const getSessionName = (session: ScanSession): string =>
+  session.name || `Scan ${session.startTime.toLocaleString()}`;
+
+// Newest first
+export const listSessions = async (): Promise<ScanSession[]> => {
+  const sessions = await runRequest("readonly", (store) =>
+    store.index("startTime").getAll()
+  );
+  return (sessions as ScanSession[]).reverse();
+};
+
+export const getSession = async (id: string): Promise<ScanSession | undefined> =>
+  (await runRequest("readonly", (store) => store.get(id))) as ScanSession | undefined;
+
+export const saveSession = async (session: ScanSession): Promise<void> => {
+  await runRequest("readwrite", (store) => store.put(session));
+};
+
+export const deleteSession = async (id: string): Promise<void> => {
+  await runRequest("readwrite", (store) => store.delete(id));
+};
+
+// One-off move of the old localStorage result list into a session of its own.
+// Resolves with the created session, or null when there was nothing to migrate.
+export const migrateLegacyResults = async (): Promise<ScanSession | null> => {
+  const saved = localStorage.getItem(LEGACY_RESULTS_KEY);
+  if (!saved) return null;
+
+  let results: ScanResult[];
+  try {
+    const parsed = JSON.parse(saved) as Array<
+      Omit<ScanResult, "timestamp"> & { timestamp: string }
+    >;
+    results = parsed.map((result) => ({
+      ...result,
+      timestamp: new Date(result.timestamp),
+    }));
+  } catch (error) {
+    console.error("Failed to migrate saved results:", error);
+    localStorage.removeItem(LEGACY_RESULTS_KEY);
+    return null;
+  }
+
+  if (results.length === 0) {
+    localStorage.removeItem(LEGACY_RESULTS_KEY);
+    return null;
+  }
+
+  const times = results.map((result) => result.timestamp.getTime());
+  const session: ScanSession = {
+    ...createSession(DEFAULT_SCANNER_CONFIG, results),
+    name: "Imported scans",
+    startTime: new Date(Math.min(...times)),
+    endTime: new Date(Math.max(...times)),
+  };
+  session.stats.codesDetected = results.length;
+
+  await saveSession(session);
+  localStorage.removeItem(LEGACY_RESULTS_KEY);
+  return session;
+};
@@ -0,0 +1,165 @@
+import { parseGs1 } from "./gs1Parser";
+import type { ScanResult, StructuredAppendInfo, StructuredAppendSet } from "../types";
+
+// Structured Append splits one message over up to 16 QR symbols. Each symbol carries its
+// position, the total and a parity byte (the XOR of every byte of the whole message), so
+// parts are collected here, across frames and sessions, until the message is complete.
+
+// Older incomplete sets are dropped beyond this many
+const MAX_PENDING_SETS = 50;
+// Messages already reassembled that are remembered, so their symbols can be ignored
+const MAX_ASSEMBLED_SETS = 50;
+
+// Sets with the same total and parity are told apart by a suffix, since that is only
+// one byte of identity: two messages share it once in 256 times
+const getSetKey = (info: StructuredAppendInfo, taken: Map<string, unknown>): string => {
+  const base = `${info.total}-${info.parity}`;
+  let key = base;
+  for (let n = 2; taken.has(key); n++) key = `${base}-${n}`;
+  return key;
+};
+
+const isSameMessage = (set: StructuredAppendSet, info: StructuredAppendInfo): boolean =>
+  set.total === info.total && set.parity === info.parity;
+
+const withPart = (parts: (string | null)[], index: number, text: string): (string | null)[] =>
+  parts.map((part, i) => (i === index ? text : part));
+
+const xorBytes = (bytes: Iterable<number>): number => {
+  let parity = 0;
+  for (const byte of bytes) parity ^= byte;
+  return parity;
+};
+
+// The parity was computed over the bytes the encoder wrote, and which character set that
+// was isn't recorded: UTF-8 is tried, and ISO-8859-1 when every character fits in a byte
+const getParityCandidates = (text: string): number[] => {
+  const candidates = [xorBytes(new TextEncoder().encode(text))];
+  const codes = Array.from(text, (char) => char.codePointAt(0) ?? 0);
+  if (codes.every((code) => code < 256)) candidates.push(xorBytes(codes));
+  return candidates;
+};
+
+export const formatParity = (parity: number): string =>
+  `0x${parity.toString(16).toUpperCase().padStart(2, "0")}`;
+
+export const countParts = (set: StructuredAppendSet): number =>
+  set.parts.filter((part) => part !== null).length;
+
+// The complete message as one result, whatever its parity
+export const assembleSet = (set: StructuredAppendSet): ScanResult => {
+  const text = set.parts.join("");
+  return {
+    id: `structured-append-${set.key}-${Date.now()}-${Math.random()}`,
+    text,
+    format: "QR_CODE",
+    timestamp: new Date(),
+    source: set.source,
+    assembledFrom: set.total,
+    gs1: parseGs1(text, "QR_CODE") ?? undefined,
+  };
+};
+
+export interface CollectedParts {
+  sets: StructuredAppendSet[]; // Sets still waiting for parts, or failing their parity check
+  completed: ScanResult[]; // Messages reassembled from this batch
+  others: ScanResult[]; // Results that aren't Structured Append parts, untouched
+  assembled: StructuredAppendSet[]; // Reassembled sets to remember, to pass to the next call
+}
+
+// Remember a reassembled set, so parts of it read again are ignored
+export const rememberAssembled = (
+  assembled: StructuredAppendSet[],
+  set: StructuredAppendSet
+): StructuredAppendSet[] => [...assembled, set].slice(-MAX_ASSEMBLED_SETS);
+
+// Sort a batch of results into parts and everything else, file the parts under their set
+// and reassemble every set that is complete and passes its parity check. A complete set
+// that fails it stays in the list, flagged, until a re-read part fixes it or it is dropped.
+// Parts of a message already reassembled (the symbols are usually still in view) are
+// dropped, and a part that differs from the one a set already holds at its index starts
+// a set of its own rather than overwriting it.
+export const collectParts = (
+  sets: StructuredAppendSet[],
+  results: ScanResult[],
+  assembled: StructuredAppendSet[] = []
+): CollectedParts => {
+  const byKey = new Map(sets.map((set) => [set.key, set]));
+  const completed: ScanResult[] = [];
+  const others: ScanResult[] = [];
+  let remembered = assembled;
+
+  results.forEach((result) => {
+    const info = result.structuredAppend;
+    if (!info || info.index >= info.total) {
+      others.push(result);
+      return;
+    }
+
+    const holdsPart = (set: StructuredAppendSet) =>
+      isSameMessage(set, info) && set.parts[info.index] === result.text;
+    if (remembered.some(holdsPart)) return;
+    const siblings = Array.from(byKey.values()).filter((set) => isSameMessage(set, info));
+    if (siblings.some(holdsPart)) return;
+
+    // First a set this part completes with the right parity (including one that only
+    // failed its check because this part was misread before), then one still missing it
+    const completes = (set: StructuredAppendSet) => {
+      const next = withPart(set.parts, info.index, result.text);
+      return (
+        next.every((part) => part !== null) &&
+        getParityCandidates(next.join("")).includes(info.parity)
+      );
+    };
+    const existing =
+      siblings.find(completes) ?? siblings.find((set) => set.parts[info.index] === null);
+    const key = existing?.key ?? getSetKey(info, byKey);
+    const parts = withPart(
+      existing?.parts ?? Array<string | null>(info.total).fill(null),
+      info.index,
+      result.text
+    );
+    const set: StructuredAppendSet = {
+      key,
+      total: info.total,
+      parity: info.parity,
+      parts,
+      source: result.source,
+      updatedAt: new Date().toISOString(),
+    };
+
+    // Move to the end, so the map stays in order of the last part received
+    byKey.delete(key);
+    if (parts.some((part) => part === null)) {
+      byKey.set(key, set);
+      return;
+    }
+
+    const candidates = getParityCandidates(parts.join(""));
+    if (candidates.includes(info.parity)) {
+      completed.push(assembleSet(set));
+      remembered = rememberAssembled(remembered, set);
+    } else {
+      byKey.set(key, { ...set, parityMismatch: candidates[0] });
+    }
+  });
+
+  return {
+    sets: Array.from(byKey.values()).slice(-MAX_PENDING_SETS),
+    completed,
+    others,
+    assembled: remembered,
+  };
+};
+
+export const loadStructuredAppendSets = (stored: string | null): StructuredAppendSet[] => {
+  if (!stored) return [];
+  try {
+    const sets = JSON.parse(stored) as StructuredAppendSet[];
+    return Array.isArray(sets)
+      ? sets.filter((set) => Array.isArray(set?.parts) && set.parts.length === set.total)
+      : [];
+  } catch {
+    return [];
+  }
+};
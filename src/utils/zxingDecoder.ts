@@ -0,0 +1,158 @@
+import {
+  BarcodeFormat,
+  BinaryBitmap,
+  DecodeHintType,
+  HybridBinarizer,
+  MultiFormatReader,
+  ResultMetadataType,
+  RGBLuminanceSource,
+} from "@zxing/library";
+import type { ResultPoint } from "@zxing/library";
+import type { BarcodeFormatName, Point, StructuredAppendInfo } from "../types";
+
+// jsQR handles QR codes; everything else goes through ZXing
+type ZXingFormatName = Exclude<BarcodeFormatName, "QR_CODE">;
+
+// QR_CODE is here for the symbols jsQR can't read: it doesn't understand the Structured
+// Append header and returns nothing, an empty string or garbage for those parts
+const ZXING_FORMATS: Record<BarcodeFormatName, BarcodeFormat> = {
+  QR_CODE: BarcodeFormat.QR_CODE,
+  CODE_128: BarcodeFormat.CODE_128,
+  CODE_39: BarcodeFormat.CODE_39,
+  EAN_13: BarcodeFormat.EAN_13,
+  EAN_8: BarcodeFormat.EAN_8,
+  UPC_A: BarcodeFormat.UPC_A,
+  UPC_E: BarcodeFormat.UPC_E,
+  ITF: BarcodeFormat.ITF,
+  DATA_MATRIX: BarcodeFormat.DATA_MATRIX,
+  PDF_417: BarcodeFormat.PDF_417,
+  AZTEC: BarcodeFormat.AZTEC,
+};
+
+export interface ZXingHit {
+  text: string;
+  format: BarcodeFormatName;
+  // Finder / guard points in the coordinates of the decoded buffer
+  points: Point[];
+  structuredAppend?: StructuredAppendInfo; // One part of a QR Structured Append sequence
+}
+
+// Readers are configured per allow-list; a frame uses one or two, so keep them between frames
+const readers = new Map<string, MultiFormatReader>();
+
+const getReader = (formats: BarcodeFormatName[], pure: boolean): MultiFormatReader => {
+  const key = `${formats.join(",")}${pure ? ":pure" : ""}`;
+  const cached = readers.get(key);
+  if (cached) return cached;
+
+  const hints = new Map<DecodeHintType, unknown>();
+  hints.set(
+    DecodeHintType.POSSIBLE_FORMATS,
+    formats.map((format) => ZXING_FORMATS[format])
+  );
+  // Report GS1-128 as "]C1" + element string with GS separators, like DataMatrix already does
+  hints.set(DecodeHintType.ASSUME_GS1, true);
+  if (pure) hints.set(DecodeHintType.PURE_BARCODE, true);
+
+  const reader = new MultiFormatReader();
+  reader.setHints(hints);
+  // The allow-list only changes between sessions; don't collect every combination
+  if (readers.size >= 4) readers.clear();
+  readers.set(key, reader);
+  return reader;
+};
+
+// ZXing reports the centres of a QR code's three finder patterns (bottom-left, top-left,
+// top-right); push them out to the symbol's corners, in jsQR's order, so masking covers it
+const toQrCorners = (points: ResultPoint[]): Point[] => {
+  const [bottomLeft, topLeft, topRight] = points;
+  if (!bottomLeft || !topLeft || !topRight) return [];
+
+  // Finder centres sit 3.5 modules in from each edge
+  const side = Math.hypot(topRight.getX() - topLeft.getX(), topRight.getY() - topLeft.getY());
+  const moduleSize =
+    "getEstimatedModuleSize" in topLeft
+      ? (topLeft as ResultPoint & { getEstimatedModuleSize(): number }).getEstimatedModuleSize()
+      : side / 14;
+  const grow = side > 0 ? (side + 7 * moduleSize) / side : 1;
+  const cx = (bottomLeft.getX() + topRight.getX()) / 2;
+  const cy = (bottomLeft.getY() + topRight.getY()) / 2;
+
+  return [
+    { x: topLeft.getX(), y: topLeft.getY() },
+    { x: topRight.getX(), y: topRight.getY() },
+    {
+      x: topRight.getX() + bottomLeft.getX() - topLeft.getX(),
+      y: topRight.getY() + bottomLeft.getY() - topLeft.getY(),
+    },
+    { x: bottomLeft.getX(), y: bottomLeft.getY() },
+  ].map((point) => ({ x: cx + (point.x - cx) * grow, y: cy + (point.y - cy) * grow }));
+};
+
+export const isZXingFormat = (
+  format: BarcodeFormatName
+): format is ZXingFormatName => format !== "QR_CODE";
+
+// Grey-scale RGBA pixels the same way ZXing's browser package does
+export const toLuminance = (
+  pixels: Uint8ClampedArray,
+  width: number,
+  height: number
+): Uint8ClampedArray => {
+  const luminance = new Uint8ClampedArray(width * height);
+  for (let i = 0, j = 0; j < luminance.length; i += 4, j++) {
+    luminance[j] = (pixels[i] * 306 + pixels[i + 1] * 601 + pixels[i + 2] * 117) >> 10;
+  }
+  return luminance;
+};
+
+// Decode one symbol from a luminance buffer, or null when nothing is found. A pure buffer
+// holds just one upright symbol, which ZXing then measures directly instead of searching.
+export const decodeWithZXing = (
+  luminance: Uint8ClampedArray,
+  width: number,
+  height: number,
+  formats: BarcodeFormatName[],
+  pure = false
+): ZXingHit | null => {
+  if (formats.length === 0) return null;
+
+  const reader = getReader(formats, pure);
+  const bitmap = new BinaryBitmap(
+    new HybridBinarizer(new RGBLuminanceSource(luminance, width, height))
+  );
+
+  try {
+    const result = reader.decodeWithState(bitmap);
+    const format = BarcodeFormat[result.getBarcodeFormat()] as BarcodeFormatName;
+    if (format === "QR_CODE") {
+      const metadata = result.getResultMetadata();
+      const sequence = metadata?.get(ResultMetadataType.STRUCTURED_APPEND_SEQUENCE);
+      const parity = metadata?.get(ResultMetadataType.STRUCTURED_APPEND_PARITY);
+      return {
+        text: result.getText(),
+        format,
+        points: toQrCorners(result.getResultPoints() ?? []),
+        // Sequence byte: position in the high nibble, total - 1 in the low one
+        structuredAppend:
+          typeof sequence === "number" && typeof parity === "number" && sequence >= 0
+            ? { index: sequence >> 4, total: (sequence & 0x0f) + 1, parity }
+            : undefined,
+      };
+    }
+
+    return {
+      text: result.getText(),
+      format,
+      // PDF417 can leave some of its eight points unset
+      points: (result.getResultPoints() ?? [])
+        .filter((point) => point != null)
+        .map((point) => ({ x: point.getX(), y: point.getY() })),
+    };
+  } catch {
+    // NotFound / Checksum / Format exceptions just mean "no readable symbol here"
+    return null;
+  } finally {
+    reader.reset();
+  }
+};
@@ -1 +1,6 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  // Comma-separated origins allowed to embed the scanner (src/embed); "*" = any, unset = the app's own
+  readonly VITE_EMBED_ALLOWED_ORIGINS?: string;
+}
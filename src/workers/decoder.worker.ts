@@ -0,0 +1,35 @@
+import * as Comlink from "comlink";
+import { decodeFrameWithStats } from "../utils/frameDecoder";
+import type { DecodeOptions, FrameDecodeResult } from "../types";
+
+let bitmapCanvas: OffscreenCanvas | null = null;
+
+// ImageBitmaps have to be rasterised before jsQR can read their pixels
+const bitmapToImageData = (bitmap: ImageBitmap): ImageData => {
+  if (!bitmapCanvas) {
+    bitmapCanvas = new OffscreenCanvas(bitmap.width, bitmap.height);
+  }
+  bitmapCanvas.width = bitmap.width;
+  bitmapCanvas.height = bitmap.height;
+
+  const ctx = bitmapCanvas.getContext("2d", { willReadFrequently: true });
+  if (!ctx) {
+    throw new Error("OffscreenCanvas 2D context not available");
+  }
+
+  ctx.drawImage(bitmap, 0, 0);
+  bitmap.close();
+  return ctx.getImageData(0, 0, bitmapCanvas.width, bitmapCanvas.height);
+};
+
+const decoderApi = {
+  decode(frame: ImageData | ImageBitmap, options: DecodeOptions): FrameDecodeResult {
+    const imageData =
+      frame instanceof ImageData ? frame : bitmapToImageData(frame);
+    return decodeFrameWithStats(imageData, options);
+  },
+};
+
+export type DecoderWorkerApi = typeof decoderApi;
+
+Comlink.expose(decoderApi);
@@ -0,0 +1,126 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { applyDuplicatePolicy, buildHistoryIndex } from "../src/utils/duplicatePolicy";
+import { DEFAULT_SCANNER_CONFIG, loadScannerConfig } from "../src/utils/scannerConfig";
+import type { DuplicatePolicy, ScanResult, ScanSession } from "../src/types";
+
+const START = new Date("2024-05-01T10:00:00Z").getTime();
+
+const read = (text: string, seconds = 0): ScanResult => ({
+  id: `${text}-${seconds}`,
+  text,
+  format: "QR_CODE",
+  timestamp: new Date(START + seconds * 1000),
+  source: "camera",
+});
+
+const policy = (mode: DuplicatePolicy["mode"], scope: DuplicatePolicy["scope"]): DuplicatePolicy => ({
+  mode,
+  scope,
+  windowSeconds: 60,
+});
+
+// "A" is already listed, read 30 seconds ago; "B" was read in an earlier session
+const listed = applyDuplicatePolicy([], [read("A")], policy("drop", "session")).results;
+const history = buildHistoryIndex([
+  { id: "earlier", name: "Earlier", startTime: new Date(START - 3600_000), results: [read("B", -3600)] } as ScanSession,
+]);
+
+// What a read of each code does under every mode and scope: the rows it lists,
+// whether the repeat is flagged, and the occurrence count the code ends up with (0 when
+// it isn't listed at all)
+const cases: {
+  mode: DuplicatePolicy["mode"];
+  scope: DuplicatePolicy["scope"];
+  text: string;
+  rows: number;
+  flagged?: boolean;
+  occurrences: number;
+}[] = [
+  // Frame scope: only a second read in the same delivery is a repeat
+  { mode: "drop", scope: "frame", text: "A", rows: 2, occurrences: 1 },
+  { mode: "flag", scope: "frame", text: "A", rows: 2, occurrences: 1 },
+  { mode: "count", scope: "frame", text: "A", rows: 2, occurrences: 1 },
+  { mode: "window", scope: "frame", text: "A", rows: 2, occurrences: 1 },
+  // Session scope: anything already listed is a repeat
+  { mode: "drop", scope: "session", text: "A", rows: 1, occurrences: 1 },
+  { mode: "flag", scope: "session", text: "A", rows: 2, flagged: true, occurrences: 2 },
+  { mode: "count", scope: "session", text: "A", rows: 1, occurrences: 2 },
+  { mode: "window", scope: "session", text: "A", rows: 1, occurrences: 1 },
+  { mode: "drop", scope: "session", text: "B", rows: 2, occurrences: 1 },
+  // History scope: earlier sessions count as well
+  { mode: "drop", scope: "history", text: "B", rows: 1, occurrences: 0 },
+  { mode: "flag", scope: "history", text: "B", rows: 2, flagged: true, occurrences: 2 },
+  { mode: "count", scope: "history", text: "B", rows: 2, flagged: true, occurrences: 2 },
+  { mode: "window", scope: "history", text: "B", rows: 2, flagged: true, occurrences: 2 },
+  { mode: "count", scope: "history", text: "A", rows: 1, occurrences: 2 },
+];
+
+cases.forEach(({ mode, scope, text, rows, flagged = false, occurrences }) => {
+  test(`${mode} / ${scope}: a read of ${text}`, () => {
+    const outcome = applyDuplicatePolicy(listed, [read(text, 30)], policy(mode, scope), history);
+    assert.equal(outcome.results.length, rows);
+    const newest = outcome.results.find((row) => row.text === text);
+    assert.equal(newest?.isDuplicate ?? false, flagged);
+    assert.equal(newest?.occurrences ?? 0, occurrences);
+    // Nothing new listed, or listed as a duplicate: either way the read was a repeat
+    assert.equal(outcome.repeats, flagged || rows === listed.length ? 1 : 0);
+  });
+});
+
+test("a code read twice in one delivery is a repeat in every scope", () => {
+  (["frame", "session", "history"] as const).forEach((scope) => {
+    const outcome = applyDuplicatePolicy([], [read("C", 0), read("C", 0)], policy("count", scope), history);
+    assert.equal(outcome.results.length, 1, scope);
+    assert.equal(outcome.results[0].occurrences, 2, scope);
+    assert.equal(outcome.repeats, 1, scope);
+  });
+});
+
+test("drop leaves the list untouched", () => {
+  const outcome = applyDuplicatePolicy(listed, [read("A", 30)], policy("drop", "session"));
+  assert.equal(outcome.results, listed);
+  assert.deepEqual(outcome.added, []);
+});
+
+test("window lists a code again once the window has passed since it was last listed", () => {
+  const windowed = policy("window", "session");
+  let results = listed;
+  const times = [30, 59, 60, 90, 121];
+  const listedAt = times.filter((seconds) => {
+    const outcome = applyDuplicatePolicy(results, [read("A", seconds)], windowed);
+    results = outcome.results;
+    return outcome.added.length > 0;
+  });
+  assert.deepEqual(listedAt, [60, 121]);
+  assert.equal(results.length, 3);
+});
+
+test("window measures history-only codes from their last sighting", () => {
+  const windowed = { ...policy("window", "history"), windowSeconds: 7200 };
+  assert.equal(applyDuplicatePolicy([], [read("B", 30)], windowed, history).added.length, 0);
+  assert.equal(applyDuplicatePolicy([], [read("B", 3601)], windowed, history).added.length, 1);
+});
+
+test("stored configs without a duplicate policy get the default one", () => {
+  const stored = JSON.stringify({ scanInterval: 100, enableDuplicateDetection: true });
+  const config = loadScannerConfig(stored);
+  assert.equal(config.scanInterval, 100);
+  assert.deepEqual(config.duplicatePolicy, DEFAULT_SCANNER_CONFIG.duplicatePolicy);
+  assert.equal("enableDuplicateDetection" in config, false);
+});
+
+test("duplicate detection switched off becomes the flag mode", () => {
+  const config = loadScannerConfig(JSON.stringify({ enableDuplicateDetection: false }));
+  assert.deepEqual(config.duplicatePolicy, { ...DEFAULT_SCANNER_CONFIG.duplicatePolicy, mode: "flag" });
+});
+
+test("a stored policy keeps its own fields and gains new ones", () => {
+  const stored = JSON.stringify({ enableDuplicateDetection: false, duplicatePolicy: { mode: "count", scope: "history" } });
+  assert.deepEqual(loadScannerConfig(stored).duplicatePolicy, { mode: "count", scope: "history", windowSeconds: 60 });
+});
+
+test("missing or unreadable configs fall back to the defaults", () => {
+  assert.equal(loadScannerConfig(null), DEFAULT_SCANNER_CONFIG);
+  assert.equal(loadScannerConfig("{not json"), DEFAULT_SCANNER_CONFIG);
+});
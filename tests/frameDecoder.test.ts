@@ -0,0 +1,44 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BASE_SCENE, renderScene } from "../src/benchmark/syntheticFrames";
+import type { SceneParams } from "../src/benchmark/syntheticFrames";
+import { decodeFrame } from "../src/utils/frameDecoder";
+import { SUPPORTED_FORMATS } from "../src/utils/formats";
+
+// A 2×2 sheet of codes: small enough to decode quickly, big enough to need the tiles
+const decodeScene = (changes: Partial<SceneParams>) => {
+  const frame = renderScene({ ...BASE_SCENE, count: 4, ...changes }, 7);
+  const imageData = { width: frame.width, height: frame.height, data: frame.data } as ImageData;
+  const texts = decodeFrame(imageData, { formats: SUPPORTED_FORMATS }).map((result) => result.text);
+  return { expected: [...frame.payloads].sort(), found: [...new Set(texts)].sort() };
+};
+
+test("every code on a sheet is found", () => {
+  const { expected, found } = decodeScene({});
+  assert.deepEqual(found, expected);
+});
+
+test("every light-on-dark code on a sheet is found", () => {
+  const { expected, found } = decodeScene({ invert: true });
+  assert.deepEqual(found, expected);
+});
+
+// Codes are only reported once ZXing has ruled out a Structured Append part, so these
+// would go missing if it couldn't read what jsQR did
+test("blurred, rotated and small codes on a sheet are all found", () => {
+  for (const changes of [{ blur: 2 }, { rotation: 45 }, { moduleSize: 3 }]) {
+    const { expected, found } = decodeScene(changes);
+    assert.deepEqual(found, expected, JSON.stringify(changes));
+  }
+});
+
+test("every barcode on a sheet is found", () => {
+  const { expected, found } = decodeScene({ format: "EAN_13", moduleSize: 2 });
+  assert.deepEqual(found, expected);
+});
+
+test("a single-scan frame stops at the first code", () => {
+  const frame = renderScene({ ...BASE_SCENE, count: 4 }, 7);
+  const imageData = { width: frame.width, height: frame.height, data: frame.data } as ImageData;
+  assert.ok(decodeFrame(imageData, { formats: ["QR_CODE"], multiScan: false }).length <= 1);
+});
@@ -0,0 +1,25 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseGs1 } from "../src/utils/gs1Parser";
+
+test("Digital Link primary key and qualifiers", () => {
+  const data = parseGs1("https://id.gs1.org/01/9506000134352/10/ABC?17=201225");
+  assert.ok(data);
+  assert.equal(data.digitalLink, true);
+  assert.equal(data.gtin, "09506000134352");
+  assert.equal(data.gtinValid, true);
+  assert.equal(data.batch, "ABC");
+  assert.equal(data.expiry, "2020-12-25");
+});
+
+test("Digital Link after a resolver path prefix", () => {
+  const data = parseGs1("https://example.com/products/00/106141411234567897");
+  assert.equal(data?.elements[0].ai, "00");
+});
+
+test("ordinary URLs with key-like path segments are not Digital Links", () => {
+  assert.equal(parseGs1("https://news.example.com/2024/01/15/story"), null);
+  assert.equal(parseGs1("https://example.com/00/123"), null);
+  assert.equal(parseGs1("https://example.com/414/12345"), null);
+  assert.equal(parseGs1("https://example.com/01/abcdefghijklm"), null);
+});
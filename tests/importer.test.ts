@@ -0,0 +1,116 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { EXPORT_COLUMNS, EXPORT_FORMATS, exportResults } from "../src/utils/exporter";
+import { parseDelimited, parseImportFile } from "../src/utils/importer";
+import type { ScanResult } from "../src/types";
+
+const results: ScanResult[] = [
+  {
+    id: "r1",
+    text: 'Says "hi", then\r\nleaves\ta tab',
+    format: "QR_CODE",
+    timestamp: new Date("2024-05-01T10:00:00.000Z"),
+    confidence: 0.9,
+    source: "camera",
+    isDuplicate: false,
+    occurrences: 3,
+    lastSeen: new Date("2024-05-01T10:05:00.000Z"),
+    boundingBox: {
+      x: 10,
+      y: 20,
+      width: 30,
+      height: 40,
+      corners: [
+        { x: 10, y: 20 },
+        { x: 40, y: 20 },
+        { x: 40, y: 60 },
+        { x: 10, y: 60 },
+      ],
+    },
+  },
+  {
+    id: "r2",
+    text: "(01)09506000134352(10)ABC",
+    format: "CODE_128",
+    timestamp: new Date("2024-05-01T10:01:00.000Z"),
+    confidence: 1,
+    source: "image",
+    sourceName: "shelf, aisle 3.jpg",
+    isDuplicate: true,
+    occurrences: 1,
+    lastSeen: new Date("2024-05-01T10:01:00.000Z"),
+  },
+];
+
+// What survives an export: every field that is set, except the derived ones, which are
+// recomputed on import
+const comparable = (result: ScanResult) =>
+  Object.fromEntries(Object.entries(result).filter(([key, value]) => key !== "gs1" && value !== undefined));
+
+const allColumns = EXPORT_COLUMNS.map((column) => column.key);
+
+EXPORT_FORMATS.forEach(({ value: format, extension }) => {
+  test(`a ${format.toUpperCase()} export imports back to the same results`, () => {
+    const text = exportResults(results, { format, columns: allColumns, session: null });
+    const imported = parseImportFile(text, `export.${extension}`);
+    assert.deepEqual(imported.rejected, []);
+    assert.deepEqual(imported.results.map(comparable), results.map(comparable));
+  });
+});
+
+test("CSV fields with delimiters, quotes and line breaks are quoted", () => {
+  const text = exportResults(results, { format: "csv", columns: ["text", "source_name"], session: null });
+  const lines = text.split("\r\n");
+  assert.equal(lines[0], "text,source_name");
+  assert.equal(lines[1], '"Says ""hi"", then');
+  assert.equal(lines[2], 'leaves\ta tab",');
+  assert.equal(lines[3], '(01)09506000134352(10)ABC,"shelf, aisle 3.jpg"');
+  assert.deepEqual(parseDelimited(text, ","), [
+    ["text", "source_name"],
+    [results[0].text, ""],
+    [results[1].text, results[1].sourceName],
+  ]);
+});
+
+test("bad rows are rejected with their row number and the rest are imported", () => {
+  const text = [
+    "text,format,timestamp,confidence,source,occurrences",
+    "good,QR_CODE,2024-05-01T10:00:00Z,0.5,camera,2",
+    ",QR_CODE,2024-05-01T10:00:00Z,,,",
+    "no-format,,2024-05-01T10:00:00Z,,,",
+    "bad-time,QR_CODE,yesterday,,,",
+    "too-sure,QR_CODE,2024-05-01T10:00:00Z,1.5,,",
+    "where,QR_CODE,2024-05-01T10:00:00Z,,scanner,",
+    "how-often,QR_CODE,2024-05-01T10:00:00Z,,,0",
+  ].join("\n");
+  const { results: imported, rejected } = parseImportFile(text, "scans.csv");
+  assert.deepEqual(
+    imported.map((result) => result.text),
+    ["good"]
+  );
+  assert.deepEqual(rejected, [
+    { row: 2, reason: "missing text" },
+    { row: 3, reason: "missing format" },
+    { row: 4, reason: "missing or invalid timestamp" },
+    { row: 5, reason: "confidence must be between 0 and 1" },
+    { row: 6, reason: 'unknown source "scanner"' },
+    { row: 7, reason: "occurrences must be a whole number of at least 1" },
+  ]);
+});
+
+test("unreadable NDJSON lines are rejected without losing the others", () => {
+  const text = ['{"text":"a","format":"QR_CODE","timestamp":"2024-05-01T10:00:00Z"}', "{oops", "[1]"].join("\n");
+  const { results: imported, rejected } = parseImportFile(text, "scans.ndjson");
+  assert.deepEqual(
+    imported.map((result) => result.text),
+    ["a"]
+  );
+  assert.deepEqual(rejected, [
+    { row: 2, reason: "not an object" },
+    { row: 3, reason: "not an object" },
+  ]);
+});
+
+test("a JSON file that isn't a list can't be imported", () => {
+  assert.throws(() => parseImportFile('{"text":"a"}', "scans.json"), /JSON array/);
+});
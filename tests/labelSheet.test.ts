@@ -0,0 +1,41 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { MAX_LABELS, expandNumberRange } from "../src/utils/labelSheet";
+import { escapeHtml } from "../src/utils/qrGenerator";
+
+const payloads = (spec: string) => expandNumberRange(spec).map((item) => item.payload);
+
+test("a range expands to every number in it, keeping the text around it", () => {
+  assert.deepEqual(payloads("BIN-8..BIN-11"), ["BIN-8", "BIN-9", "BIN-10", "BIN-11"]);
+  assert.deepEqual(payloads(" A1-X..A3-X "), ["A1-X", "A2-X", "A3-X"]);
+  assert.deepEqual(payloads("5..5"), ["5"]);
+});
+
+test("numbers keep the width they were written with", () => {
+  assert.deepEqual(payloads("BIN-0098..BIN-0101"), ["BIN-0098", "BIN-0099", "BIN-0100", "BIN-0101"]);
+  assert.deepEqual(payloads("07..9"), ["07", "08", "09"]);
+  // Padding only ever adds zeros; wider numbers are written in full
+  assert.deepEqual(payloads("9..0010"), ["9", "10"]);
+});
+
+test("a reversed range is refused", () => {
+  assert.throws(() => expandNumberRange("BIN-0010..BIN-0001"), /ends before it starts/);
+});
+
+test("a range larger than a print run is refused", () => {
+  assert.equal(payloads(`1..${MAX_LABELS}`).length, MAX_LABELS);
+  assert.throws(() => expandNumberRange(`1..${MAX_LABELS + 1}`), new RegExp(`at most ${MAX_LABELS}`));
+  assert.throws(() => expandNumberRange("0..99999999999999999999"), /at most/);
+});
+
+test("ranges that aren't first..last with matching text are refused", () => {
+  assert.throws(() => expandNumberRange("BIN-0001"), /first\.\.last/);
+  assert.throws(() => expandNumberRange("BIN..SHELF"), /first\.\.last/);
+  assert.throws(() => expandNumberRange("BIN-1..SHELF-9"), /same text/);
+  assert.throws(() => expandNumberRange("1A..9B"), /same text/);
+});
+
+test("text written into generated pages is escaped", () => {
+  assert.equal(escapeHtml(`<a href="x">Tom & 'Jerry'</a>`), "&#60;a href=&#34;x&#34;&#62;Tom &#38; &#39;Jerry&#39;&#60;/a&#62;");
+  assert.equal(escapeHtml("BIN-0001"), "BIN-0001");
+});
@@ -0,0 +1,114 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import {
+  DEFAULT_LINK_POLICY,
+  getRegistrableDomain,
+  inspectLink,
+  normalizeDomainEntry,
+  toUnicodeHost,
+} from "../src/utils/linkInspector";
+import type { LinkPolicy } from "../src/types";
+
+const policy = (changes: Partial<LinkPolicy> = {}): LinkPolicy => ({ ...DEFAULT_LINK_POLICY, ...changes });
+
+const levels = (url: string, changes?: Partial<LinkPolicy>) =>
+  inspectLink(url, policy(changes)).warnings.map((warning) => warning.level);
+
+test("punycode hosts are shown the way they look", () => {
+  assert.equal(toUnicodeHost("xn--pple-43d.com"), "аpple.com");
+  assert.equal(toUnicodeHost("xn--e1afmkfd.xn--p1ai"), "пример.рф");
+  assert.equal(toUnicodeHost("www.example.com"), "www.example.com");
+  assert.equal(toUnicodeHost("xn--!!.example"), "xn--!!.example");
+});
+
+test("a Cyrillic letter among Latin ones is a homograph", () => {
+  const inspection = inspectLink("https://xn--pple-43d.com/login", DEFAULT_LINK_POLICY);
+  assert.equal(inspection.host, "xn--pple-43d.com");
+  assert.equal(inspection.unicodeHost, "аpple.com");
+  assert.equal(inspection.verdict, "review");
+  assert.equal(inspection.warnings[0].level, "danger");
+  assert.match(inspection.warnings[0].message, /imitate Latin letters/);
+});
+
+test("a label made only of Latin lookalikes is a homograph", () => {
+  assert.deepEqual(levels("https://xn--80ak6aa92e.com/"), ["danger"]);
+});
+
+test("a genuinely international domain only gets a caution", () => {
+  assert.deepEqual(levels("https://xn--e1afmkfd.xn--p1ai/"), ["caution"]);
+  assert.deepEqual(levels("https://xn--bcher-kva.example/"), ["caution"]);
+});
+
+test("script and data schemes are blocked before anything else", () => {
+  ["javascript:alert(1)", "JavaScript:alert(1)", "data:text/html,<b>x</b>", "vbscript:msgbox", "file:///etc/passwd"].forEach(
+    (url) => {
+      const inspection = inspectLink(url, policy({ allowList: ["example.com"] }));
+      assert.equal(inspection.verdict, "blocked", url);
+      assert.equal(inspection.href, null, url);
+    }
+  );
+});
+
+test("other non-web schemes and invalid links are blocked", () => {
+  const ftp = inspectLink("ftp://example.com/file", DEFAULT_LINK_POLICY);
+  assert.equal(ftp.verdict, "blocked");
+  assert.equal(ftp.scheme, "ftp");
+  assert.equal(inspectLink("https://", DEFAULT_LINK_POLICY).verdict, "blocked");
+});
+
+test("credentials, IP addresses, shorteners, plain HTTP and odd ports are flagged", () => {
+  assert.deepEqual(levels("https://bank.example@evil.example/"), ["danger"]);
+  assert.deepEqual(levels("https://192.168.0.1/"), ["caution"]);
+  assert.deepEqual(levels("https://bit.ly/abc"), ["caution"]);
+  assert.deepEqual(levels("http://example.com/"), ["caution"]);
+  assert.deepEqual(levels("https://example.com:8443/"), ["caution"]);
+});
+
+test("list entries match the domain and its subdomains only", () => {
+  const allow = policy({ allowList: ["*.example.com"] });
+  assert.equal(inspectLink("https://example.com/", allow).listMatch, "allow");
+  assert.equal(inspectLink("https://shop.example.com/", allow).listMatch, "allow");
+  assert.equal(inspectLink("https://notexample.com/", allow).listMatch, null);
+  assert.equal(inspectLink("https://example.com.evil.example/", allow).listMatch, null);
+});
+
+test("list entries may be URLs or Unicode domains", () => {
+  assert.equal(normalizeDomainEntry("https://Example.com/path"), "example.com");
+  assert.equal(normalizeDomainEntry(" .example.com "), "example.com");
+  assert.equal(normalizeDomainEntry("bücher.example"), "xn--bcher-kva.example");
+  assert.equal(normalizeDomainEntry("   "), null);
+
+  const allow = policy({ allowList: ["bücher.example"] });
+  assert.equal(inspectLink("https://xn--bcher-kva.example/", allow).listMatch, "allow");
+});
+
+test("an allowed link with nothing to warn about may open without review", () => {
+  const allow = policy({ allowList: ["example.com"] });
+  assert.equal(inspectLink("https://example.com/", allow).verdict, "allowed");
+  // Allowed, but still over plain HTTP
+  assert.equal(inspectLink("http://example.com/", allow).verdict, "review");
+});
+
+test("the deny list wins over the allow list", () => {
+  const inspection = inspectLink(
+    "https://login.example.com/",
+    policy({ allowList: ["example.com"], denyList: ["login.example.com"] })
+  );
+  assert.equal(inspection.listMatch, "deny");
+  assert.equal(inspection.verdict, "blocked");
+  assert.equal(inspection.href, null);
+});
+
+test("unlisted links are blocked only when the policy says so", () => {
+  assert.equal(inspectLink("https://example.org/", policy()).verdict, "review");
+  const strict = inspectLink("https://example.org/", policy({ blockUnlisted: true }));
+  assert.equal(strict.verdict, "blocked");
+  assert.match(strict.warnings[0].message, /not on the allow list/);
+});
+
+test("registrable domains know the common multi-label suffixes", () => {
+  assert.equal(getRegistrableDomain("shop.example.co.uk"), "example.co.uk");
+  assert.equal(getRegistrableDomain("a.b.example.com"), "example.com");
+  assert.equal(getRegistrableDomain("me.github.io"), "me.github.io");
+  assert.equal(getRegistrableDomain("10.0.0.1"), "10.0.0.1");
+});
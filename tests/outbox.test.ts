@@ -0,0 +1,177 @@
+import "fake-indexeddb/auto";
+import assert from "node:assert/strict";
+import { spawn } from "node:child_process";
+import type { ChildProcess } from "node:child_process";
+import path from "node:path";
+import { after, test } from "node:test";
+import {
+  DEFAULT_SYNC_CONFIG,
+  createScanEntry,
+  enqueueOutbox,
+  flushOutbox,
+  listOutbox,
+  requestOutboxSync,
+  retryFailedOutbox,
+} from "../src/utils/outbox";
+import type { OutboxEntry, ScanResult } from "../src/types";
+
+// The outbox against scripts/mock-ingest-server.cjs, one server per scenario. IndexedDB
+// comes from fake-indexeddb; fetch and BroadcastChannel are Node's own.
+
+interface MockServer {
+  endpoint: string;
+  received: () => Promise<{ body: string }[]>;
+}
+
+const servers: ChildProcess[] = [];
+
+const startMockServer = (...args: string[]): Promise<MockServer> =>
+  new Promise((resolve, reject) => {
+    const child = spawn(
+      process.execPath,
+      [path.resolve("scripts/mock-ingest-server.cjs"), "--port", "0", ...args],
+      { stdio: ["ignore", "pipe", "inherit"] }
+    );
+    servers.push(child);
+    child.once("error", reject);
+    child.stdout?.setEncoding("utf8");
+    child.stdout?.once("data", (line: string) => {
+      const endpoint = /http:\/\/\S+\/ingest/.exec(line)?.[0];
+      if (!endpoint) {
+        reject(new Error(`Unexpected mock server output: ${line}`));
+        return;
+      }
+      // Keep reading, so the server's request log never fills the pipe
+      child.stdout?.resume();
+      resolve({
+        endpoint,
+        received: async () =>
+          (await fetch(endpoint.replace(/\/ingest$/, "/received"))).json() as Promise<{ body: string }[]>,
+      });
+    });
+  });
+
+after(() => {
+  servers.forEach((child) => child.kill());
+});
+
+let scanCount = 0;
+
+// Queue one scan for the endpoint and return its id
+const enqueueScan = async (endpoint: string): Promise<string> => {
+  scanCount++;
+  const result: ScanResult = {
+    id: `scan-${scanCount}`,
+    text: `CODE-${scanCount}`,
+    format: "QR_CODE",
+    timestamp: new Date(),
+    source: "camera",
+  };
+  const entry = createScanEntry(result, null, { ...DEFAULT_SYNC_CONFIG, enabled: true, endpoint });
+  await enqueueOutbox([entry]);
+  return entry.id;
+};
+
+const getEntry = async (id: string): Promise<OutboxEntry> => {
+  const entry = (await listOutbox()).find((candidate) => candidate.id === id);
+  assert.ok(entry, `outbox entry ${id}`);
+  return entry;
+};
+
+const setOnline = (onLine: boolean) => {
+  Object.defineProperty(globalThis, "navigator", { value: { onLine }, configurable: true });
+};
+
+test("a queued scan is sent once the device is back online", async () => {
+  const server = await startMockServer();
+  const id = await enqueueScan(server.endpoint);
+
+  setOnline(false);
+  await requestOutboxSync();
+  assert.equal((await getEntry(id)).status, "pending");
+  assert.equal((await server.received()).length, 0);
+
+  setOnline(true);
+  await requestOutboxSync();
+  const entry = await getEntry(id);
+  assert.equal(entry.status, "synced");
+  assert.equal(entry.attempts, 1);
+  assert.ok(entry.syncedAt);
+
+  const received = await server.received();
+  assert.equal(received.length, 1);
+  assert.equal(JSON.parse(received[0].body).code, `CODE-${scanCount}`);
+});
+
+test("a 5xx response is retried after a backoff and then delivered", async () => {
+  const server = await startMockServer("--fail-first", "1", "--status", "503");
+  const id = await enqueueScan(server.endpoint);
+
+  const before = Date.now();
+  const nextDue = await flushOutbox();
+  let entry = await getEntry(id);
+  assert.equal(entry.status, "pending");
+  assert.equal(entry.attempts, 1);
+  assert.equal(entry.lastError, "HTTP 503");
+  assert.ok(entry.nextAttemptAt >= before + 5000, "first retry waits at least 5 s");
+  assert.equal(nextDue, entry.nextAttemptAt);
+
+  // Still backing off: nothing is sent
+  await flushOutbox();
+  assert.equal((await getEntry(id)).attempts, 1);
+
+  await flushOutbox({ ignoreBackoff: true });
+  entry = await getEntry(id);
+  assert.equal(entry.status, "synced");
+  assert.equal(entry.attempts, 2);
+  assert.equal((await server.received()).length, 1);
+});
+
+test("the retry delay doubles with each failed attempt", async () => {
+  const server = await startMockServer("--fail-first", "2", "--status", "500");
+  const id = await enqueueScan(server.endpoint);
+
+  let sentAt = Date.now();
+  await flushOutbox({ ignoreBackoff: true });
+  const firstDelay = (await getEntry(id)).nextAttemptAt - sentAt;
+  sentAt = Date.now();
+  await flushOutbox({ ignoreBackoff: true });
+  const secondDelay = (await getEntry(id)).nextAttemptAt - sentAt;
+  assert.ok(secondDelay >= firstDelay * 2 - 100, `${secondDelay} ms after ${firstDelay} ms`);
+
+  await flushOutbox({ ignoreBackoff: true });
+  assert.equal((await getEntry(id)).status, "synced");
+});
+
+test("a 4xx response fails the entry without retrying", async () => {
+  const server = await startMockServer("--fail-first", "1", "--status", "400");
+  const id = await enqueueScan(server.endpoint);
+
+  const nextDue = await flushOutbox({ ignoreBackoff: true });
+  const entry = await getEntry(id);
+  assert.equal(entry.status, "failed");
+  assert.equal(entry.attempts, 1);
+  assert.equal(entry.lastError, "HTTP 400");
+  assert.equal(nextDue, null);
+
+  // Retrying by hand queues it again, and the server accepts it this time
+  await retryFailedOutbox();
+  await flushOutbox();
+  assert.equal((await getEntry(id)).status, "synced");
+  assert.equal((await server.received()).length, 1);
+});
+
+test("an entry fails once it runs out of attempts", async () => {
+  const server = await startMockServer("--fail-first", "100", "--status", "503");
+  const id = await enqueueScan(server.endpoint);
+
+  for (let attempt = 1; attempt <= 10; attempt++) {
+    assert.equal((await getEntry(id)).status, "pending", `before attempt ${attempt}`);
+    await flushOutbox({ ignoreBackoff: true });
+  }
+  const entry = await getEntry(id);
+  assert.equal(entry.status, "failed");
+  assert.equal(entry.attempts, 10);
+  assert.equal(entry.lastError, "HTTP 503");
+  assert.equal((await server.received()).length, 0);
+});
@@ -0,0 +1,132 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parsePayload } from "../src/utils/payloadParser";
+
+// Raw code text and the fields it should parse to; fields left out aren't checked
+const cases: { name: string; text: string; expected: Record<string, unknown> }[] = [
+  // Wi-Fi
+  {
+    name: "Wi-Fi network",
+    text: "WIFI:T:WPA;S:Home Net;P:secret;H:true;;",
+    expected: { type: "wifi", ssid: "Home Net", security: "WPA", password: "secret", hidden: true },
+  },
+  {
+    name: "Wi-Fi with escaped separators, in any field order",
+    text: 'WIFI:P:a\\;b\\:c\\\\d;S:Caf\\"e\\,1;;',
+    expected: { type: "wifi", ssid: 'Caf"e,1', security: "nopass", password: "a;b:c\\d", hidden: false },
+  },
+  { name: "Wi-Fi without an SSID", text: "WIFI:T:WPA;P:secret;;", expected: { type: "text" } },
+
+  // vCard
+  {
+    name: "vCard",
+    text: [
+      "BEGIN:VCARD",
+      "VERSION:3.0",
+      "N:Doe;Jane;;;",
+      "FN:Jane Doe",
+      "ORG:Acme\\, Inc.;Sales",
+      "item1.TEL;TYPE=CELL:+1 555 0100",
+      "EMAIL:jane@example.com",
+      "ADR:;;1 Main St;Springfield;;12345;",
+      "NOTE:First line\\nsecond",
+      "END:VCARD",
+    ].join("\n"),
+    expected: {
+      type: "contact",
+      format: "vcard",
+      name: "Jane Doe",
+      organization: "Acme, Inc., Sales",
+      phones: ["+1 555 0100"],
+      emails: ["jane@example.com"],
+      address: "1 Main St, Springfield, 12345",
+      note: "First line\nsecond",
+    },
+  },
+  {
+    name: "vCard without FN, with a folded line",
+    text: "BEGIN:VCARD\r\nN:Doe;John;Q;;\r\nEMAIL:john@exam\r\n ple.com\r\nEND:VCARD",
+    expected: { type: "contact", name: "John Q Doe", emails: ["john@example.com"] },
+  },
+  { name: "vCard with nothing to contact", text: "BEGIN:VCARD\nVERSION:3.0\nEND:VCARD", expected: { type: "text" } },
+
+  // MECARD
+  {
+    name: "MECARD",
+    text: "MECARD:N:Doe,Jane;TEL:+15550100;TEL:+15550101;EMAIL:jane@example.com;ADR:,,1 Main St,Springfield;;",
+    expected: {
+      type: "contact",
+      format: "mecard",
+      name: "Jane Doe",
+      phones: ["+15550100", "+15550101"],
+      emails: ["jane@example.com"],
+      address: "1 Main St, Springfield",
+    },
+  },
+
+  // Geo
+  {
+    name: "geo with altitude and query",
+    text: "geo:48.2010,16.3695,183?q=Vienna%20Opera",
+    expected: { type: "geo", latitude: 48.201, longitude: 16.3695, altitude: 183, query: "Vienna Opera" },
+  },
+  { name: "geo with negative coordinates", text: "GEO:-33.8568,151.2153", expected: { type: "geo", latitude: -33.8568, longitude: 151.2153 } },
+  { name: "geo out of range", text: "geo:91,0", expected: { type: "text" } },
+
+  // E-mail
+  {
+    name: "mailto with subject and body",
+    text: "mailto:orders@example.com?subject=Order%20%2342&body=1+box",
+    expected: { type: "email", to: "orders@example.com", subject: "Order #42", body: "1+box" },
+  },
+  { name: "mailto without an address", text: "mailto:?subject=Hi", expected: { type: "text" } },
+  {
+    name: "MATMSG",
+    text: "MATMSG:TO:orders@example.com;SUB:Order;BODY:Two boxes;;",
+    expected: { type: "email", to: "orders@example.com", subject: "Order", body: "Two boxes" },
+  },
+
+  // Phone and SMS
+  { name: "tel", text: "tel:+1-555-0100", expected: { type: "phone", number: "+1-555-0100" } },
+  {
+    name: "sms with a body",
+    text: "sms:+15550100?body=Running%20late",
+    expected: { type: "sms", number: "+15550100", message: "Running late" },
+  },
+  {
+    name: "SMSTO with colons in the message",
+    text: "SMSTO:+15550100:Meet at 10:30",
+    expected: { type: "sms", number: "+15550100", message: "Meet at 10:30" },
+  },
+  { name: "sms without a number", text: "sms:?body=Hi", expected: { type: "text" } },
+
+  // URLs
+  { name: "https URL", text: " https://example.com/a?b=c ", expected: { type: "url", url: "https://example.com/a?b=c" } },
+  { name: "http URL in capitals", text: "HTTP://EXAMPLE.COM", expected: { type: "url", url: "HTTP://EXAMPLE.COM" } },
+  { name: "javascript link", text: "javascript:alert(1)", expected: { type: "url", url: "javascript:alert(1)" } },
+  { name: "data link", text: "data:text/html,<b>hi</b>", expected: { type: "url" } },
+  { name: "URL with spaces", text: "https://example.com/a b", expected: { type: "text" } },
+  { name: "bare domain", text: "example.com", expected: { type: "text" } },
+
+  // Plain text
+  { name: "plain text", text: "Hello, world", expected: { type: "text" } },
+];
+
+cases.forEach(({ name, text, expected }) => {
+  test(name, () => {
+    const parsed = parsePayload(text) as Record<string, unknown>;
+    const checked = Object.fromEntries(Object.keys(expected).map((key) => [key, parsed[key]]));
+    assert.deepEqual(checked, expected);
+  });
+});
+
+test("contacts come with a vCard to save", () => {
+  const parsed = parsePayload("MECARD:N:Doe,Jane;TEL:+15550100;NOTE:Likes\\; semicolons;;");
+  assert.equal(parsed.type, "contact");
+  if (parsed.type !== "contact") return;
+  assert.match(parsed.vcard, /^BEGIN:VCARD\r\n/);
+  assert.match(parsed.vcard, /\r\nN:Doe;Jane;;;\r\n/);
+  assert.match(parsed.vcard, /\r\nTEL:\+15550100\r\n/);
+  assert.match(parsed.vcard, /\r\nNOTE:Likes\\; semicolons\r\n/);
+  assert.match(parsed.vcard, /END:VCARD\r\n$/);
+});
@@ -0,0 +1,85 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { parseGs1 } from "../src/utils/gs1Parser";
+import { parseDelimited } from "../src/utils/importer";
+import { formatReconciliationCsv, parseExpectedList, reconcile } from "../src/utils/reconciliation";
+import type { ScanResult } from "../src/types";
+
+const scan = (text: string, format = "QR_CODE"): ScanResult => ({
+  id: text,
+  text,
+  format,
+  timestamp: new Date("2024-05-01T10:00:00.000Z"),
+  source: "camera",
+  gs1: parseGs1(text, format) ?? undefined,
+});
+
+test("a manifest can be one code per line, with optional labels", () => {
+  assert.deepEqual(parseExpectedList("A1\n\nB2\r\nA1\n"), [
+    { code: "A1", label: undefined },
+    { code: "B2", label: undefined },
+  ]);
+  assert.deepEqual(parseExpectedList("A1, First box\nB2"), [
+    { code: "A1", label: "First box" },
+    { code: "B2", label: undefined },
+  ]);
+});
+
+test("a CSV or TSV manifest finds its code and label columns by header", () => {
+  const csv = 'qty,Name,Barcode\n2,"Box, large",A1\n1,"Say ""hi""",B2';
+  assert.deepEqual(parseExpectedList(csv), [
+    { code: "A1", label: "Box, large" },
+    { code: "B2", label: 'Say "hi"' },
+  ]);
+  assert.deepEqual(parseExpectedList("sscc\tdescription\n00123\tPallet 1, left"), [
+    { code: "00123", label: "Pallet 1, left" },
+  ]);
+});
+
+test("a JSON manifest can list codes or records", () => {
+  assert.deepEqual(parseExpectedList('["A1", 42]'), [{ code: "A1" }, { code: "42" }]);
+  assert.deepEqual(parseExpectedList('{"items": [{"gtin": "09506000134352", "title": "Tea"}, {"other": 1}]}'), [
+    { code: "09506000134352", label: "Tea" },
+  ]);
+  assert.throws(() => parseExpectedList('{"codes": []}'), /JSON array/);
+});
+
+test("scans are sorted into matched, missing and unexpected", () => {
+  const items = parseExpectedList("A1\nB2\nC3");
+  const result = reconcile(items, [scan("A1"), scan("Z9"), scan("C3"), scan("A1")]);
+  assert.deepEqual(
+    result.matched.map(({ item }) => item.code),
+    ["A1", "C3"]
+  );
+  assert.deepEqual(
+    result.missing.map((item) => item.code),
+    ["B2"]
+  );
+  assert.deepEqual(
+    result.unexpected.map((scanned) => scanned.text),
+    ["Z9"]
+  );
+});
+
+test("GS1 codes match on their element string, GTIN or SSCC", () => {
+  const items = parseExpectedList("09506000134352\n(01)09506000134352(10)ABC\n095060001343520001");
+  const result = reconcile(items, [
+    scan("]C10109506000134352\u001d10ABC", "CODE_128"),
+    scan("]C100095060001343520001", "CODE_128"),
+  ]);
+  assert.equal(result.matched.length, 3);
+  assert.equal(result.missing.length, 0);
+  assert.equal(result.unexpected.length, 0);
+});
+
+test("the report has a row per item and per unexpected scan, quoted like an export", () => {
+  const items = [{ code: "A1", label: "Box, large" }, { code: "B2" }];
+  const csv = formatReconciliationCsv(reconcile(items, [scan("A1"), scan('Say "hi"')]));
+  assert.deepEqual(parseDelimited(csv, ","), [
+    ["status", "code", "label", "scanned_text", "scanned_at"],
+    ["matched", "A1", "Box, large", "A1", "2024-05-01T10:00:00.000Z"],
+    ["missing", "B2", "", "", ""],
+    ["unexpected", "", "", 'Say "hi"', "2024-05-01T10:00:00.000Z"],
+  ]);
+  assert.match(csv, /^status,code,label,scanned_text,scanned_at\r\nmatched,A1,"Box, large",/);
+});
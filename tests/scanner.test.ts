@@ -0,0 +1,156 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { BASE_SCENE, renderScene } from "../src/benchmark/syntheticFrames";
+import type { SyntheticFrame } from "../src/benchmark/syntheticFrames";
+import { ScannerEngine, scanImageData } from "../src/scanner";
+import type { FrameDecoder } from "../src/scanner";
+import { decodeFrameWithStats } from "../src/utils/frameDecoder";
+import { DEFAULT_SCANNER_CONFIG } from "../src/utils/scannerConfig";
+import type { DecodeOptions, ScanResult, ScannerConfig } from "../src/types";
+
+// Headless, like the benchmark: synthetic frames stand in for the camera, and the only
+// browser APIs photos need (createImageBitmap and a 2D canvas) hand their pixels through.
+
+const sheet = renderScene({ ...BASE_SCENE, count: 4 }, 7);
+const single = renderScene({ ...BASE_SCENE, count: 1 }, 8);
+
+const photos = new WeakMap<Blob, SyntheticFrame>();
+const photoOf = (frame: SyntheticFrame): Blob => {
+  const blob = new Blob(["photo"]);
+  photos.set(blob, frame);
+  return blob;
+};
+
+Object.assign(globalThis, {
+  createImageBitmap: async (blob: Blob) => {
+    const frame = photos.get(blob) as SyntheticFrame;
+    return { width: frame.width, height: frame.height, frame, close: () => {} };
+  },
+  document: {
+    createElement: () => {
+      let drawn: SyntheticFrame | null = null;
+      return {
+        width: 0,
+        height: 0,
+        getContext: () => ({
+          drawImage: (bitmap: { frame: SyntheticFrame }) => {
+            drawn = bitmap.frame;
+          },
+          getImageData: () => ({ ...(drawn as SyntheticFrame) }),
+        }),
+      };
+    },
+  },
+});
+
+// Decodes on the calling thread, remembering the options it was given
+const createDecoder = () => {
+  const calls: DecodeOptions[] = [];
+  const decoder: FrameDecoder = {
+    decode: async (frame, options) => {
+      calls.push(options);
+      return decodeFrameWithStats(frame as ImageData, options);
+    },
+    isBusy: false,
+    skipFrame: () => {},
+    terminate: () => {},
+  };
+  return { decoder, calls };
+};
+
+const texts = (results: { text: string }[]) => results.map((result) => result.text).sort();
+
+const startEngine = (config: Partial<ScannerConfig> = {}, options: { maxCodes?: number; stopWhenMatched?: string[] } = {}) => {
+  const { decoder, calls } = createDecoder();
+  const engine = new ScannerEngine({ decoder });
+  const delivered: ScanResult[][] = [];
+  const newCodes: ScanResult[][] = [];
+  let stopped = 0;
+  engine.on("results", (results) => delivered.push(results));
+  engine.on("codes", (codes) => newCodes.push(codes));
+  engine.on("stop", () => stopped++);
+  engine.start({}, { config: { ...DEFAULT_SCANNER_CONFIG, ...config }, formats: ["QR_CODE"], ...options });
+  return { engine, calls, delivered, newCodes, stopped: () => stopped };
+};
+
+test("scanImageData finds every code in an image", () => {
+  const codes = scanImageData(sheet);
+  assert.deepEqual(texts(codes), [...sheet.payloads].sort());
+  codes.forEach((code) => {
+    assert.equal(code.format, "QR_CODE");
+    assert.ok(code.boundingBox && code.boundingBox.width > 0);
+  });
+});
+
+test("scanImageData honours maxCodes, multiScan and the format list", () => {
+  assert.equal(scanImageData(sheet, { maxCodes: 2 }).length, 2);
+  assert.ok(scanImageData(sheet, { multiScan: false }).length <= 1);
+  assert.deepEqual(scanImageData(single, { multiScan: false }).map((code) => code.text), single.payloads);
+  assert.deepEqual(scanImageData(sheet, { formats: ["EAN_13"] }), []);
+});
+
+test("scanImageData leaves the pixels alone", () => {
+  const before = sheet.data.slice();
+  scanImageData(sheet);
+  assert.deepEqual(sheet.data, before);
+});
+
+test("continuous mode reports each code once per sighting and keeps going", async () => {
+  const { engine, calls, delivered, newCodes } = startEngine({ maxCodesPerFrame: 8 });
+  assert.deepEqual(texts(await engine.scanPhoto(photoOf(sheet))), [...sheet.payloads].sort());
+  await engine.scanPhoto(photoOf(sheet));
+
+  assert.equal(engine.isRunning, true);
+  assert.equal(engine.scannedCount, 4);
+  assert.equal(newCodes.length, 1);
+  // The second photo follows right on the first, so its codes are still in view
+  assert.equal(delivered.length, 1);
+  assert.deepEqual(calls[0], { formats: ["QR_CODE"], maxCodes: 8, multiScan: true });
+  engine.dispose();
+});
+
+test("single-shot mode stops after the first photo with a code", async () => {
+  const { engine, delivered, stopped } = startEngine({ scanMode: "single-shot" });
+  await engine.scanPhoto(photoOf(single));
+  assert.equal(engine.isRunning, false);
+  assert.equal(stopped(), 1);
+  assert.deepEqual(delivered.map(texts), [single.payloads]);
+  assert.deepEqual(await engine.scanPhoto(photoOf(sheet)), []);
+});
+
+test("burst mode holds results back until its frames are read", async () => {
+  const { engine, delivered } = startEngine({ scanMode: "burst", burstFrameCount: 2 });
+  await engine.scanPhoto(photoOf(single));
+  assert.equal(engine.isRunning, true);
+  assert.equal(delivered.length, 0);
+
+  await engine.scanPhoto(photoOf(sheet));
+  assert.equal(engine.isRunning, false);
+  assert.deepEqual(delivered.map(texts), [[...new Set([...single.payloads, ...sheet.payloads])].sort()]);
+});
+
+test("maxCodes stops the session and rejects codes beyond it", async () => {
+  const { engine, newCodes } = startEngine({}, { maxCodes: 3 });
+  const states: string[][] = [];
+  engine.on("frame", (frame) => states.push([...frame.states.values()].sort()));
+  await engine.scanPhoto(photoOf(sheet));
+  assert.deepEqual(states, [["new", "new", "new", "rejected"]]);
+  assert.equal(engine.isRunning, false);
+  assert.equal(engine.scannedCount, 3);
+  assert.equal(newCodes.flat().length, 3);
+});
+
+test("stopWhenMatched stops once every expected code has been read", async () => {
+  const { engine } = startEngine({}, { stopWhenMatched: [...single.payloads, sheet.payloads[0]] });
+  await engine.scanPhoto(photoOf(single));
+  assert.equal(engine.isRunning, true);
+  await engine.scanPhoto(photoOf(sheet));
+  assert.equal(engine.isRunning, false);
+});
+
+test("photos scanned while no session runs are ignored", async () => {
+  const { decoder, calls } = createDecoder();
+  const engine = new ScannerEngine({ decoder });
+  assert.deepEqual(await engine.scanPhoto(photoOf(sheet)), []);
+  assert.equal(calls.length, 0);
+});
@@ -0,0 +1,21 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { SUPPORTED_FORMATS } from "../src/utils/formats";
+import { DEFAULT_SCANNER_CONFIG, getDecodeOptions, loadScannerConfig } from "../src/utils/scannerConfig";
+
+test("stored configs from before the allow-list look for every format", () => {
+  assert.deepEqual(loadScannerConfig(JSON.stringify({ maxCodesPerFrame: 5 })).formats, SUPPORTED_FORMATS);
+});
+
+test("a stored allow-list keeps only the formats this version knows", () => {
+  const stored = (formats: string[]) => loadScannerConfig(JSON.stringify({ formats })).formats;
+  assert.deepEqual(stored(["EAN_13", "MAXICODE", "QR_CODE"]), ["EAN_13", "QR_CODE"]);
+  assert.deepEqual(stored(["MAXICODE"]), SUPPORTED_FORMATS);
+  assert.deepEqual(stored([]), SUPPORTED_FORMATS);
+});
+
+test("decode options follow the config, with the formats overridable per session", () => {
+  const config = { ...DEFAULT_SCANNER_CONFIG, formats: ["CODE_128" as const], maxCodesPerFrame: 3, enableMultiScan: false };
+  assert.deepEqual(getDecodeOptions(config), { formats: ["CODE_128"], maxCodes: 3, multiScan: false });
+  assert.deepEqual(getDecodeOptions(config, ["QR_CODE"]).formats, ["QR_CODE"]);
+});
@@ -0,0 +1,71 @@
+import assert from "node:assert/strict";
+import { test } from "node:test";
+import { collectParts, countParts } from "../src/utils/structuredAppend";
+import type { ScanResult } from "../src/types";
+
+const parityOf = (text: string): number =>
+  new TextEncoder().encode(text).reduce((parity, byte) => parity ^ byte, 0);
+
+const part = (text: string, index: number, total: number, parity: number): ScanResult => ({
+  id: `${text}-${index}`,
+  text,
+  format: "QR_CODE",
+  timestamp: new Date(),
+  source: "camera",
+  structuredAppend: { index, total, parity },
+});
+
+const message = ["Hello, ", "structured ", "append!"];
+const parity = parityOf(message.join(""));
+const parts = message.map((text, index) => part(text, index, 3, parity));
+
+test("parts are collected across batches and reassembled", () => {
+  const plain: ScanResult = { ...parts[0], id: "plain", text: "plain", structuredAppend: undefined };
+  let out = collectParts([], [parts[0], plain]);
+  assert.deepEqual(out.sets.map(countParts), [1]);
+  assert.deepEqual(out.others.map((result) => result.text), ["plain"]);
+
+  out = collectParts(out.sets, [parts[2], parts[1]], out.assembled);
+  assert.equal(out.sets.length, 0);
+  assert.equal(out.completed.length, 1);
+  assert.equal(out.completed[0].text, message.join(""));
+  assert.equal(out.completed[0].assembledFrom, 3);
+});
+
+test("parts read again after their message was reassembled are ignored", () => {
+  const first = collectParts([], parts);
+  assert.equal(first.completed.length, 1);
+
+  const again = collectParts(first.sets, [parts[1], parts[0]], first.assembled);
+  assert.equal(again.sets.length, 0);
+  assert.equal(again.completed.length, 0);
+  assert.equal(again.others.length, 0);
+});
+
+test("two messages with the same total and parity are kept apart", () => {
+  // Same parity byte, since the two messages are the same bytes in another order
+  const other = ["append!", "Hello, ", "structured "].map((text, index) => part(text, index, 3, parity));
+  assert.equal(parityOf(other.map((result) => result.text).join("")), parity);
+
+  let out = collectParts([], [parts[0], other[0]]);
+  assert.equal(out.sets.length, 2);
+  assert.notEqual(out.sets[0].key, out.sets[1].key);
+
+  out = collectParts(out.sets, [parts[1], other[1], other[2], parts[2]], out.assembled);
+  assert.equal(out.sets.length, 0);
+  assert.deepEqual(
+    out.completed.map((result) => result.text).sort(),
+    [message.join(""), other.map((result) => result.text).join("")].sort()
+  );
+});
+
+test("a misread part is replaced by a re-read that fixes the parity", () => {
+  let out = collectParts([], [parts[0], part("structurex ", 1, 3, parity), parts[2]]);
+  assert.equal(out.completed.length, 0);
+  assert.equal(out.sets.length, 1);
+  assert.notEqual(out.sets[0].parityMismatch, undefined);
+
+  out = collectParts(out.sets, [parts[1]], out.assembled);
+  assert.equal(out.sets.length, 0);
+  assert.equal(out.completed[0]?.text, message.join(""));
+});